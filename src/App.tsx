@@ -18,6 +18,7 @@ interface AppState {
   currentView: View;
   selectedQuiz: Quiz | null;
   selectedAttemptId: string | null;
+  isPractice?: boolean;
 }
 
 function AppContent() {
@@ -66,6 +67,15 @@ function AppContent() {
     });
   }, []);
 
+  const handlePracticeQuiz = useCallback((quiz: Quiz) => {
+    setAppState({
+      currentView: 'take-quiz',
+      selectedQuiz: quiz,
+      selectedAttemptId: null,
+      isPractice: true
+    });
+  }, []);
+
   const handleViewResults = useCallback((attempt: QuizAttempt) => {
     setAppState({
       currentView: 'view-results',
@@ -164,6 +174,7 @@ function AppContent() {
           ) : (
             <NewUserDashboard
               onTakeQuiz={handleTakeQuiz}
+              onPracticeQuiz={handlePracticeQuiz}
               onViewResults={handleViewResults}
             />
           )}
@@ -175,6 +186,7 @@ function AppContent() {
           quiz={appState.selectedQuiz}
           onBack={handleBackToDashboard}
           onComplete={handleQuizComplete}
+          isPractice={appState.isPractice}
         />
       )}
       
@@ -2,7 +2,12 @@ import React, { useState, Suspense } from 'react';
 import { motion } from 'framer-motion';
 import { QuizCreator } from './QuizCreator';
 import { CSVUploader } from './CSVUploader';
+import { QuizPackageImporter } from './QuizPackageImporter';
 import { QuizResults } from './QuizResults';
+import { QuizManager } from './QuizManager';
+import { QuestionBank } from './QuestionBank';
+import { QuizVersionHistory } from './QuizVersionHistory';
+import { QuizRegrade } from './QuizRegrade';
 import { 
   LazyLeaderboard,
   LazyEnhancedAnalytics,
@@ -12,26 +17,54 @@ import {
   LazyFallback
 } from './LazyComponents';
 
-type ActiveView = 'Analytics' | 'Create Quiz' | 'Upload CSV' | 'All Results' | 'Leaderboard' | 'Credentials' | 'User Management' | 'View Result';
+type ActiveView = 'Analytics' | 'Create Quiz' | 'Upload CSV' | 'Import Quiz' | 'Question Bank' | 'Manage Quizzes' | 'Edit Quiz' | 'Quiz History' | 'Regrade Quiz' | 'All Results' | 'Leaderboard' | 'Credentials' | 'User Management' | 'View Result';
 
 const AdminDashboard: React.FC = () => {
   const [activeView, setActiveView] = useState<ActiveView>('Analytics');
   const [selectedAttemptId, setSelectedAttemptId] = useState<string | null>(null);
+  const [editingQuizId, setEditingQuizId] = useState<string | null>(null);
+  const [historyQuizId, setHistoryQuizId] = useState<string | null>(null);
+  const [regradeQuizId, setRegradeQuizId] = useState<string | null>(null);
 
-  const tabs: ActiveView[] = ['Analytics', 'Create Quiz', 'Upload CSV', 'All Results', 'Leaderboard', 'Credentials', 'User Management'];
+  const tabs: ActiveView[] = ['Analytics', 'Create Quiz', 'Upload CSV', 'Import Quiz', 'Question Bank', 'Manage Quizzes', 'All Results', 'Leaderboard', 'Credentials', 'User Management'];
 
+  // New quizzes are saved as drafts, so go where they can be published
   const handleQuizCreated = () => {
-    // Placeholder for quiz creation success handling
-    console.log('Quiz created successfully');
-    // Could switch to Analytics tab or show success message
-    setActiveView('Analytics');
+    setActiveView('Manage Quizzes');
   };
 
   const handleUploadSuccess = () => {
-    // Placeholder for CSV upload success handling
-    console.log('CSV upload successful');
-    // Could switch to Analytics tab or show success message
-    setActiveView('Analytics');
+    setActiveView('Manage Quizzes');
+  };
+
+  const handleEditQuiz = (quizId: string) => {
+    setEditingQuizId(quizId);
+    setActiveView('Edit Quiz');
+  };
+
+  const handleBackFromEdit = () => {
+    setEditingQuizId(null);
+    setActiveView('Manage Quizzes');
+  };
+
+  const handleViewHistory = (quizId: string) => {
+    setHistoryQuizId(quizId);
+    setActiveView('Quiz History');
+  };
+
+  const handleBackFromHistory = () => {
+    setHistoryQuizId(null);
+    setActiveView('Manage Quizzes');
+  };
+
+  const handleRegrade = (quizId: string) => {
+    setRegradeQuizId(quizId);
+    setActiveView('Regrade Quiz');
+  };
+
+  const handleBackFromRegrade = () => {
+    setRegradeQuizId(null);
+    setActiveView('Manage Quizzes');
   };
 
   const handleViewAttempt = (attemptId: string) => {
@@ -44,6 +77,18 @@ const AdminDashboard: React.FC = () => {
     setActiveView('All Results');
   };
 
+  const renderNoQuizSelected = () => (
+    <div className="text-center py-8">
+      <p className="text-gray-400 mb-4">No quiz selected</p>
+      <button
+        onClick={() => setActiveView('Manage Quizzes')}
+        className="px-6 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors"
+      >
+        Back to Manage Quizzes
+      </button>
+    </div>
+  );
+
   const renderActiveComponent = () => {
     switch (activeView) {
       case 'Analytics':
@@ -66,6 +111,53 @@ const AdminDashboard: React.FC = () => {
             onSave={handleUploadSuccess}
           />
         );
+      case 'Import Quiz':
+        return (
+          <QuizPackageImporter
+            onBack={() => setActiveView('Analytics')}
+            onSave={handleUploadSuccess}
+          />
+        );
+      case 'Question Bank':
+        return <QuestionBank />;
+      case 'Manage Quizzes':
+        return (
+          <QuizManager onEditQuiz={handleEditQuiz} onViewHistory={handleViewHistory} onRegrade={handleRegrade} />
+        );
+      case 'Quiz History':
+        if (!historyQuizId) {
+          return renderNoQuizSelected();
+        }
+        return (
+          <QuizVersionHistory
+            key={historyQuizId}
+            quizId={historyQuizId}
+            onBack={handleBackFromHistory}
+          />
+        );
+      case 'Regrade Quiz':
+        if (!regradeQuizId) {
+          return renderNoQuizSelected();
+        }
+        return (
+          <QuizRegrade
+            key={regradeQuizId}
+            quizId={regradeQuizId}
+            onBack={handleBackFromRegrade}
+          />
+        );
+      case 'Edit Quiz':
+        if (!editingQuizId) {
+          return renderNoQuizSelected();
+        }
+        return (
+          <QuizCreator
+            key={editingQuizId}
+            quizId={editingQuizId}
+            onBack={handleBackFromEdit}
+            onSave={handleBackFromEdit}
+          />
+        );
       case 'All Results':
         return (
           <Suspense fallback={<LazyFallback text="Loading Results..." />}>
@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Users, Trophy, Clock, Target, ChevronDown, ChevronRight, Calendar, BookOpen, Eye } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { QuizAttempt, Quiz, User } from '../types';
+import { getAttemptPercentage, getAttemptPoints, getAveragePercentage, formatPoints } from '../utils/scoring';
 
 interface UserWithAttempts extends User {
   attempts: (QuizAttempt & { quiz?: Quiz })[];
@@ -52,6 +53,7 @@ export const AllQuizResults: React.FC<AllQuizResultsProps> = ({ onViewAttempt })
             description
           )
         `)
+        .eq('status', 'completed')
         .order('completed_at', { ascending: false });
 
       if (attemptsError) throw attemptsError;
@@ -67,10 +69,8 @@ export const AllQuizResults: React.FC<AllQuizResultsProps> = ({ onViewAttempt })
       const usersWithAttempts: UserWithAttempts[] = usersData?.map(user => {
         const userAttempts = attemptsData?.filter(attempt => attempt.user_id === user.id) || [];
         
-        // Calculate average score
-        const totalScore = userAttempts.reduce((sum, attempt) => sum + attempt.score, 0);
-        const totalQuestions = userAttempts.reduce((sum, attempt) => sum + attempt.total_questions, 0);
-        const averageScore = totalQuestions > 0 ? Math.round((totalScore / totalQuestions) * 100) : 0;
+        // Average as a share of all points offered
+        const averageScore = Math.round(getAveragePercentage(userAttempts));
 
         // Add quiz details to attempts
         const attemptsWithQuiz = userAttempts.map(attempt => ({
@@ -308,7 +308,8 @@ export const AllQuizResults: React.FC<AllQuizResultsProps> = ({ onViewAttempt })
                       ) : (
                         <div className="p-6 space-y-3">
                           {user.attempts.map((attempt) => {
-                            const percentage = Math.round((attempt.score / attempt.total_questions) * 100);
+                            const percentage = Math.round(getAttemptPercentage(attempt));
+                            const points = getAttemptPoints(attempt);
                             return (
                               <div
                                 key={attempt.id}
@@ -326,7 +327,7 @@ export const AllQuizResults: React.FC<AllQuizResultsProps> = ({ onViewAttempt })
                                   <div className="flex items-center space-x-4 text-sm text-gray-400">
                                     <span className="flex items-center">
                                       <Trophy className="w-4 h-4 mr-1" />
-                                      {attempt.score}/{attempt.total_questions}
+                                      {formatPoints(points.earned)}/{formatPoints(points.max)} pts
                                     </span>
                                     <span className="flex items-center">
                                       <Clock className="w-4 h-4 mr-1" />
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Plus, X } from 'lucide-react';
+import { BankQuestion } from '../types';
+import { useQuestionBank, useQuestionBankStats } from '../hooks/useQueries';
+import { RichText } from './questions/RichText';
+import { BankFilterBar, BankQuestionSummary } from './QuestionBank';
+import { BankFilters, EMPTY_BANK_FILTERS, filterBankQuestions } from '../utils/questionBank';
+
+interface BankQuestionPickerProps {
+  // Bank questions the quiz already uses, which cannot be added twice
+  linkedIds: Set<string>;
+  onAdd: (questions: BankQuestion[]) => void;
+  onClose: () => void;
+}
+
+// Panel in the quiz editor for adding bank questions to the quiz by reference
+export const BankQuestionPicker: React.FC<BankQuestionPickerProps> = ({ linkedIds, onAdd, onClose }) => {
+  const { data: questions = [], isLoading, error } = useQuestionBank();
+  const { data: stats } = useQuestionBankStats();
+  const [filters, setFilters] = useState<BankFilters>(EMPTY_BANK_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const filteredQuestions = filterBankQuestions(questions, filters);
+
+  const toggle = (id: string) => {
+    const updated = new Set(selectedIds);
+    if (updated.has(id)) updated.delete(id);
+    else updated.add(id);
+    setSelectedIds(updated);
+  };
+
+  const handleAdd = () => {
+    onAdd(questions.filter(question => selectedIds.has(question.id)));
+    setSelectedIds(new Set());
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-gray-800 rounded-xl p-6 border border-blue-700 space-y-4"
+    >
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-lg font-medium text-white">Add from Question Bank</h4>
+          <p className="text-sm text-gray-400">Added questions stay linked: editing them in the bank updates this quiz.</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white transition-colors"
+          aria-label="Close question bank"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <BankFilterBar questions={questions} filters={filters} onChange={setFilters} />
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="w-6 h-6 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="text-red-400 text-sm">Failed to load the question bank. Please try again.</p>
+      ) : filteredQuestions.length === 0 ? (
+        <p className="text-gray-400 text-sm py-4 text-center">
+          {questions.length > 0 ? 'No questions match your filters.' : 'The question bank is empty.'}
+        </p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+          {filteredQuestions.map(question => {
+            const linked = linkedIds.has(question.id);
+            return (
+              <label
+                key={question.id}
+                className={`flex items-start gap-3 p-3 rounded-lg border border-gray-700 ${linked ? 'opacity-50' : 'cursor-pointer hover:bg-gray-700/50'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={linked || selectedIds.has(question.id)}
+                  disabled={linked}
+                  onChange={() => toggle(question.id)}
+                  className="mt-1 w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+                />
+                <div className="min-w-0">
+                  <RichText content={question.question} className="text-white text-sm" />
+                  <BankQuestionSummary question={question} stats={stats?.get(question.id)} />
+                  {linked && <p className="text-xs text-gray-500 mt-1">Already in this quiz</p>}
+                </div>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleAdd}
+          disabled={selectedIds.size === 0}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors disabled:opacity-50 disabled:hover:bg-blue-600"
+        >
+          <Plus className="w-5 h-5" />
+          <span>Add {selectedIds.size > 0 ? selectedIds.size : ''} {selectedIds.size === 1 ? 'Question' : 'Questions'}</span>
+        </button>
+      </div>
+    </motion.div>
+  );
+};
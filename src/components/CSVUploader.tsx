@@ -1,44 +1,120 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Upload, FileText, ArrowLeft, Save, Edit3, Clock, Users } from 'lucide-react';
+import { Upload, FileText, ArrowLeft, Save, Edit3, Clock, Users, FileArchive, X, Sparkles } from 'lucide-react';
 import { useDropzone } from 'react-dropzone';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { LatePolicy, PoolRule } from '../types';
+import { LATE_POLICY_LABELS } from '../utils/quizAvailability';
+import { validateQuestionPool, toPoolColumns } from '../utils/questionPool';
+import { QuestionPoolSettings } from './QuestionPoolSettings';
+import { QuestionAnswerEditor } from './questions/QuestionAnswerEditor';
+import { RichTextPreview } from './questions/RichText';
+import { MediaPicker } from './questions/MediaPicker';
+import { ImportReport } from './ImportReport';
+import { QuestionGenerator } from './QuestionGenerator';
+import { isLocalMedia, uploadQuestionMedia, openMediaArchive } from '../utils/questionMedia';
+import { saveQuiz } from '../utils/quizSave';
+import { parseCSV } from '../utils/csv';
+import { SpreadsheetSheet, isSpreadsheetFile, readSpreadsheet } from '../utils/spreadsheet';
+import { ImportResult, importQuestionRows } from '../utils/questionImport';
+import { QUESTION_FORMATS, QuestionFormat, detectQuestionFormat, importQuestionFormat } from '../utils/questionFormats';
+import { QuestionDraft, validateQuestionDraft } from '../utils/questionTypes';
+import { GenerationRequest, GenerationResult } from '../utils/questionGeneration';
 
 interface CSVUploaderProps {
   onBack: () => void;
   onSave: () => void;
 }
 
-interface ExtractedQuestion {
-  question: string;
-  options: string[];
-  correct_answer: number;
-  category: string;
-}
+// Imported questions start as single choice and can be changed to any type while editing.
+// Generated ones also carry the passage of the source text they were drawn from.
+type ExtractedQuestion = QuestionDraft & { source?: string };
 
 export const CSVUploader: React.FC<CSVUploaderProps> = ({ onBack, onSave }) => {
   const { user } = useAuth();
   const [file, setFile] = useState<File | null>(null);
+  const [assetsZip, setAssetsZip] = useState<File | null>(null);
   const [questions, setQuestions] = useState<ExtractedQuestion[]>([]);
   const [quizTitle, setQuizTitle] = useState('');
   const [quizDescription, setQuizDescription] = useState('');
   const [category, setCategory] = useState('General');
   const [timeLimit, setTimeLimit] = useState<number>(30); // Default 30 minutes
   const [maxAttempts, setMaxAttempts] = useState<number | null>(null); // Default unlimited
+  const [startTime, setStartTime] = useState<string>('');
+  const [endTime, setEndTime] = useState<string>('');
+  const [latePolicy, setLatePolicy] = useState<LatePolicy>('block');
+  const [latePenaltyPercent, setLatePenaltyPercent] = useState<number>(10);
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [negativeMarkingPercent, setNegativeMarkingPercent] = useState<number>(0);
+  const [poolSize, setPoolSize] = useState<number | null>(null);
+  const [poolRules, setPoolRules] = useState<PoolRule[]>([]);
   const [processing, setProcessing] = useState(false);
   const [saving, setSaving] = useState(false);
-  const [step, setStep] = useState<'upload' | 'edit'>('upload');
+  const [step, setStep] = useState<'upload' | 'review' | 'edit'>('upload');
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  // LMS format of the last parsed file; null for CSV and spreadsheets
+  const [importFormat, setImportFormat] = useState<QuestionFormat | null>(null);
+  // Sheets of an uploaded .xlsx or .ods workbook; null for CSV files
+  const [sheets, setSheets] = useState<SpreadsheetSheet[] | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  // Questions come from a file, or are generated from source text
+  const [mode, setMode] = useState<'file' | 'generate'>('file');
+  const [generation, setGeneration] = useState<GenerationRequest>({ text: '', count: 5, difficulty: 'medium', category: 'General' });
+  const [generationFile, setGenerationFile] = useState<string | null>(null);
+  // Whether the questions in review were generated rather than read from a file
+  const [generated, setGenerated] = useState(false);
+
+  const selectFile = async (selected: File) => {
+    setFile(selected);
+    setSheets(null);
+    setSheetIndex(0);
+    if (!isSpreadsheetFile(selected.name)) return;
+
+    setProcessing(true);
+    try {
+      const workbook = await readSpreadsheet(selected);
+      setSheets(workbook);
+      // Start on the first sheet that has anything in it
+      setSheetIndex(Math.max(0, workbook.findIndex(sheet => sheet.rows.length > 0)));
+    } catch (error) {
+      console.error('Error reading spreadsheet:', error);
+      alert('Failed to read the spreadsheet. Please check that it is a valid .xlsx or .ods file.');
+      setFile(null);
+    } finally {
+      setProcessing(false);
+    }
+  };
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     accept: {
       'text/csv': ['.csv'],
-      'application/vnd.ms-excel': ['.csv']
+      'application/vnd.ms-excel': ['.csv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
+      'application/xml': ['.xml'],
+      'text/xml': ['.xml'],
+      'text/plain': ['.txt', '.gift']
     },
     maxFiles: 1,
     onDrop: (acceptedFiles) => {
       if (acceptedFiles.length > 0) {
-        setFile(acceptedFiles[0]);
+        selectFile(acceptedFiles[0]);
+      }
+    }
+  });
+
+  // Optional zip of the images referenced by file name in the CSV
+  const assetsDropzone = useDropzone({
+    accept: {
+      'application/zip': ['.zip'],
+      'application/x-zip-compressed': ['.zip']
+    },
+    maxFiles: 1,
+    onDrop: (acceptedFiles) => {
+      if (acceptedFiles.length > 0) {
+        setAssetsZip(acceptedFiles[0]);
       }
     }
   });
@@ -48,60 +124,53 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onBack, onSave }) => {
 
     setProcessing(true);
     try {
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
-      const parsedQuestions: ExtractedQuestion[] = [];
-
-      // Skip header row if it exists
-      const startIndex = lines[0].toLowerCase().includes('question') ? 1 : 0;
-
-      for (let i = startIndex; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-
-        // Expected CSV format: Question,Option1,Option2,Option3,Option4,CorrectAnswer,Category
-        const columns = line.split(',').map(col => col.trim().replace(/^"|"$/g, ''));
-        
-        if (columns.length >= 6) {
-          const question = columns[0];
-          const options = [columns[1], columns[2], columns[3], columns[4]];
-          const correctAnswerText = columns[5].toLowerCase();
-          const questionCategory = columns[6] || category;
-
-          // Find correct answer index
-          let correctAnswer = 0;
-          if (correctAnswerText === 'b' || correctAnswerText === '2') correctAnswer = 1;
-          else if (correctAnswerText === 'c' || correctAnswerText === '3') correctAnswer = 2;
-          else if (correctAnswerText === 'd' || correctAnswerText === '4') correctAnswer = 3;
-
-          parsedQuestions.push({
-            question,
-            options,
-            correct_answer: correctAnswer,
-            category: questionCategory
-          });
-        }
+      const text = sheets ? '' : await file.text();
+      const format = sheets ? null : detectQuestionFormat(file.name, text);
+      let result: ImportResult;
+
+      if (format) {
+        result = importQuestionFormat(format, text, category);
+      } else {
+        const rows = sheets ? sheets[sheetIndex]?.rows ?? [] : parseCSV(text);
+        const resolveImage = assetsZip ? await openMediaArchive(assetsZip) : undefined;
+        result = await importQuestionRows(rows, { defaultCategory: category, resolveImage });
       }
 
-      setQuestions(parsedQuestions);
-      setStep('edit');
+      setImportFormat(format);
+      setGenerated(false);
+      setImportResult(result);
+      setStep('review');
     } catch (error) {
-      console.error('Error parsing CSV:', error);
-      alert('Failed to parse CSV file. Please check the format.');
+      console.error('Error parsing import file:', error);
+      alert('Failed to parse the file. Please check the format.');
     } finally {
       setProcessing(false);
     }
   };
 
+  const handleGenerated = (result: GenerationResult) => {
+    setCategory(generation.category);
+    setImportFormat(null);
+    setGenerated(true);
+    setImportResult(result);
+    setStep('review');
+  };
+
+  const continueToEdit = () => {
+    if (!importResult) return;
+    setQuestions(importResult.questions);
+    setStep('edit');
+  };
+
   const updateQuestion = (index: number, field: string, value: any) => {
     const updated = [...questions];
     updated[index] = { ...updated[index], [field]: value };
     setQuestions(updated);
   };
 
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+  const replaceQuestion = (index: number, question: ExtractedQuestion) => {
     const updated = [...questions];
-    updated[questionIndex].options[optionIndex] = value;
+    updated[index] = question;
     setQuestions(updated);
   };
 
@@ -109,12 +178,37 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onBack, onSave }) => {
     setQuestions(questions.filter((_, i) => i !== index));
   };
 
+  // The source passage is not saved with the question, so it can be kept in the explanation
+  const citeSource = (index: number) => {
+    const question = questions[index];
+    const citation = `Source: "${question.source}"`;
+    const explanation = question.explanation?.trim();
+    replaceQuestion(index, { ...question, explanation: explanation ? `${explanation}\n\n${citation}` : citation });
+  };
+
   const handleSave = async () => {
     if (!quizTitle.trim() || questions.length === 0) {
       alert('Please provide a quiz title and at least one question');
       return;
     }
 
+    const invalidIndex = questions.findIndex(q => validateQuestionDraft(q) !== null);
+    if (invalidIndex !== -1) {
+      alert(`Question ${invalidIndex + 1}: ${validateQuestionDraft(questions[invalidIndex])}`);
+      return;
+    }
+
+    if (startTime && endTime && new Date(endTime) <= new Date(startTime)) {
+      alert('End time must be after the start time');
+      return;
+    }
+
+    const poolError = validateQuestionPool(questions, poolSize, poolRules);
+    if (poolError) {
+      alert(poolError);
+      return;
+    }
+
     setSaving(true);
     try {
       // Set admin context
@@ -125,33 +219,29 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onBack, onSave }) => {
         });
       }
 
-      // Create quiz
-      const { data: quiz, error: quizError } = await supabase
-        .from('quizzes')
-        .insert([{
+      // Images from the asset zip are uploaded into the new quiz's folder first
+      const hasLocalMedia = questions.some(q => isLocalMedia(q.image_path) || q.option_images?.some(isLocalMedia));
+
+      await saveQuiz({
+        fields: {
           title: quizTitle.trim(),
           description: quizDescription.trim(),
           category,
           time_limit: timeLimit,
           max_attempts: maxAttempts,
-          created_by: user?.id
-        }])
-        .select()
-        .single();
-
-      if (quizError) throw quizError;
-
-      // Create questions
-      const questionsToInsert = questions.map(q => ({
-        ...q,
-        quiz_id: quiz.id
-      }));
-
-      const { error: questionsError } = await supabase
-        .from('questions')
-        .insert(questionsToInsert);
-
-      if (questionsError) throw questionsError;
+          start_time: startTime ? new Date(startTime).toISOString() : null,
+          end_time: endTime ? new Date(endTime).toISOString() : null,
+          late_policy: latePolicy,
+          late_penalty_percent: latePolicy === 'penalty' ? latePenaltyPercent : 0,
+          shuffle_questions: shuffleQuestions,
+          shuffle_options: shuffleOptions,
+          negative_marking: negativeMarkingPercent / 100,
+          ...toPoolColumns(poolSize, poolRules),
+        },
+        questions,
+        createdBy: user?.id,
+        storeMedia: hasLocalMedia ? uploadQuestionMedia : undefined,
+      });
 
       onSave();
     } catch (error) {
@@ -176,78 +266,182 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onBack, onSave }) => {
         </div>
 
         <div className="bg-gray-800 rounded-xl p-4 sm:p-6 lg:p-8 border border-gray-700">
-          <h3 className="text-xl sm:text-2xl font-semibold text-white mb-4 sm:mb-6 text-center">Upload CSV File</h3>
+          <h3 className="text-xl sm:text-2xl font-semibold text-white mb-4 sm:mb-6 text-center">Upload Questions</h3>
           
-          <div className="mb-4 sm:mb-6 p-4 bg-blue-900/20 rounded-lg border border-blue-700">
-            <h4 className="text-blue-300 font-medium mb-2 text-sm sm:text-base">CSV Format Required:</h4>
-            <p className="text-blue-200 text-xs sm:text-sm mb-2 break-all">
-              Question,Option1,Option2,Option3,Option4,CorrectAnswer,Category
-            </p>
-            <p className="text-blue-200 text-xs">
-              CorrectAnswer should be: A/1, B/2, C/3, or D/4
-            </p>
+          <div className="flex justify-center mb-4 sm:mb-6">
+            <div className="inline-flex bg-gray-700 rounded-lg p-1">
+              <button
+                onClick={() => setMode('file')}
+                className={`px-4 py-2 rounded-md text-sm flex items-center space-x-2 transition-colors ${mode === 'file' ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'}`}
+              >
+                <Upload className="w-4 h-4" />
+                <span>Upload a File</span>
+              </button>
+              <button
+                onClick={() => setMode('generate')}
+                className={`px-4 py-2 rounded-md text-sm flex items-center space-x-2 transition-colors ${mode === 'generate' ? 'bg-blue-600 text-white' : 'text-gray-300 hover:text-white'}`}
+              >
+                <Sparkles className="w-4 h-4" />
+                <span>Generate from Text</span>
+              </button>
+            </div>
           </div>
+
+          {mode === 'generate' ? (
+            <QuestionGenerator
+              value={generation}
+              fileName={generationFile}
+              onChange={(value, fileName) => {
+                setGeneration(value);
+                setGenerationFile(fileName);
+              }}
+              onGenerated={handleGenerated}
+            />
+          ) : (
+            <>
+            <div className="mb-4 sm:mb-6 p-4 bg-blue-900/20 rounded-lg border border-blue-700">
+              <h4 className="text-blue-300 font-medium mb-2 text-sm sm:text-base">File Format:</h4>
+              <p className="text-blue-200 text-xs sm:text-sm mb-2 break-all">
+                Question,Option1,Option2,…,Option8,CorrectAnswer,Category,Explanation,ReferenceURL,Image,Option1Image,…,Option8Image
+              </p>
+              <p className="text-blue-200 text-xs">
+                The first row names the columns, in any order. Use 2 to 8 option columns; CorrectAnswer is a letter (A, B, …)
+                or number (1, 2, …). Category, Explanation, ReferenceURL and the image columns are optional. Fields containing
+                commas, quotes or line breaks must be wrapped in double quotes. Image columns hold file names from a zip uploaded below.
+                Excel (.xlsx) and OpenDocument (.ods) workbooks use the same columns; pick the sheet to import after uploading.
+                Question banks exported from Moodle as Moodle XML (.xml), GIFT (.gift or .txt) or Aiken (.txt) are read as they are.
+              </p>
+            </div>
           
-          <div
-            {...getRootProps()}
-            className={`border-2 border-dashed rounded-xl p-8 sm:p-12 text-center cursor-pointer transition-colors touch-target ${
-              isDragActive
-                ? 'border-blue-500 bg-blue-500/10'
-                : 'border-gray-600 hover:border-gray-500'
-            }`}
-          >
-            <input {...getInputProps()} />
-            <Upload className="w-12 h-12 sm:w-16 sm:h-16 text-gray-400 mx-auto mb-4" />
+            <div
+              {...getRootProps()}
+              className={`border-2 border-dashed rounded-xl p-8 sm:p-12 text-center cursor-pointer transition-colors touch-target ${
+                isDragActive
+                  ? 'border-blue-500 bg-blue-500/10'
+                  : 'border-gray-600 hover:border-gray-500'
+              }`}
+            >
+              <input {...getInputProps()} />
+              <Upload className="w-12 h-12 sm:w-16 sm:h-16 text-gray-400 mx-auto mb-4" />
             
-            {isDragActive ? (
-              <p className="text-blue-400 text-lg">Drop the CSV file here...</p>
-            ) : (
-              <div>
-                <p className="text-gray-300 text-lg mb-2">
-                  Drag & drop a CSV file here, or click to select
-                </p>
-                <p className="text-gray-500 text-sm">
-                  Supported format: CSV
-                </p>
-              </div>
-            )}
-          </div>
+              {isDragActive ? (
+                <p className="text-blue-400 text-lg">Drop the file here...</p>
+              ) : (
+                <div>
+                  <p className="text-gray-300 text-lg mb-2">
+                    Drag & drop a question file here, or click to select
+                  </p>
+                  <p className="text-gray-500 text-sm">
+                    Supported formats: CSV, XLSX, ODS, Moodle XML, GIFT, Aiken
+                  </p>
+                </div>
+              )}
+            </div>
 
-          {file && (
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="mt-6 p-4 bg-gray-700 rounded-lg"
+            <div
+              {...assetsDropzone.getRootProps()}
+              className={`mt-4 border-2 border-dashed rounded-xl p-4 text-center cursor-pointer transition-colors ${
+                assetsDropzone.isDragActive
+                  ? 'border-blue-500 bg-blue-500/10'
+                  : 'border-gray-700 hover:border-gray-600'
+              }`}
             >
-              <div className="flex items-center space-x-3 mb-4">
-                <FileText className="w-6 h-6 text-blue-400" />
-                <div>
-                  <p className="text-white font-medium">{file.name}</p>
-                  <p className="text-gray-400 text-sm">{(file.size / 1024).toFixed(1)} KB</p>
+              <input {...assetsDropzone.getInputProps()} />
+              {assetsZip ? (
+                <div className="flex items-center justify-center space-x-2 text-sm text-gray-300">
+                  <FileArchive className="w-5 h-5 text-blue-400" />
+                  <span className="truncate">{assetsZip.name}</span>
+                  <span className="text-gray-500">({(assetsZip.size / 1024).toFixed(1)} KB)</span>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setAssetsZip(null);
+                    }}
+                    className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                    aria-label="Remove image zip"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
                 </div>
-              </div>
-              
-              <button
-                onClick={parseCSVFile}
-                disabled={processing}
-                className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white py-2 px-4 rounded-lg transition-colors flex items-center justify-center space-x-2"
+              ) : (
+                <p className="text-sm text-gray-400">
+                  <FileArchive className="w-5 h-5 inline mr-2 text-gray-500" />
+                  Optional: drop a .zip of images referenced in the file
+                </p>
+              )}
+            </div>
+
+            {file && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="mt-6 p-4 bg-gray-700 rounded-lg"
               >
-                {processing ? (
-                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                ) : (
-                  <>
-                    <Edit3 className="w-5 h-5" />
-                    <span>Parse Questions</span>
-                  </>
+                <div className="flex items-center space-x-3 mb-4">
+                  <FileText className="w-6 h-6 text-blue-400" />
+                  <div>
+                    <p className="text-white font-medium">{file.name}</p>
+                    <p className="text-gray-400 text-sm">{(file.size / 1024).toFixed(1)} KB</p>
+                  </div>
+                </div>
+
+                {sheets && sheets.length > 1 && (
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Sheet</label>
+                    <select
+                      value={sheetIndex}
+                      onChange={(e) => setSheetIndex(Number(e.target.value))}
+                      className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+                    >
+                      {sheets.map((sheet, index) => (
+                        <option key={index} value={index}>
+                          {sheet.name} ({sheet.rows.length} {sheet.rows.length === 1 ? 'row' : 'rows'})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 )}
-              </button>
-            </motion.div>
+              
+                <button
+                  onClick={parseCSVFile}
+                  disabled={processing || (sheets !== null && sheets.length === 0)}
+                  className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white py-2 px-4 rounded-lg transition-colors flex items-center justify-center space-x-2"
+                >
+                  {processing ? (
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                  ) : (
+                    <>
+                      <Edit3 className="w-5 h-5" />
+                      <span>Parse Questions</span>
+                    </>
+                  )}
+                </button>
+              </motion.div>
+            )}
+            </>
           )}
         </div>
       </div>
     );
   }
 
+  if (step === 'review' && importResult) {
+    return (
+      <ImportReport
+        fileName={generated
+          ? `${generationFile ?? 'Pasted text'} · Generated`
+          : sheets
+          ? `${file?.name ?? ''} · ${sheets[sheetIndex]?.name ?? ''}`
+          : `${file?.name ?? ''}${importFormat ? ` · ${QUESTION_FORMATS[importFormat].label}` : ''}`}
+        result={importResult}
+        itemLabel={importFormat || generated ? 'Question' : 'Row'}
+        onBack={() => setStep('upload')}
+        onContinue={continueToEdit}
+      />
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -270,7 +464,8 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onBack, onSave }) => {
       </div>
 
       <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
-        <h3 className="text-xl font-semibold text-white mb-6">Quiz Details</h3>
+        <h3 className="text-xl font-semibold text-white mb-1">Quiz Details</h3>
+        <p className="text-sm text-gray-400 mb-6">Saved as a draft; publish it from Manage Quizzes when it is ready.</p>
         
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
           <div>
@@ -333,7 +528,104 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onBack, onSave }) => {
             <p className="text-xs text-gray-500 mt-1">Leave empty for unlimited</p>
           </div>
         </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Start Time (Optional)</label>
+            <input
+              type="datetime-local"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">Leave empty for immediate availability.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">End Time (Optional)</label>
+            <input
+              type="datetime-local"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">Leave empty to keep the quiz open.</p>
+          </div>
+        </div>
+
+        {endTime && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">After the Quiz Closes</label>
+              <select
+                value={latePolicy}
+                onChange={(e) => setLatePolicy(e.target.value as LatePolicy)}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(LATE_POLICY_LABELS) as LatePolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{LATE_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+            </div>
+
+            {latePolicy === 'penalty' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Late Penalty (%)</label>
+                <input
+                  type="number"
+                  value={latePenaltyPercent}
+                  onChange={(e) => setLatePenaltyPercent(Math.min(Math.max(parseInt(e.target.value) || 0, 0), 100))}
+                  min="0"
+                  max="100"
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+          </div>
+        )}
         
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-6 mb-6">
+          <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={shuffleQuestions}
+              onChange={(e) => setShuffleQuestions(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Shuffle question order for each attempt</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={shuffleOptions}
+              onChange={(e) => setShuffleOptions(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Shuffle answer options for each attempt</span>
+          </label>
+        </div>
+
+        <div className="mb-6 max-w-xs">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Negative Marking (%)</label>
+          <input
+            type="number"
+            value={negativeMarkingPercent}
+            onChange={(e) => setNegativeMarkingPercent(Math.min(Math.max(parseInt(e.target.value) || 0, 0), 100))}
+            min="0"
+            max="100"
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Share of a question's points lost for a wrong answer. Skipped questions cost nothing.</p>
+        </div>
+
+        <QuestionPoolSettings
+          questions={questions}
+          poolSize={poolSize}
+          poolRules={poolRules}
+          onPoolSizeChange={setPoolSize}
+          onPoolRulesChange={setPoolRules}
+        />
+
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
           <textarea
@@ -379,38 +671,35 @@ export const CSVUploader: React.FC<CSVUploaderProps> = ({ onBack, onSave }) => {
                   className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                   rows={2}
                 />
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {question.options.map((option, optionIndex) => (
-                  <div key={optionIndex}>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Option {optionIndex + 1}
-                      {question.correct_answer === optionIndex && (
-                        <span className="text-green-400 ml-2">(Correct)</span>
-                      )}
-                    </label>
-                    <div className="flex space-x-2">
-                      <input
-                        type="text"
-                        value={option}
-                        onChange={(e) => updateOption(index, optionIndex, e.target.value)}
-                        className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      />
+                <RichTextPreview content={question.question} />
+                {question.source && (
+                  <blockquote className="mt-2 pl-3 border-l-2 border-blue-500 text-sm text-gray-300">
+                    <span className="block text-xs text-gray-500 mb-1">Source passage</span>
+                    {question.source}
+                    {!question.explanation?.includes(question.source) && (
                       <button
-                        onClick={() => updateQuestion(index, 'correct_answer', optionIndex)}
-                        className={`px-3 py-2 rounded-lg transition-colors ${
-                          question.correct_answer === optionIndex
-                            ? 'bg-green-600 text-white'
-                            : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                        }`}
+                        type="button"
+                        onClick={() => citeSource(index)}
+                        className="block mt-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
                       >
-                        ✓
+                        Add to explanation
                       </button>
-                    </div>
-                  </div>
-                ))}
+                    )}
+                  </blockquote>
+                )}
+                <div className="mt-2">
+                  <MediaPicker
+                    value={question.image_path}
+                    onChange={(value) => updateQuestion(index, 'image_path', value)}
+                    label={`question ${index + 1}`}
+                  />
+                </div>
               </div>
+
+              <QuestionAnswerEditor
+                question={question}
+                onChange={(updated) => replaceQuestion(index, updated)}
+              />
             </div>
           </motion.div>
         ))}
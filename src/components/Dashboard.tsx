@@ -40,6 +40,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
         .from('quiz_attempts')
         .select('*')
         .eq('user_id', user?.id)
+        .eq('status', 'completed')
         .order('completed_at', { ascending: false })
         .limit(5);
 
@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { BarChart3, TrendingUp, Users, Target, Award, Activity } from 'lucide-react';
 import { useAnalytics } from '../hooks/useQueries';
 import { useAuth } from '../contexts/AuthContext';
+import { getAttemptPoints, getAveragePercentage } from '../utils/scoring';
 
 export const EnhancedAnalytics: React.FC = () => {
   const { isAdmin } = useAuth();
@@ -35,20 +36,21 @@ export const EnhancedAnalytics: React.FC = () => {
           id: quizId,
           title: attempt.quizzes?.title || 'Unknown Quiz',
           attempts: 0,
-          totalScore: 0,
-          totalQuestions: 0
+          earnedPoints: 0,
+          maxPoints: 0
         };
       }
+      const points = getAttemptPoints(attempt);
       acc[quizId].attempts++;
-      acc[quizId].totalScore += attempt.score;
-      acc[quizId].totalQuestions += attempt.total_questions;
+      acc[quizId].earnedPoints += points.earned;
+      acc[quizId].maxPoints += points.max;
       return acc;
     }, {});
 
     const popularQuizzes = Object.values(quizAttempts)
       .map((quiz: any) => ({
         ...quiz,
-        averageScore: quiz.totalQuestions > 0 ? (quiz.totalScore / quiz.totalQuestions) * 100 : 0
+        averageScore: quiz.maxPoints > 0 ? (quiz.earnedPoints / quiz.maxPoints) * 100 : 0
       }))
       .sort((a: any, b: any) => b.attempts - a.attempts)
       .slice(0, 10);
@@ -74,23 +76,24 @@ export const EnhancedAnalytics: React.FC = () => {
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
     // Calculate category performance
-    const categoryMap: { [key: string]: { attempts: number; totalScore: number; totalQuestions: number } } = {};
+    const categoryMap: { [key: string]: { attempts: number; earnedPoints: number; maxPoints: number } } = {};
     
     filteredAttempts.forEach((attempt: any) => {
       const category = attempt.quizzes?.category || 'Uncategorized';
       if (!categoryMap[category]) {
-        categoryMap[category] = { attempts: 0, totalScore: 0, totalQuestions: 0 };
+        categoryMap[category] = { attempts: 0, earnedPoints: 0, maxPoints: 0 };
       }
+      const points = getAttemptPoints(attempt);
       categoryMap[category].attempts++;
-      categoryMap[category].totalScore += attempt.score;
-      categoryMap[category].totalQuestions += attempt.total_questions;
+      categoryMap[category].earnedPoints += points.earned;
+      categoryMap[category].maxPoints += points.max;
     });
 
     const categoryPerformance = Object.entries(categoryMap)
       .map(([category, data]) => ({
         category,
         attempts: data.attempts,
-        averageScore: data.totalQuestions > 0 ? (data.totalScore / data.totalQuestions) * 100 : 0
+        averageScore: data.maxPoints > 0 ? (data.earnedPoints / data.maxPoints) * 100 : 0
       }))
       .sort((a, b) => b.attempts - a.attempts);
 
@@ -116,15 +119,12 @@ export const EnhancedAnalytics: React.FC = () => {
       }))
     ].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
-    // Calculate totals
-    const totalScore = filteredAttempts.reduce((sum: number, attempt: any) => sum + attempt.score, 0);
-    const totalQuestions = filteredAttempts.reduce((sum: number, attempt: any) => sum + attempt.total_questions, 0);
 
     return {
       totalQuizzes: quizzes.length,
       totalUsers: users.length,
       totalAttempts: filteredAttempts.length,
-      averageScore: totalQuestions > 0 ? (totalScore / totalQuestions) * 100 : 0,
+      averageScore: getAveragePercentage(filteredAttempts),
       popularQuizzes,
       userEngagement,
       categoryPerformance,
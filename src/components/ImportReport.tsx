@@ -0,0 +1,109 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, CheckCircle, XCircle, AlertTriangle, Edit3 } from 'lucide-react';
+import { ImportResult } from '../utils/questionImport';
+
+interface ImportReportProps {
+  fileName: string;
+  result: ImportResult;
+  itemLabel?: 'Row' | 'Question'; // What ImportIssue.row counts
+  onBack: () => void;
+  onContinue: () => void;
+}
+
+// Row-by-row outcome of reading an import file, shown before the questions are edited
+export const ImportReport: React.FC<ImportReportProps> = ({ fileName, result, itemLabel = 'Row', onBack, onContinue }) => {
+  const errors = result.issues.filter(issue => issue.severity === 'error');
+  const warnings = result.issues.filter(issue => issue.severity === 'warning');
+  const skippedRows = new Set(errors.map(issue => issue.row)).size;
+  const unit = itemLabel.toLowerCase();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onBack}
+          className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Upload</span>
+        </button>
+
+        <button
+          onClick={onContinue}
+          disabled={result.questions.length === 0}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg flex items-center space-x-2 transition-colors disabled:opacity-50"
+        >
+          <Edit3 className="w-5 h-5" />
+          <span>Continue with {result.questions.length} {result.questions.length === 1 ? 'question' : 'questions'}</span>
+        </button>
+      </div>
+
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        <h3 className="text-xl font-semibold text-white mb-1">Import Report</h3>
+        <p className="text-sm text-gray-400 mb-6">{fileName}</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          <div className="bg-green-900/20 border border-green-800 rounded-lg p-4 flex items-center space-x-3">
+            <CheckCircle className="w-6 h-6 text-green-400" />
+            <div>
+              <p className="text-2xl font-bold text-white">{result.questions.length}</p>
+              <p className="text-sm text-gray-400">ready to import</p>
+            </div>
+          </div>
+          <div className="bg-red-900/20 border border-red-800 rounded-lg p-4 flex items-center space-x-3">
+            <XCircle className="w-6 h-6 text-red-400" />
+            <div>
+              <p className="text-2xl font-bold text-white">{skippedRows}</p>
+              <p className="text-sm text-gray-400">{skippedRows === 1 ? unit : `${unit}s`} skipped</p>
+            </div>
+          </div>
+          <div className="bg-yellow-900/20 border border-yellow-800 rounded-lg p-4 flex items-center space-x-3">
+            <AlertTriangle className="w-6 h-6 text-yellow-400" />
+            <div>
+              <p className="text-2xl font-bold text-white">{warnings.length}</p>
+              <p className="text-sm text-gray-400">{warnings.length === 1 ? 'warning' : 'warnings'}</p>
+            </div>
+          </div>
+        </div>
+
+        {result.issues.length === 0 ? (
+          <p className="text-green-300 text-sm">All {result.rowCount} {unit}s were read without problems.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4 font-medium">{itemLabel}</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2 font-medium">Problem</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...result.issues].sort((a, b) => a.row - b.row).map((issue, index) => (
+                  <motion.tr
+                    key={`${issue.row}-${index}`}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: Math.min(index * 0.02, 0.3) }}
+                    className="border-b border-gray-700/50"
+                  >
+                    <td className="py-2 pr-4 text-gray-300">{issue.row}</td>
+                    <td className="py-2 pr-4">
+                      {issue.severity === 'error' ? (
+                        <span className="text-red-300">Skipped</span>
+                      ) : (
+                        <span className="text-yellow-300">Warning</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-gray-300">{issue.message}</td>
+                  </motion.tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Medal, Award, Crown, Target, Clock, BookOpen, TrendingUp, Filter, Users } from 'lucide-react';
 import { useLeaderboard, useQuizzes, useUsers } from '../hooks/useQueries';
+import { formatPoints } from '../utils/scoring';
 import { AppleLoading, SkeletonCard } from './AppleLoading';
 
 export const Leaderboard: React.FC = () => {
@@ -61,10 +62,12 @@ export const Leaderboard: React.FC = () => {
             user_id: entry.userId,
             score: entry.score,
             total_questions: entry.totalQuestions || 10,
+            earned_points: entry.earnedPoints,
+            max_points: entry.maxPoints,
             time_taken: entry.timeSpent || 0,
             completed_at: entry.completedAt || new Date().toISOString()
           },
-          percentage: entry.score,
+          percentage: Number(entry.score) || 0, // Already a percentage of points
           rank: index + 1
         }));
 
@@ -232,7 +235,7 @@ export const Leaderboard: React.FC = () => {
                         <div className="flex items-center gap-4 text-sm text-gray-400">
                           <span className="flex items-center gap-1">
                             <Target className="w-4 h-4" />
-                            Score: {entry.score}
+                            Score: {(Number(entry.score) || 0).toFixed(1)}%
                           </span>
                         </div>
                       </div>
@@ -307,7 +310,9 @@ export const Leaderboard: React.FC = () => {
 
                         <div className="text-right">
                           <div className="text-lg font-bold text-white">
-                            {performer.attempt.score}/{performer.attempt.total_questions}
+                            {performer.attempt.earned_points != null
+                              ? `${formatPoints(Number(performer.attempt.earned_points))}/${formatPoints(Number(performer.attempt.max_points))} pts`
+                              : `${performer.percentage.toFixed(1)}%`}
                           </div>
                           <div className="text-sm text-gray-400">
                             {new Date(performer.attempt.completed_at).toLocaleDateString()}
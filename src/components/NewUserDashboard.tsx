@@ -5,14 +5,17 @@ import { RecentAttempts } from './dashboard/RecentAttempts';
 import { PerformanceAnalysis } from './dashboard/PerformanceAnalysis';
 import { Leaderboards } from './dashboard/Leaderboards';
 import { QuizBrowser } from './dashboard/QuizBrowser';
+import { Notifications } from './dashboard/Notifications';
 
 interface NewUserDashboardProps {
   onTakeQuiz?: (quiz: Quiz) => void;
+  onPracticeQuiz?: (quiz: Quiz) => void;
   onViewResults: (attempt: QuizAttempt) => void;
 }
 
 export const NewUserDashboard: React.FC<NewUserDashboardProps> = ({
   onTakeQuiz,
+  onPracticeQuiz,
   onViewResults,
 }) => {
   const [activeTab, setActiveTab] = useState<'recent' | 'performance' | 'leaderboard' | 'browse'>('recent');
@@ -22,7 +25,7 @@ export const NewUserDashboard: React.FC<NewUserDashboardProps> = ({
       case 'recent':
         return <RecentAttempts onViewResults={onViewResults} />;
       case 'browse':
-        return <QuizBrowser onTakeQuiz={onTakeQuiz} />;
+        return <QuizBrowser onTakeQuiz={onTakeQuiz} onPracticeQuiz={onPracticeQuiz} />;
       case 'performance':
         return <PerformanceAnalysis />;
       case 'leaderboard':
@@ -30,10 +33,11 @@ export const NewUserDashboard: React.FC<NewUserDashboardProps> = ({
       default:
         return <RecentAttempts onViewResults={onViewResults} />;
     }
-  }, [activeTab, onTakeQuiz, onViewResults]);
+  }, [activeTab, onTakeQuiz, onPracticeQuiz, onViewResults]);
 
   return (
     <DashboardLayout activeTab={activeTab} onTabChange={setActiveTab}>
+      <Notifications onViewResults={onViewResults} />
       {renderTabContent}
     </DashboardLayout>
   );
@@ -9,8 +9,6 @@ interface PersonalizedLearningPlanProps {
   incorrectAnswers: Array<{
     question: string;
     options: string[];
-    userAnswer: number | null;
-    correctAnswer: number;
     isCorrect: boolean;
     category: string;
   }>;
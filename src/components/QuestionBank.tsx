@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Search, Plus, Edit3, Trash2, Save, X, Library, Tag } from 'lucide-react';
+import { BankQuestion, BankQuestionStats } from '../types';
+import { useQuestionBank, useQuestionBankStats, useSaveBankQuestion, useDeleteBankQuestion } from '../hooks/useQueries';
+import { useAuth } from '../contexts/AuthContext';
+import { QuestionAnswerEditor } from './questions/QuestionAnswerEditor';
+import { RichText, RichTextPreview } from './questions/RichText';
+import { MediaPicker } from './questions/MediaPicker';
+import { QUESTION_TYPE_LABELS, QuestionDraft, createQuestionDraft, getQuestionType, validateQuestionDraft } from '../utils/questionTypes';
+import { BankFilters, EMPTY_BANK_FILTERS, filterBankQuestions, getBankCategories, getBankTags, parseTags, toBankDraft } from '../utils/questionBank';
+
+interface BankFilterBarProps {
+  questions: BankQuestion[];
+  filters: BankFilters;
+  onChange: (filters: BankFilters) => void;
+}
+
+// Search plus category and tag filters, shared with the quiz picker
+export const BankFilterBar: React.FC<BankFilterBarProps> = ({ questions, filters, onChange }) => {
+  const selectClassName = 'px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-3">
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <input
+          type="text"
+          value={filters.search}
+          onChange={(e) => onChange({ ...filters, search: e.target.value })}
+          placeholder="Search questions..."
+          className="w-full pl-9 pr-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <select
+        value={filters.category}
+        onChange={(e) => onChange({ ...filters, category: e.target.value })}
+        className={selectClassName}
+      >
+        <option value="">All categories</option>
+        {getBankCategories(questions).map(category => (
+          <option key={category} value={category}>{category}</option>
+        ))}
+      </select>
+      <select
+        value={filters.tag}
+        onChange={(e) => onChange({ ...filters, tag: e.target.value })}
+        className={selectClassName}
+      >
+        <option value="">All tags</option>
+        {getBankTags(questions).map(tag => (
+          <option key={tag} value={tag}>{tag}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+// Category, type, tags and cross-quiz statistics of a bank question
+export const BankQuestionSummary: React.FC<{ question: BankQuestion; stats?: BankQuestionStats }> = ({ question, stats }) => (
+  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-400">
+    <span className="bg-gray-700 px-2 py-0.5 rounded text-gray-300">{question.category}</span>
+    <span>{QUESTION_TYPE_LABELS[getQuestionType(question)]}</span>
+    {(question.tags ?? []).map(tag => (
+      <span key={tag} className="flex items-center text-blue-300"><Tag className="w-3 h-3 mr-1" />{tag}</span>
+    ))}
+    <span>Used in {stats?.quiz_count ?? 0} {stats?.quiz_count === 1 ? 'quiz' : 'quizzes'}</span>
+    {stats && stats.answer_count > 0 && (
+      <span>
+        Answered {stats.answer_count} {stats.answer_count === 1 ? 'time' : 'times'}
+        {' · '}{Math.round((stats.correct_count / stats.answer_count) * 100)}% correct
+      </span>
+    )}
+    {stats && stats.skipped_count > 0 && <span>Skipped {stats.skipped_count} {stats.skipped_count === 1 ? 'time' : 'times'}</span>}
+  </div>
+);
+
+interface BankEditorState {
+  id?: string;
+  draft: QuestionDraft;
+  tags: string;
+}
+
+// Admin view of the shared question bank. Edits to a question are copied into
+// every quiz that uses it.
+export const QuestionBank: React.FC = () => {
+  const { user } = useAuth();
+  const { data: questions = [], isLoading, error } = useQuestionBank();
+  const { data: stats } = useQuestionBankStats();
+  const saveQuestion = useSaveBankQuestion();
+  const deleteQuestion = useDeleteBankQuestion();
+  const [filters, setFilters] = useState<BankFilters>(EMPTY_BANK_FILTERS);
+  const [editing, setEditing] = useState<BankEditorState | null>(null);
+
+  const filteredQuestions = filterBankQuestions(questions, filters);
+  const editingStats = editing?.id ? stats?.get(editing.id) : undefined;
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const draft = { ...editing.draft, category: editing.draft.category.trim() || 'General' };
+    const validationError = validateQuestionDraft(draft);
+    if (validationError) {
+      alert(validationError);
+      return;
+    }
+
+    try {
+      await saveQuestion.mutateAsync({ id: editing.id, draft, tags: parseTags(editing.tags), createdBy: user?.id });
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving bank question:', error);
+      alert('Failed to save the question. Please try again.');
+    }
+  };
+
+  const handleDelete = async (question: BankQuestion) => {
+    const quizCount = stats?.get(question.id)?.quiz_count ?? 0;
+    if (!window.confirm(quizCount > 0
+      ? `Delete this question from the bank? The ${quizCount} ${quizCount === 1 ? 'quiz' : 'quizzes'} using it keep their own copy.`
+      : 'Delete this question from the bank?'
+    )) {
+      return;
+    }
+
+    try {
+      await deleteQuestion.mutateAsync(question);
+    } catch (error) {
+      console.error('Error deleting bank question:', error);
+      alert('Failed to delete the question. Please try again.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-400">Failed to load the question bank. Please try again.</p>
+      </div>
+    );
+  }
+
+  if (editing) {
+    const updateDraft = (changes: Partial<QuestionDraft>) => {
+      setEditing({ ...editing, draft: { ...editing.draft, ...changes } });
+    };
+
+    return (
+      <div className="space-y-6">
+        <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+          <h3 className="text-xl font-semibold text-white mb-1">{editing.id ? 'Edit Bank Question' : 'New Bank Question'}</h3>
+          <p className="text-sm text-gray-400 mb-6">
+            {editingStats && editingStats.quiz_count > 0
+              ? `Saving updates the ${editingStats.quiz_count} ${editingStats.quiz_count === 1 ? 'quiz' : 'quizzes'} using this question; attempts already taken keep the version they were taken on.`
+              : 'Add it to quizzes from the quiz editor once it is saved.'}
+          </p>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Question</label>
+              <textarea
+                value={editing.draft.question}
+                onChange={(e) => updateDraft({ question: e.target.value })}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                rows={2}
+                placeholder="Enter your question"
+              />
+              <RichTextPreview content={editing.draft.question} />
+              <div className="mt-2">
+                <MediaPicker
+                  value={editing.draft.image_path}
+                  onChange={(value) => updateDraft({ image_path: value })}
+                  label="question"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Category</label>
+                <input
+                  type="text"
+                  value={editing.draft.category}
+                  onChange={(e) => updateDraft({ category: e.target.value })}
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="General"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Tags</label>
+                <input
+                  type="text"
+                  value={editing.tags}
+                  onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="algebra, chapter 3"
+                />
+                <p className="text-xs text-gray-500 mt-1">Separate tags with commas.</p>
+              </div>
+            </div>
+
+            <QuestionAnswerEditor
+              question={editing.draft}
+              onChange={(draft) => setEditing({ ...editing, draft })}
+            />
+          </div>
+
+          <div className="flex justify-end gap-3 mt-6">
+            <button
+              onClick={() => setEditing(null)}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+            >
+              <X className="w-4 h-4" />
+              <span>Cancel</span>
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saveQuestion.isPending}
+              className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg flex items-center space-x-2 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saveQuestion.isPending ? 'Saving...' : 'Save Question'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-white">Question Bank ({questions.length})</h3>
+        <button
+          onClick={() => setEditing({ draft: createQuestionDraft('General'), tags: '' })}
+          className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+        >
+          <Plus className="w-5 h-5" />
+          <span>New Question</span>
+        </button>
+      </div>
+
+      <BankFilterBar questions={questions} filters={filters} onChange={setFilters} />
+
+      {filteredQuestions.length === 0 ? (
+        <div className="text-center py-12 bg-gray-800 rounded-xl border border-gray-700">
+          <Library className="w-12 h-12 text-gray-600 mx-auto mb-3" />
+          <p className="text-gray-400">
+            {questions.length > 0 ? 'No questions match your filters.' : 'The question bank is empty.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredQuestions.map((question, index) => (
+            <motion.div
+              key={question.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: Math.min(index * 0.03, 0.3) }}
+              className="bg-gray-800 rounded-xl p-4 border border-gray-700 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <RichText content={question.question} className="text-white" />
+                <BankQuestionSummary question={question} stats={stats?.get(question.id)} />
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <button
+                  onClick={() => setEditing({ id: question.id, draft: toBankDraft(question), tags: (question.tags ?? []).join(', ') })}
+                  className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-colors"
+                >
+                  <Edit3 className="w-4 h-4" />
+                  <span>Edit</span>
+                </button>
+                <button
+                  onClick={() => handleDelete(question)}
+                  disabled={deleteQuestion.isPending}
+                  className="text-red-400 hover:text-red-300 px-2 transition-colors disabled:opacity-50"
+                  aria-label="Delete question"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { FileText, Sparkles, X } from 'lucide-react';
+import { useDropzone } from 'react-dropzone';
+import {
+  DIFFICULTY_LABELS,
+  GenerationDifficulty,
+  GenerationRequest,
+  GenerationResult,
+  MAX_GENERATED_QUESTIONS,
+  MAX_SOURCE_LENGTH,
+  SOURCE_FILE_EXTENSIONS,
+  generateQuestions,
+} from '../utils/questionGeneration';
+
+interface QuestionGeneratorProps {
+  value: GenerationRequest;
+  // Name of the file the text was read from, or null for pasted text
+  fileName: string | null;
+  onChange: (value: GenerationRequest, fileName: string | null) => void;
+  onGenerated: (result: GenerationResult) => void;
+}
+
+// Source text, count, difficulty and category for generating multiple-choice
+// questions; the results go through the same review and edit steps as imports
+export const QuestionGenerator: React.FC<QuestionGeneratorProps> = ({ value, fileName, onChange, onGenerated }) => {
+  const [generating, setGenerating] = useState(false);
+  const { text, count, difficulty, category } = value;
+
+  const tooLong = text.length > MAX_SOURCE_LENGTH;
+
+  const update = (changes: Partial<GenerationRequest>) => {
+    onChange({ ...value, ...changes }, fileName);
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: {
+      'text/plain': SOURCE_FILE_EXTENSIONS,
+      'text/markdown': SOURCE_FILE_EXTENSIONS
+    },
+    maxFiles: 1,
+    onDrop: async (acceptedFiles) => {
+      const file = acceptedFiles[0];
+      if (!file) return;
+
+      try {
+        onChange({ ...value, text: await file.text() }, file.name);
+      } catch (error) {
+        console.error('Error reading source file:', error);
+        alert('Failed to read the file. Please check that it is a text or markdown file.');
+      }
+    }
+  });
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      onGenerated(await generateQuestions(value));
+    } catch (error) {
+      console.error('Error generating questions:', error);
+      alert(`Failed to generate questions: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-blue-900/20 rounded-lg border border-blue-700">
+        <p className="text-blue-200 text-xs sm:text-sm">
+          Paste notes or upload a text or markdown file. Each generated question is single choice with four options and
+          cites the passage it was drawn from; check every question and answer before saving.
+        </p>
+      </div>
+
+      <div
+        {...getRootProps()}
+        className={`border-2 border-dashed rounded-xl p-4 text-center cursor-pointer transition-colors ${
+          isDragActive
+            ? 'border-blue-500 bg-blue-500/10'
+            : 'border-gray-700 hover:border-gray-600'
+        }`}
+      >
+        <input {...getInputProps()} />
+        {fileName ? (
+          <div className="flex items-center justify-center space-x-2 text-sm text-gray-300">
+            <FileText className="w-5 h-5 text-blue-400" />
+            <span className="truncate">{fileName}</span>
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onChange({ ...value, text: '' }, null);
+              }}
+              className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+              aria-label="Remove source file"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400">
+            <FileText className="w-5 h-5 inline mr-2 text-gray-500" />
+            Drop a .txt or .md file here, or click to select
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">Source Text</label>
+        <textarea
+          value={text}
+          onChange={(e) => update({ text: e.target.value })}
+          className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          rows={10}
+          placeholder="Paste the notes to write questions about"
+        />
+        <p className={`text-xs mt-1 ${tooLong ? 'text-red-400' : 'text-gray-500'}`}>
+          {text.length.toLocaleString()} / {MAX_SOURCE_LENGTH.toLocaleString()} characters
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Questions</label>
+          <input
+            type="number"
+            value={count}
+            onChange={(e) => update({ count: Math.min(Math.max(parseInt(e.target.value) || 1, 1), MAX_GENERATED_QUESTIONS) })}
+            min="1"
+            max={MAX_GENERATED_QUESTIONS}
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Difficulty</label>
+          <select
+            value={difficulty}
+            onChange={(e) => update({ difficulty: e.target.value as GenerationDifficulty })}
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {(Object.keys(DIFFICULTY_LABELS) as GenerationDifficulty[]).map(level => (
+              <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Category</label>
+          <select
+            value={category}
+            onChange={(e) => update({ category: e.target.value })}
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="General">General</option>
+            <option value="Science">Science</option>
+            <option value="History">History</option>
+            <option value="Sports">Sports</option>
+            <option value="Technology">Technology</option>
+            <option value="Entertainment">Entertainment</option>
+          </select>
+        </div>
+      </div>
+
+      <button
+        onClick={handleGenerate}
+        disabled={generating || !text.trim() || tooLong}
+        className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white py-2 px-4 rounded-lg transition-colors flex items-center justify-center space-x-2"
+      >
+        {generating ? (
+          <>
+            <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            <span>Generating...</span>
+          </>
+        ) : (
+          <>
+            <Sparkles className="w-5 h-5" />
+            <span>Generate Questions</span>
+          </>
+        )}
+      </button>
+    </div>
+  );
+};
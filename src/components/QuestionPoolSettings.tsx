@@ -0,0 +1,127 @@
+import React from 'react';
+import { Shuffle } from 'lucide-react';
+import { PoolRule } from '../types';
+import { countByCategory } from '../utils/questionPool';
+
+interface QuestionPoolSettingsProps {
+  questions: { category?: string }[];
+  poolSize: number | null;
+  poolRules: PoolRule[];
+  onPoolSizeChange: (poolSize: number | null) => void;
+  onPoolRulesChange: (poolRules: PoolRule[]) => void;
+}
+
+export const QuestionPoolSettings: React.FC<QuestionPoolSettingsProps> = ({
+  questions,
+  poolSize,
+  poolRules,
+  onPoolSizeChange,
+  onPoolRulesChange,
+}) => {
+  const categoryCounts = countByCategory(questions);
+  const enabled = poolSize !== null || poolRules.length > 0;
+  const perCategory = poolRules.length > 0;
+
+  const handleToggle = (checked: boolean) => {
+    onPoolRulesChange([]);
+    onPoolSizeChange(checked ? Math.min(questions.length, 20) : null);
+  };
+
+  const handleModeChange = (mode: 'total' | 'category') => {
+    if (mode === 'category') {
+      onPoolRulesChange(Object.keys(categoryCounts).map(category => ({ category, count: 0 })));
+    } else {
+      onPoolRulesChange([]);
+      onPoolSizeChange(poolSize ?? Math.min(questions.length, 20));
+    }
+  };
+
+  const getRuleCount = (category: string) => {
+    return poolRules.find(rule => rule.category === category)?.count ?? 0;
+  };
+
+  const updateRule = (category: string, count: number) => {
+    const others = poolRules.filter(rule => rule.category !== category);
+    onPoolRulesChange([...others, { category, count }]);
+  };
+
+  const drawTotal = perCategory
+    ? poolRules.reduce((sum, rule) => sum + rule.count, 0)
+    : poolSize ?? questions.length;
+
+  return (
+    <div className="bg-gray-700/30 rounded-lg p-4 mb-6">
+      <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+        />
+        <Shuffle className="w-4 h-4" />
+        <span>Draw a random set of questions for each attempt</span>
+      </label>
+
+      {enabled && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3 sm:gap-6 text-sm text-gray-300">
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="radio"
+                checked={!perCategory}
+                onChange={() => handleModeChange('total')}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              <span>From the whole bank</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="radio"
+                checked={perCategory}
+                onChange={() => handleModeChange('category')}
+                className="text-blue-600 focus:ring-blue-500"
+              />
+              <span>Per category</span>
+            </label>
+          </div>
+
+          {perCategory ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {Object.entries(categoryCounts).map(([category, available]) => (
+                <div key={category} className="flex items-center justify-between bg-gray-700/50 rounded-lg px-3 py-2">
+                  <span className="text-sm text-gray-300">
+                    {category} <span className="text-gray-500">({available} in bank)</span>
+                  </span>
+                  <input
+                    type="number"
+                    value={getRuleCount(category)}
+                    onChange={(e) => updateRule(category, Math.min(Math.max(parseInt(e.target.value) || 0, 0), available))}
+                    min="0"
+                    max={available}
+                    className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="max-w-xs">
+              <label className="block text-sm font-medium text-gray-300 mb-2">Questions per Attempt</label>
+              <input
+                type="number"
+                value={poolSize ?? ''}
+                onChange={(e) => onPoolSizeChange(parseInt(e.target.value) || 1)}
+                min="1"
+                max={questions.length}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Each attempt draws {drawTotal} of the {questions.length} questions in this quiz.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,40 +1,110 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, Trash2, Save, ArrowLeft, Clock, Users } from 'lucide-react';
-import { Question } from '../types';
+import { Plus, Trash2, Save, ArrowLeft, Clock, Users, AlertTriangle, Library, Unlink } from 'lucide-react';
+import { BankQuestion, LatePolicy, PoolRule, Question, Quiz } from '../types';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
+import { QUERY_KEYS } from '../hooks/useQueries';
 import { useAuth } from '../contexts/AuthContext';
+import { LATE_POLICY_LABELS, toDateTimeInputValue } from '../utils/quizAvailability';
+import { validateQuestionPool, toPoolColumns } from '../utils/questionPool';
+import { QuestionPoolSettings } from './QuestionPoolSettings';
+import { QuestionAnswerEditor } from './questions/QuestionAnswerEditor';
+import { RichText, RichTextPreview } from './questions/RichText';
+import { QuestionImage } from './questions/QuestionImage';
+import { MediaPicker } from './questions/MediaPicker';
+import { BankQuestionPicker } from './BankQuestionPicker';
+import { isLocalMedia, uploadQuestionMedia } from '../utils/questionMedia';
+import { saveQuiz } from '../utils/quizSave';
+import { QuestionDraft, QUESTION_TYPE_LABELS, createQuestionDraft, describeCorrectAnswer, getQuestionType, validateQuestionDraft, toQuestionDraft } from '../utils/questionTypes';
+import { toLinkedDraft } from '../utils/questionBank';
 
 interface QuizCreatorProps {
   onBack: () => void;
   onSave: () => void;
+  // Edits this quiz instead of creating a new one
+  quizId?: string;
 }
 
-export const QuizCreator: React.FC<QuizCreatorProps> = ({ onBack, onSave }) => {
+// Questions loaded for editing keep their id so saving can update them in place
+type EditableQuestion = QuestionDraft & { id?: string };
+
+export const QuizCreator: React.FC<QuizCreatorProps> = ({ onBack, onSave, quizId }) => {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [category, setCategory] = useState('General');
   const [timeLimit, setTimeLimit] = useState<number>(30); // Default 30 minutes
   const [maxAttempts, setMaxAttempts] = useState<number | null>(null); // Default unlimited
   const [startTime, setStartTime] = useState<string>(''); // For date and time input
-  const [questions, setQuestions] = useState<Omit<Question, 'id' | 'quiz_id'>[]>([
-    {
-      question: '',
-      options: ['', '', '', ''],
-      correct_answer: 0,
-      category: 'General'
-    }
-  ]);
+  const [endTime, setEndTime] = useState<string>('');
+  const [latePolicy, setLatePolicy] = useState<LatePolicy>('block');
+  const [latePenaltyPercent, setLatePenaltyPercent] = useState<number>(10);
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [negativeMarkingPercent, setNegativeMarkingPercent] = useState<number>(0);
+  const [poolSize, setPoolSize] = useState<number | null>(null);
+  const [poolRules, setPoolRules] = useState<PoolRule[]>([]);
+  const [questions, setQuestions] = useState<EditableQuestion[]>([createQuestionDraft('General')]);
   const [saving, setSaving] = useState(false);
+  const [showBankPicker, setShowBankPicker] = useState(false);
+  // Edit mode: the questions as loaded, and how many attempts the quiz already has
+  const [loadedQuestions, setLoadedQuestions] = useState<EditableQuestion[]>([]);
+  const [attemptCount, setAttemptCount] = useState(0);
+  const [loading, setLoading] = useState(!!quizId);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    const loadQuiz = async (id: string) => {
+      setLoading(true);
+      setLoadFailed(false);
+      try {
+        const [quizResult, questionsResult, attemptsResult] = await Promise.all([
+          supabase.from('quizzes').select('*').eq('id', id).single(),
+          supabase.from('questions').select('*').eq('quiz_id', id).order('created_at').order('id'),
+          supabase.from('quiz_attempts').select('id', { count: 'exact', head: true }).eq('quiz_id', id),
+        ]);
+
+        if (quizResult.error) throw quizResult.error;
+        if (questionsResult.error) throw questionsResult.error;
+
+        const quiz = quizResult.data as Quiz;
+        setTitle(quiz.title);
+        setDescription(quiz.description || '');
+        setCategory(quiz.category);
+        setTimeLimit(quiz.time_limit ?? 30);
+        setMaxAttempts(quiz.max_attempts ?? null);
+        setStartTime(toDateTimeInputValue(quiz.start_time));
+        setEndTime(toDateTimeInputValue(quiz.end_time));
+        setLatePolicy(quiz.late_policy ?? 'block');
+        setLatePenaltyPercent(quiz.late_penalty_percent ?? 10);
+        setShuffleQuestions(!!quiz.shuffle_questions);
+        setShuffleOptions(!!quiz.shuffle_options);
+        setNegativeMarkingPercent(Math.round((quiz.negative_marking ?? 0) * 100));
+        setPoolRules(quiz.pool_rules ?? []);
+        setPoolSize(quiz.pool_rules?.length ? null : quiz.pool_size ?? null);
+
+        const loaded = (questionsResult.data as Question[]).map(question => toQuestionDraft(question));
+        setLoadedQuestions(loaded);
+        setQuestions(loaded.length > 0 ? loaded : [createQuestionDraft(quiz.category)]);
+        setAttemptCount(attemptsResult.count ?? 0);
+      } catch (error) {
+        console.error('Error loading quiz:', error);
+        setLoadFailed(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (quizId) loadQuiz(quizId);
+  }, [quizId]);
+
+  // Blank question categories fall back to the quiz category
+  const questionBank = questions.map(q => ({ ...q, category: q.category.trim() || category }));
 
   const addQuestion = () => {
-    setQuestions([...questions, {
-      question: '',
-      options: ['', '', '', ''],
-      correct_answer: 0,
-      category
-    }]);
+    setQuestions([...questions, createQuestionDraft(category)]);
   };
 
   const removeQuestion = (index: number) => {
@@ -43,24 +113,61 @@ export const QuizCreator: React.FC<QuizCreatorProps> = ({ onBack, onSave }) => {
     }
   };
 
+  // A lone untouched blank question is replaced rather than kept
+  const addBankQuestions = (bankQuestions: BankQuestion[]) => {
+    const kept = questions.length === 1 && !questions[0].id && !questions[0].question.trim() ? [] : questions;
+    setQuestions([...kept, ...bankQuestions.map(toLinkedDraft)]);
+    setShowBankPicker(false);
+  };
+
+  // The quiz keeps its copy, which can then be edited here
+  const unlinkQuestion = (index: number) => {
+    replaceQuestion(index, { ...questions[index], bank_question_id: null });
+  };
+
   const updateQuestion = (index: number, field: string, value: any) => {
     const updated = [...questions];
     updated[index] = { ...updated[index], [field]: value };
     setQuestions(updated);
   };
 
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+  const replaceQuestion = (index: number, question: EditableQuestion) => {
     const updated = [...questions];
-    updated[questionIndex].options[optionIndex] = value;
+    updated[index] = question;
     setQuestions(updated);
   };
 
   const handleSave = async () => {
-    if (!title.trim() || questions.some(q => !q.question.trim() || q.options.some(o => !o.trim()))) {
+    if (!title.trim()) {
       alert('Please fill in all fields');
       return;
     }
 
+    const invalidIndex = questions.findIndex(q => validateQuestionDraft(q) !== null);
+    if (invalidIndex !== -1) {
+      alert(`Question ${invalidIndex + 1}: ${validateQuestionDraft(questions[invalidIndex])}`);
+      return;
+    }
+
+    if (startTime && endTime && new Date(endTime) <= new Date(startTime)) {
+      alert('End time must be after the start time');
+      return;
+    }
+
+    const poolError = validateQuestionPool(questionBank, poolSize, poolRules);
+    if (poolError) {
+      alert(poolError);
+      return;
+    }
+
+    // Edits always replace a question object, so any loaded question that is no
+    // longer the same object has been changed
+    const keptIds = new Set(questions.map(q => q.id).filter(Boolean));
+    const removedQuestions = loadedQuestions.filter(q => !keptIds.has(q.id));
+    const changedIds = new Set(questions
+      .filter(q => q.id && !loadedQuestions.includes(q))
+      .map(q => q.id));
+
     setSaving(true);
     try {
       // Set admin context
@@ -73,35 +180,38 @@ export const QuizCreator: React.FC<QuizCreatorProps> = ({ onBack, onSave }) => {
 
       // Convert local datetime string to ISO string if it's not already
       const quizStartTime = startTime ? new Date(startTime).toISOString() : null;
+      const quizEndTime = endTime ? new Date(endTime).toISOString() : null;
+
+      const quizFields = {
+        title: title.trim(),
+        description: description.trim(),
+        category,
+        time_limit: timeLimit,
+        max_attempts: maxAttempts,
+        start_time: quizStartTime,
+        end_time: quizEndTime,
+        late_policy: latePolicy,
+        late_penalty_percent: latePolicy === 'penalty' ? latePenaltyPercent : 0,
+        shuffle_questions: shuffleQuestions,
+        shuffle_options: shuffleOptions,
+        negative_marking: negativeMarkingPercent / 100,
+        ...toPoolColumns(poolSize, poolRules),
+      };
+
+      // Only new and changed questions are written; picked images are uploaded first
+      const questionsToSave = questionBank.filter(q => !q.id || changedIds.has(q.id));
+      const hasLocalMedia = questionsToSave.some(q => isLocalMedia(q.image_path) || q.option_images?.some(isLocalMedia));
+
+      await saveQuiz({
+        quizId,
+        fields: quizFields,
+        questions: questionsToSave,
+        deletedIds: removedQuestions.map(q => q.id as string),
+        createdBy: user?.id,
+        storeMedia: hasLocalMedia ? uploadQuestionMedia : undefined,
+      });
 
-      // Create quiz
-      const { data: quiz, error: quizError } = await supabase
-        .from('quizzes')
-        .insert([{
-          title: title.trim(),
-          description: description.trim(),
-          category,
-          time_limit: timeLimit,
-          max_attempts: maxAttempts,
-          created_by: user?.id,
-          start_time: quizStartTime, // New: Add start_time
-        }])
-        .select()
-        .single();
-
-      if (quizError) throw quizError;
-
-      // Create questions
-      const questionsToInsert = questions.map(q => ({
-        ...q,
-        quiz_id: quiz.id
-      }));
-
-      const { error: questionsError } = await supabase
-        .from('questions')
-        .insert(questionsToInsert);
-
-      if (questionsError) throw questionsError;
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quizzes });
 
       onSave();
     } catch (error) {
@@ -112,6 +222,29 @@ export const QuizCreator: React.FC<QuizCreatorProps> = ({ onBack, onSave }) => {
     }
   };
 
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (loadFailed) {
+    return (
+      <div className="text-center py-8 space-y-4">
+        <p className="text-red-400">Failed to load the quiz. Please try again.</p>
+        <button
+          onClick={onBack}
+          className="inline-flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Quizzes</span>
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -120,7 +253,7 @@ export const QuizCreator: React.FC<QuizCreatorProps> = ({ onBack, onSave }) => {
           className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
         >
           <ArrowLeft className="w-5 h-5" />
-          <span>Back to Dashboard</span>
+          <span>{quizId ? 'Back to Quizzes' : 'Back to Dashboard'}</span>
         </button>
         
         <button
@@ -129,12 +262,26 @@ export const QuizCreator: React.FC<QuizCreatorProps> = ({ onBack, onSave }) => {
           className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg flex items-center space-x-2 transition-colors disabled:opacity-50"
         >
           <Save className="w-5 h-5" />
-          <span>{saving ? 'Saving...' : 'Save Quiz'}</span>
+          <span>{saving ? 'Saving...' : quizId ? 'Save Changes' : 'Save Quiz'}</span>
         </button>
       </div>
 
+      {quizId && attemptCount > 0 && (
+        <div className="flex items-start space-x-3 p-4 bg-yellow-900/20 rounded-xl border border-yellow-700">
+          <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-yellow-200">
+            This quiz already has {attemptCount} {attemptCount === 1 ? 'attempt' : 'attempts'}. Saving creates a new
+            version; past attempts keep the questions and scoring of the version they were taken on. To apply a
+            corrected answer key to them, use Regrade in Manage Quizzes after saving.
+          </p>
+        </div>
+      )}
+
       <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
-        <h3 className="text-xl font-semibold text-white mb-6">Quiz Details</h3>
+        <h3 className={`text-xl font-semibold text-white ${quizId ? 'mb-6' : 'mb-1'}`}>{quizId ? 'Edit Quiz' : 'Quiz Details'}</h3>
+        {!quizId && (
+          <p className="text-sm text-gray-400 mb-6">Saved as a draft; publish it from Manage Quizzes when it is ready.</p>
+        )}
         
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
           <div>
@@ -209,8 +356,93 @@ export const QuizCreator: React.FC<QuizCreatorProps> = ({ onBack, onSave }) => {
             />
             <p className="text-xs text-gray-500 mt-1">Quiz will be available from this date and time. Leave empty for immediate availability.</p>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">End Time (Optional)</label>
+            <input
+              type="datetime-local"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">Quiz closes at this date and time. Leave empty to keep it open.</p>
+          </div>
         </div>
+
+        {endTime && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">After the Quiz Closes</label>
+              <select
+                value={latePolicy}
+                onChange={(e) => setLatePolicy(e.target.value as LatePolicy)}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(LATE_POLICY_LABELS) as LatePolicy[]).map(policy => (
+                  <option key={policy} value={policy}>{LATE_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+            </div>
+
+            {latePolicy === 'penalty' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Late Penalty (%)</label>
+                <input
+                  type="number"
+                  value={latePenaltyPercent}
+                  onChange={(e) => setLatePenaltyPercent(Math.min(Math.max(parseInt(e.target.value) || 0, 0), 100))}
+                  min="0"
+                  max="100"
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Percentage deducted from the score of late attempts.</p>
+              </div>
+            )}
+          </div>
+        )}
         
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-6 mb-6">
+          <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={shuffleQuestions}
+              onChange={(e) => setShuffleQuestions(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Shuffle question order for each attempt</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={shuffleOptions}
+              onChange={(e) => setShuffleOptions(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Shuffle answer options for each attempt</span>
+          </label>
+        </div>
+
+        <div className="mb-6 max-w-xs">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Negative Marking (%)</label>
+          <input
+            type="number"
+            value={negativeMarkingPercent}
+            onChange={(e) => setNegativeMarkingPercent(Math.min(Math.max(parseInt(e.target.value) || 0, 0), 100))}
+            min="0"
+            max="100"
+            className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Share of a question's points lost for a wrong answer. Skipped questions cost nothing.</p>
+        </div>
+
+        <QuestionPoolSettings
+          questions={questionBank}
+          poolSize={poolSize}
+          poolRules={poolRules}
+          onPoolSizeChange={setPoolSize}
+          onPoolRulesChange={setPoolRules}
+        />
+
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
           <textarea
@@ -226,15 +458,32 @@ export const QuizCreator: React.FC<QuizCreatorProps> = ({ onBack, onSave }) => {
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <h3 className="text-xl font-semibold text-white">Questions</h3>
-          <button
-            onClick={addQuestion}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
-          >
-            <Plus className="w-5 h-5" />
-            <span>Add Question</span>
-          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setShowBankPicker(!showBankPicker)}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+            >
+              <Library className="w-5 h-5" />
+              <span>Add from Bank</span>
+            </button>
+            <button
+              onClick={addQuestion}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Add Question</span>
+            </button>
+          </div>
         </div>
 
+        {showBankPicker && (
+          <BankQuestionPicker
+            linkedIds={new Set(questions.map(q => q.bank_question_id).filter((id): id is string => !!id))}
+            onAdd={addBankQuestions}
+            onClose={() => setShowBankPicker(false)}
+          />
+        )}
+
         {questions.map((question, questionIndex) => (
           <motion.div
             key={questionIndex}
@@ -243,61 +492,84 @@ export const QuizCreator: React.FC<QuizCreatorProps> = ({ onBack, onSave }) => {
             className="bg-gray-800 rounded-xl p-6 border border-gray-700"
           >
             <div className="flex items-center justify-between mb-4">
-              <h4 className="text-lg font-medium text-white">Question {questionIndex + 1}</h4>
-              {questions.length > 1 && (
-                <button
-                  onClick={() => removeQuestion(questionIndex)}
-                  className="text-red-400 hover:text-red-300 transition-colors"
-                >
-                  <Trash2 className="w-5 h-5" />
-                </button>
-              )}
+              <div className="flex items-center gap-2">
+                <h4 className="text-lg font-medium text-white">Question {questionIndex + 1}</h4>
+                {question.bank_question_id && (
+                  <span className="text-xs px-2 py-0.5 rounded bg-blue-900/40 text-blue-300">From question bank</span>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                {question.bank_question_id && (
+                  <button
+                    onClick={() => unlinkQuestion(questionIndex)}
+                    className="text-gray-400 hover:text-white text-sm flex items-center space-x-1 transition-colors"
+                  >
+                    <Unlink className="w-4 h-4" />
+                    <span>Unlink to edit</span>
+                  </button>
+                )}
+                {questions.length > 1 && (
+                  <button
+                    onClick={() => removeQuestion(questionIndex)}
+                    className="text-red-400 hover:text-red-300 transition-colors"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
             </div>
 
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2">Question</label>
-                <textarea
-                  value={question.question}
-                  onChange={(e) => updateQuestion(questionIndex, 'question', e.target.value)}
-                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  rows={2}
-                  placeholder="Enter your question"
-                />
+            {question.bank_question_id ? (
+              // Linked questions are edited in the Question Bank tab
+              <div className="space-y-2">
+                <RichText content={question.question} className="text-white" />
+                <QuestionImage path={question.image_path} alt={`Question ${questionIndex + 1}`} className="max-h-48 rounded-lg" />
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400">
+                  <span className="bg-gray-700 px-2 py-0.5 rounded text-gray-300">{question.category}</span>
+                  <span>{QUESTION_TYPE_LABELS[getQuestionType(question)]}</span>
+                  <span>{question.points ?? 1} {question.points === 1 ? 'point' : 'points'}</span>
+                </div>
+                <p className="text-sm text-gray-300">Answer: {describeCorrectAnswer(question)}</p>
               </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {question.options.map((option, optionIndex) => (
-                  <div key={optionIndex}>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">
-                      Option {optionIndex + 1}
-                      {question.correct_answer === optionIndex && (
-                        <span className="text-green-400 ml-2">(Correct)</span>
-                      )}
-                    </label>
-                    <div className="flex space-x-2">
-                      <input
-                        type="text"
-                        value={option}
-                        onChange={(e) => updateOption(questionIndex, optionIndex, e.target.value)}
-                        className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        placeholder={`Option ${optionIndex + 1}`}
-                      />
-                      <button
-                        onClick={() => updateQuestion(questionIndex, 'correct_answer', optionIndex)}
-                        className={`px-3 py-2 rounded-lg transition-colors ${
-                          question.correct_answer === optionIndex
-                            ? 'bg-green-600 text-white'
-                            : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
-                        }`}
-                      >
-                        ✓
-                      </button>
-                    </div>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Question</label>
+                  <textarea
+                    value={question.question}
+                    onChange={(e) => updateQuestion(questionIndex, 'question', e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    rows={2}
+                    placeholder="Enter your question"
+                  />
+                  <RichTextPreview content={question.question} />
+                  <div className="mt-2">
+                    <MediaPicker
+                      value={question.image_path}
+                      onChange={(value) => updateQuestion(questionIndex, 'image_path', value)}
+                      label={`question ${questionIndex + 1}`}
+                    />
                   </div>
-                ))}
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Question Category</label>
+                  <input
+                    type="text"
+                    value={question.category}
+                    onChange={(e) => updateQuestion(questionIndex, 'category', e.target.value)}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder={category}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Used for the category breakdown and per-category question pools.</p>
+                </div>
+
+                <QuestionAnswerEditor
+                  question={question}
+                  onChange={(updated) => replaceQuestion(questionIndex, updated)}
+                />
               </div>
-            </div>
+            )}
           </motion.div>
         ))}
       </div>
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Search, Edit3, History, RefreshCw, BookOpen, Users, Clock, Calendar, Eye, EyeOff, Archive, ArchiveRestore, Download } from 'lucide-react';
+import { useManagedQuizzes, useSetQuizStatus } from '../hooks/useQueries';
+import { Quiz, QuizStatus } from '../types';
+import { QUIZ_STATUS_LABELS } from '../utils/quizAvailability';
+import { fetchQuizPackage, getQuizPackageFileName } from '../utils/quizPackage';
+import { QUESTION_FORMATS, QuestionFormat, exportQuestionFormat } from '../utils/questionFormats';
+import { readEmbeddedMedia } from '../utils/questionMedia';
+
+const STATUS_STYLES: Record<QuizStatus, string> = {
+  draft: 'bg-yellow-900/40 text-yellow-300',
+  published: 'bg-green-900/40 text-green-300',
+  archived: 'bg-gray-700 text-gray-400',
+};
+
+interface QuizManagerProps {
+  onEditQuiz: (quizId: string) => void;
+  onViewHistory: (quizId: string) => void;
+  onRegrade: (quizId: string) => void;
+}
+
+// Admin list of existing quizzes with the actions available on each
+export const QuizManager: React.FC<QuizManagerProps> = ({ onEditQuiz, onViewHistory, onRegrade }) => {
+  const { data: quizzes = [], isLoading, error } = useManagedQuizzes();
+  const setQuizStatus = useSetQuizStatus();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [exportMenuId, setExportMenuId] = useState<string | null>(null);
+
+  const changeStatus = async (quiz: Quiz, status: QuizStatus) => {
+    if (status === 'archived' && !window.confirm(
+      `Archive "${quiz.title}"? It will be hidden from students, but its results and leaderboard history are kept.`
+    )) {
+      return;
+    }
+
+    try {
+      await setQuizStatus.mutateAsync({ quiz, status });
+    } catch (error) {
+      console.error('Error updating quiz status:', error);
+      alert('Failed to update the quiz status. Please try again.');
+    }
+  };
+
+  const download = (content: string, type: string, fileName: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // 'package' is the full JSON package; the LMS formats carry questions only
+  const exportQuiz = async (quiz: Quiz, format: 'package' | QuestionFormat) => {
+    setExportMenuId(null);
+    setExportingId(quiz.id);
+    try {
+      const quizPackage = await fetchQuizPackage(quiz.id);
+      const fileName = getQuizPackageFileName(quiz.title);
+
+      if (format === 'package') {
+        download(JSON.stringify(quizPackage, null, 2), 'application/json', fileName);
+        return;
+      }
+
+      const { label, extension, mimeType } = QUESTION_FORMATS[format];
+      const media = format === 'moodle_xml' ? await readEmbeddedMedia(quizPackage.media) : {};
+      const result = exportQuestionFormat(format, quizPackage.questions, media);
+      const skipped = result.issues.filter(issue => issue.severity === 'error');
+      if (skipped.length === quizPackage.questions.length) {
+        alert(`None of the questions in "${quiz.title}" can be exported to ${label}.`);
+        return;
+      }
+
+      download(result.text, mimeType, fileName.replace(/\.quiz\.json$/, extension));
+      if (result.issues.length > 0) {
+        alert([
+          `Exported to ${label} with ${result.issues.length} ${result.issues.length === 1 ? 'note' : 'notes'}:`,
+          ...result.issues.map(issue => `Question ${issue.row}: ${issue.severity === 'error' ? 'left out. ' : ''}${issue.message}`),
+        ].join('\n'));
+      }
+    } catch (error) {
+      console.error('Error exporting quiz:', error);
+      alert('Failed to export the quiz. Please try again.');
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const filteredQuizzes = quizzes.filter(quiz =>
+    quiz.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    quiz.category.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-400">Failed to load quizzes. Please try again.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h3 className="text-xl font-semibold text-white">Manage Quizzes ({quizzes.length})</h3>
+        <div className="relative sm:w-72">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search quizzes..."
+            className="w-full pl-9 pr-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {filteredQuizzes.length === 0 ? (
+        <div className="text-center py-12 bg-gray-800 rounded-xl border border-gray-700">
+          <BookOpen className="w-12 h-12 text-gray-600 mx-auto mb-3" />
+          <p className="text-gray-400">{searchTerm ? 'No quizzes match your search.' : 'No quizzes yet.'}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredQuizzes.map((quiz, index) => (
+            <motion.div
+              key={quiz.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: Math.min(index * 0.03, 0.3) }}
+              className="bg-gray-800 rounded-xl p-4 border border-gray-700 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 min-w-0">
+                  <h4 className="text-white font-medium truncate">{quiz.title}</h4>
+                  <span className={`text-xs px-2 py-0.5 rounded flex-shrink-0 ${STATUS_STYLES[quiz.status ?? 'published']}`}>
+                    {QUIZ_STATUS_LABELS[quiz.status ?? 'published']}
+                  </span>
+                </div>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-xs text-gray-400">
+                  <span className="bg-gray-700 px-2 py-0.5 rounded text-gray-300">{quiz.category}</span>
+                  <span className="flex items-center"><BookOpen className="w-3 h-3 mr-1" />{quiz.question_count} questions</span>
+                  <span className="flex items-center"><Users className="w-3 h-3 mr-1" />{quiz.attempt_count} attempts</span>
+                  <span className="flex items-center"><Clock className="w-3 h-3 mr-1" />{quiz.time_limit ?? 30} min</span>
+                  <span className="flex items-center"><Calendar className="w-3 h-3 mr-1" />{new Date(quiz.created_at).toLocaleDateString()}</span>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 flex-shrink-0">
+                {quiz.status === 'draft' && (
+                  <button
+                    onClick={() => changeStatus(quiz, 'published')}
+                    disabled={setQuizStatus.isPending || quiz.question_count === 0}
+                    title={quiz.question_count === 0 ? 'Add questions before publishing' : undefined}
+                    className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-colors disabled:opacity-50 disabled:hover:bg-green-600"
+                  >
+                    <Eye className="w-4 h-4" />
+                    <span>Publish</span>
+                  </button>
+                )}
+                {(quiz.status ?? 'published') === 'published' && (
+                  <>
+                    <button
+                      onClick={() => changeStatus(quiz, 'draft')}
+                      disabled={setQuizStatus.isPending}
+                      className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-colors disabled:opacity-50"
+                    >
+                      <EyeOff className="w-4 h-4" />
+                      <span>Unpublish</span>
+                    </button>
+                    <button
+                      onClick={() => changeStatus(quiz, 'archived')}
+                      disabled={setQuizStatus.isPending}
+                      className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-colors disabled:opacity-50"
+                    >
+                      <Archive className="w-4 h-4" />
+                      <span>Archive</span>
+                    </button>
+                  </>
+                )}
+                {quiz.status === 'archived' && (
+                  <button
+                    onClick={() => changeStatus(quiz, 'published')}
+                    disabled={setQuizStatus.isPending}
+                    className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-colors disabled:opacity-50"
+                  >
+                    <ArchiveRestore className="w-4 h-4" />
+                    <span>Restore</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => onRegrade(quiz.id)}
+                  disabled={quiz.attempt_count === 0}
+                  title={quiz.attempt_count === 0 ? 'No attempts to regrade' : undefined}
+                  className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-colors disabled:opacity-50 disabled:hover:bg-gray-700"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  <span>Regrade</span>
+                </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setExportMenuId(exportMenuId === quiz.id ? null : quiz.id)}
+                    disabled={exportingId === quiz.id}
+                    className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-colors disabled:opacity-50"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Export</span>
+                  </button>
+                  {exportMenuId === quiz.id && (
+                    <div className="absolute right-0 mt-2 w-48 bg-gray-900 border border-gray-700 rounded-lg shadow-lg z-10 py-1">
+                      <button
+                        onClick={() => exportQuiz(quiz, 'package')}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-700"
+                      >
+                        Quiz package (.json)
+                      </button>
+                      {(Object.keys(QUESTION_FORMATS) as QuestionFormat[]).map(format => (
+                        <button
+                          key={format}
+                          onClick={() => exportQuiz(quiz, format)}
+                          className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-700"
+                        >
+                          {QUESTION_FORMATS[format].label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => onViewHistory(quiz.id)}
+                  className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-colors"
+                >
+                  <History className="w-4 h-4" />
+                  <span>History</span>
+                </button>
+                <button
+                  onClick={() => onEditQuiz(quiz.id)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-colors"
+                >
+                  <Edit3 className="w-4 h-4" />
+                  <span>Edit</span>
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
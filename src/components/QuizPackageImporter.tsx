@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Upload, FileJson, XCircle, AlertTriangle, CheckCircle, Save } from 'lucide-react';
+import { useDropzone } from 'react-dropzone';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { QUERY_KEYS, useManagedQuizzes } from '../hooks/useQueries';
+import { QuizPackage, parseQuizPackage } from '../utils/quizPackage';
+import { copyQuestionMedia, findMissingMedia } from '../utils/questionMedia';
+import { saveQuiz } from '../utils/quizSave';
+
+interface QuizPackageImporterProps {
+  onBack: () => void;
+  onSave: () => void;
+}
+
+// Recreates a quiz from a package written by Export in Manage Quizzes
+export const QuizPackageImporter: React.FC<QuizPackageImporterProps> = ({ onBack, onSave }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: existingQuizzes = [] } = useManagedQuizzes();
+  const [fileName, setFileName] = useState('');
+  const [quizPackage, setQuizPackage] = useState<QuizPackage | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [title, setTitle] = useState('');
+  // Image paths the package references that this project's storage does not have
+  const [missingMedia, setMissingMedia] = useState<string[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const readPackage = async (file: File) => {
+    setFileName(file.name);
+    setQuizPackage(null);
+    setMissingMedia([]);
+
+    const result = parseQuizPackage(await file.text());
+    setErrors(result.errors);
+    if (!result.package) return;
+
+    setQuizPackage(result.package);
+    setTitle(result.package.quiz.title);
+
+    if (result.package.media.length === 0) return;
+    setChecking(true);
+    try {
+      setMissingMedia(await findMissingMedia(result.package.media));
+    } catch (error) {
+      console.error('Error checking package media:', error);
+      // Without the check every image is treated as missing rather than failing the copy later
+      setMissingMedia(result.package.media);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    accept: {
+      'application/json': ['.json']
+    },
+    maxFiles: 1,
+    onDrop: (acceptedFiles) => {
+      if (acceptedFiles.length > 0) {
+        readPackage(acceptedFiles[0]);
+      }
+    }
+  });
+
+  const titleTaken = existingQuizzes.some(quiz => quiz.title.trim().toLowerCase() === title.trim().toLowerCase());
+  const categories = quizPackage ? [...new Set(quizPackage.questions.map(question => question.category))] : [];
+
+  const handleImport = async () => {
+    if (!quizPackage || !title.trim() || titleTaken) return;
+
+    setImporting(true);
+    try {
+      // Set admin context
+      if (user) {
+        await supabase.rpc('set_config', {
+          setting_name: 'app.current_user',
+          setting_value: user.username
+        });
+      }
+
+      // Imported quizzes start as drafts owned by the importing admin. Images
+      // this project has are copied into the new quiz's folder first; missing
+      // ones are dropped on the way.
+      await saveQuiz({
+        fields: { ...quizPackage.quiz, title: title.trim() },
+        questions: quizPackage.questions,
+        createdBy: user?.id,
+        storeMedia: quizPackage.media.length > 0
+          ? (quizId, questions) => copyQuestionMedia(quizId, questions, missingMedia)
+          : undefined,
+      });
+
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quizzes });
+      onSave();
+    } catch (error) {
+      console.error('Error importing quiz:', error);
+      alert('Failed to import the quiz. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onBack}
+          className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          <span>Back to Dashboard</span>
+        </button>
+
+        {quizPackage && (
+          <button
+            onClick={handleImport}
+            disabled={importing || checking || !title.trim() || titleTaken}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white px-6 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+          >
+            {importing ? (
+              <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Save className="w-5 h-5" />
+            )}
+            <span>{importing ? 'Importing...' : 'Import Quiz'}</span>
+          </button>
+        )}
+      </div>
+
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        <h3 className="text-xl font-semibold text-white mb-1">Import Quiz Package</h3>
+        <p className="text-sm text-gray-400 mb-6">
+          Upload a .json package exported from Manage Quizzes, in this or another project. The quiz is saved as a draft owned by you.
+        </p>
+
+        <div
+          {...getRootProps()}
+          className={`border-2 border-dashed rounded-xl p-8 text-center cursor-pointer transition-colors ${
+            isDragActive
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-gray-600 hover:border-gray-500'
+          }`}
+        >
+          <input {...getInputProps()} />
+          {fileName ? (
+            <div className="flex items-center justify-center space-x-2 text-gray-300">
+              <FileJson className="w-6 h-6 text-blue-400" />
+              <span className="truncate">{fileName}</span>
+            </div>
+          ) : (
+            <>
+              <Upload className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-300 text-lg">
+                {isDragActive ? 'Drop the package here...' : 'Drag & drop a quiz package here, or click to select'}
+              </p>
+            </>
+          )}
+        </div>
+
+        {errors.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-6 p-4 bg-red-900/20 border border-red-800 rounded-lg"
+          >
+            <div className="flex items-center space-x-2 mb-2">
+              <XCircle className="w-5 h-5 text-red-400" />
+              <p className="text-red-300 font-medium">This package cannot be imported</p>
+            </div>
+            <ul className="list-disc list-inside space-y-1 text-sm text-red-200">
+              {errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </motion.div>
+        )}
+      </div>
+
+      {quizPackage && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-gray-800 rounded-xl p-6 border border-gray-700 space-y-6"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Quiz Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className={`w-full px-4 py-2 bg-gray-700 border rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                titleTaken ? 'border-red-500' : 'border-gray-600'
+              }`}
+            />
+            {titleTaken && (
+              <p className="text-sm text-red-300 mt-2">A quiz with this title already exists. Rename the import to continue.</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <div className="bg-gray-700/50 rounded-lg p-4">
+              <p className="text-gray-400">Questions</p>
+              <p className="text-2xl font-bold text-white">{quizPackage.questions.length}</p>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-4">
+              <p className="text-gray-400">Categories</p>
+              <p className="text-white mt-1">{categories.join(', ')}</p>
+            </div>
+            <div className="bg-gray-700/50 rounded-lg p-4">
+              <p className="text-gray-400">Exported</p>
+              <p className="text-white mt-1">
+                {quizPackage.exported_at ? new Date(quizPackage.exported_at).toLocaleString() : 'Unknown'}
+              </p>
+            </div>
+          </div>
+
+          {checking ? (
+            <p className="text-sm text-gray-400">Checking images...</p>
+          ) : missingMedia.length > 0 ? (
+            <div className="p-4 bg-yellow-900/20 border border-yellow-800 rounded-lg">
+              <div className="flex items-center space-x-2 mb-2">
+                <AlertTriangle className="w-5 h-5 text-yellow-400" />
+                <p className="text-yellow-300 font-medium">
+                  {missingMedia.length} of {quizPackage.media.length} {quizPackage.media.length === 1 ? 'image is' : 'images are'} not
+                  in this project and will be left out
+                </p>
+              </div>
+              <ul className="list-disc list-inside space-y-1 text-xs text-yellow-200 break-all">
+                {missingMedia.map(path => (
+                  <li key={path}>{path}</li>
+                ))}
+              </ul>
+            </div>
+          ) : !titleTaken && (
+            <div className="flex items-center space-x-2 text-sm text-green-300">
+              <CheckCircle className="w-5 h-5" />
+              <span>
+                No conflicts found{quizPackage.media.length > 0 ? `; ${quizPackage.media.length} images will be copied` : ''}.
+              </span>
+            </div>
+          )}
+        </motion.div>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Eye, Clock, Play, ArrowLeft, BookOpen, Star, Heart, Share2, AlertCircle } from 'lucide-react';
+import { Eye, Clock, Play, ArrowLeft, BookOpen, Star, Heart, Share2, AlertCircle, CalendarClock } from 'lucide-react';
 import { Quiz } from '../types';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { useUserQuizAttempts } from '../hooks/useQueries';
+import { useUserQuizAttempts, useInProgressAttempts } from '../hooks/useQueries';
+import { getQuizAvailability, describeLatePolicy } from '../utils/quizAvailability';
+import { RichText } from './questions/RichText';
+import { QuestionImage } from './questions/QuestionImage';
 
 // Interface for preview questions (only fields needed for display)
 interface PreviewQuestion {
@@ -12,6 +15,7 @@ interface PreviewQuestion {
   question: string;
   options: string[];
   category: string;
+  image_path?: string | null;
 }
 
 interface QuizPreviewProps {
@@ -41,6 +45,12 @@ export const QuizPreview: React.FC<QuizPreviewProps> = ({ quiz, onBack, onStartQ
 
   const attemptCount = userAttempts.length;
 
+  // An attempt that is already running can still be finished after the window closes
+  const { data: inProgressAttempts = [] } = useInProgressAttempts(user?.id || '');
+  const hasOpenAttempt = inProgressAttempts.some(attempt => attempt.quiz_id === quiz.id);
+  const availability = getQuizAvailability(quiz);
+  const isUnavailable = !hasOpenAttempt && (availability === 'upcoming' || availability === 'closed');
+
   useEffect(() => {
     loadQuizDetails();
   }, [quiz.id, user?.id]);
@@ -51,8 +61,8 @@ export const QuizPreview: React.FC<QuizPreviewProps> = ({ quiz, onBack, onStartQ
       
       // Load sample questions for preview
       const { data: questionsData, error: questionsError } = await supabase
-        .from('questions')
-        .select('id, question, options, category')
+        .from('questions_public')
+        .select('id, question, options, category, image_path')
         .eq('quiz_id', quiz.id)
         .limit(3);
 
@@ -227,8 +237,25 @@ export const QuizPreview: React.FC<QuizPreviewProps> = ({ quiz, onBack, onStartQ
               </div>
             </div>
             
-            {/* Mobile-optimized Start Button with Attempt Limit Validation */}
-            {hasReachedAttemptLimit ? (
+            {/* Mobile-optimized Start Button with Attempt Limit and Availability Validation */}
+            {isUnavailable ? (
+              <div className="w-full lg:w-auto">
+                <button
+                  disabled
+                  className="w-full bg-gray-600 text-gray-400 px-6 sm:px-8 py-3 sm:py-4 rounded-xl flex items-center justify-center space-x-3 cursor-not-allowed opacity-75"
+                >
+                  <CalendarClock className="w-5 sm:w-6 h-5 sm:h-6" />
+                  <span className="text-base sm:text-lg font-semibold">
+                    {availability === 'upcoming' ? 'Not Open Yet' : 'Quiz Closed'}
+                  </span>
+                </button>
+                <p className="text-red-400 text-sm mt-2 text-center">
+                  {availability === 'upcoming'
+                    ? `This quiz opens on ${new Date(quiz.start_time!).toLocaleString()}.`
+                    : `This quiz closed on ${new Date(quiz.end_time!).toLocaleString()}.`}
+                </p>
+              </div>
+            ) : hasReachedAttemptLimit ? (
               <div className="w-full lg:w-auto">
                 <button
                   disabled
@@ -249,7 +276,7 @@ export const QuizPreview: React.FC<QuizPreviewProps> = ({ quiz, onBack, onStartQ
               >
                 <Play className="w-5 sm:w-6 h-5 sm:h-6" />
                 <span className="text-base sm:text-lg font-semibold">
-                  {attemptsLoading ? 'Loading...' : 'Start Quiz'}
+                  {attemptsLoading ? 'Loading...' : availability === 'late' ? 'Start Late Attempt' : 'Start Quiz'}
                 </span>
               </button>
             )}
@@ -303,9 +330,11 @@ export const QuizPreview: React.FC<QuizPreviewProps> = ({ quiz, onBack, onStartQ
                     </span>
                   </div>
                   
-                  <p className="text-gray-300 mb-4 leading-relaxed text-sm sm:text-base">
-                    {question.question}
-                  </p>
+                  <RichText
+                    content={question.question}
+                    className="block text-gray-300 mb-4 leading-relaxed text-sm sm:text-base"
+                  />
+                  <QuestionImage path={question.image_path} alt={`Illustration for question ${index + 1}`} className="mb-4" />
                   
                   <div className="grid grid-cols-1 gap-2 sm:gap-3">
                     {question.options.map((option, optionIndex) => (
@@ -313,7 +342,7 @@ export const QuizPreview: React.FC<QuizPreviewProps> = ({ quiz, onBack, onStartQ
                         key={optionIndex}
                         className="p-3 bg-gray-700/50 rounded-lg border border-gray-600"
                       >
-                        <span className="text-gray-300 text-sm sm:text-base">{option}</span>
+                        <RichText content={option} inline className="text-gray-300 text-sm sm:text-base" />
                       </div>
                     ))}
                   </div>
@@ -349,6 +378,19 @@ export const QuizPreview: React.FC<QuizPreviewProps> = ({ quiz, onBack, onStartQ
             {quiz.max_attempts && (
               <li>• You can attempt this quiz up to {quiz.max_attempts} times</li>
             )}
+            {quiz.pool_size && (
+              <li>• Each attempt draws {quiz.pool_size} questions at random, so they may differ between attempts</li>
+            )}
+            {quiz.end_time && (
+              <li>
+                • {availability === 'late' ? 'This quiz closed' : 'This quiz closes'} on {new Date(quiz.end_time).toLocaleString()}. {describeLatePolicy(quiz)}
+              </li>
+            )}
+            {!!quiz.negative_marking && (
+              <li>
+                • Wrong answers cost {Math.round(quiz.negative_marking * 100)}% of the question's points; skipped questions cost nothing
+              </li>
+            )}
             <li>• Results will be available immediately after submission</li>
           </ul>
         </motion.div>
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, RefreshCw, Bell, ClipboardList, AlertTriangle } from 'lucide-react';
+import { useQuiz, useQuizRegrades, useRegradeQuiz } from '../hooks/useQueries';
+import { Question } from '../types';
+import { QUESTION_TYPE_LABELS, describeCorrectAnswer, getQuestionType } from '../utils/questionTypes';
+import { formatPoints } from '../utils/scoring';
+import { RichText } from './questions/RichText';
+
+interface QuizRegradeProps {
+  quizId: string;
+  onBack: () => void;
+}
+
+const formatPercentage = (value: number | null | undefined) => `${Math.round(Number(value ?? 0))}%`;
+
+// Applies a corrected answer key to past attempts and shows earlier regrades
+export const QuizRegrade: React.FC<QuizRegradeProps> = ({ quizId, onBack }) => {
+  const { data: quiz, isLoading } = useQuiz(quizId);
+  const { data: regrades = [] } = useQuizRegrades(quizId);
+  const regradeQuiz = useRegradeQuiz();
+  const [questionId, setQuestionId] = useState<string>('');
+  const [notify, setNotify] = useState(true);
+
+  const questions: Question[] = quiz?.questions ?? [];
+  const selectedQuestion = questions.find(q => q.id === questionId);
+
+  const handleRegrade = async () => {
+    const scope = selectedQuestion ? 'this question' : 'every question in this quiz';
+    const proceed = window.confirm(
+      `Regrade all completed attempts using the current answer key for ${scope}? ` +
+      'Scores will be recalculated and the change is recorded in the regrade log.'
+    );
+    if (!proceed) return;
+
+    try {
+      const result = await regradeQuiz.mutateAsync({ quizId, questionId: questionId || null, notify });
+      alert(
+        `Regraded ${result.attempts_checked} ${result.attempts_checked === 1 ? 'attempt' : 'attempts'}; ` +
+        `${result.attempts_changed} changed.` +
+        (result.questions_skipped > 0
+          ? ` ${result.questions_skipped} question(s) were left as they were in older versions because their options changed.`
+          : '')
+      );
+    } catch (error) {
+      console.error('Error regrading quiz:', error);
+      alert('Failed to regrade attempts. Please try again.');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span>Back to Quizzes</span>
+      </button>
+
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700 space-y-5">
+        <div>
+          <h3 className="text-xl font-semibold text-white">Regrade — {quiz?.title}</h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Fix the answer key in the quiz editor first, then regrade to apply it to attempts that were already submitted.
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Question</label>
+          <select
+            value={questionId}
+            onChange={(e) => setQuestionId(e.target.value)}
+            className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All questions</option>
+            {questions.map((question, index) => (
+              <option key={question.id} value={question.id}>
+                {index + 1}. {question.question.length > 80 ? `${question.question.slice(0, 80)}…` : question.question}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {selectedQuestion && (
+          <div className="bg-gray-700/50 rounded-lg p-4 text-sm space-y-1">
+            <RichText content={selectedQuestion.question} className="text-gray-200" />
+            <p className="text-gray-400">
+              {QUESTION_TYPE_LABELS[getQuestionType(selectedQuestion)]} • Current answer:{' '}
+              <span className="text-green-300">{describeCorrectAnswer(selectedQuestion)}</span>
+            </p>
+          </div>
+        )}
+
+        <label className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={notify}
+            onChange={(e) => setNotify(e.target.checked)}
+            className="rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+          />
+          <Bell className="w-4 h-4 text-gray-400" />
+          <span>Notify students whose score changes</span>
+        </label>
+
+        <button
+          onClick={handleRegrade}
+          disabled={regradeQuiz.isPending || questions.length === 0}
+          className="bg-orange-600 hover:bg-orange-700 text-white px-6 py-2 rounded-lg flex items-center space-x-2 transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-5 h-5 ${regradeQuiz.isPending ? 'animate-spin' : ''}`} />
+          <span>{regradeQuiz.isPending ? 'Regrading...' : 'Regrade Attempts'}</span>
+        </button>
+      </div>
+
+      <div className="bg-gray-800 rounded-xl p-6 border border-gray-700">
+        <h4 className="flex items-center text-lg font-semibold text-white mb-4">
+          <ClipboardList className="w-5 h-5 mr-2 text-gray-400" />
+          Regrade Log
+        </h4>
+
+        {regrades.length === 0 ? (
+          <p className="text-gray-400 text-sm">This quiz has not been regraded.</p>
+        ) : (
+          <div className="space-y-4">
+            {regrades.map((regrade, index) => {
+              const question = questions.find(q => q.id === regrade.question_id);
+              return (
+                <motion.div
+                  key={regrade.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: Math.min(index * 0.03, 0.3) }}
+                  className="border border-gray-700 rounded-lg p-4"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span className="text-white">
+                      {regrade.question_id ? `Question: ${question?.question ?? 'deleted question'}` : 'All questions'}
+                    </span>
+                    <span className="text-gray-400">
+                      {new Date(regrade.created_at).toLocaleString()} by {regrade.users?.username ?? 'unknown'}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-400 mt-1">
+                    {regrade.attempts_checked} checked • {regrade.attempts_changed} changed
+                    {regrade.notified ? ' • students notified' : ''}
+                  </p>
+                  {regrade.questions_skipped > 0 && (
+                    <p className="flex items-center text-xs text-yellow-300 mt-1">
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      {regrade.questions_skipped} question(s) kept their old key in earlier versions
+                    </p>
+                  )}
+                  {regrade.quiz_regrade_attempts.length > 0 && (
+                    <div className="mt-3 overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-400">
+                            <th className="py-1 pr-4 font-medium">Student</th>
+                            <th className="py-1 pr-4 font-medium">Score</th>
+                            <th className="py-1 pr-4 font-medium">Points</th>
+                            <th className="py-1 font-medium">Percentage</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {regrade.quiz_regrade_attempts.map(entry => (
+                            <tr key={entry.attempt_id} className="border-t border-gray-700 text-gray-300">
+                              <td className="py-1 pr-4">{entry.users?.username ?? 'Unknown'}</td>
+                              <td className="py-1 pr-4">{entry.old_score} → {entry.new_score}</td>
+                              <td className="py-1 pr-4">
+                                {formatPoints(Number(entry.old_earned_points ?? 0))} → {formatPoints(Number(entry.new_earned_points ?? 0))}
+                              </td>
+                              <td className={`py-1 ${Number(entry.new_percentage) >= Number(entry.old_percentage) ? 'text-green-300' : 'text-red-300'}`}>
+                                {formatPercentage(entry.old_percentage)} → {formatPercentage(entry.new_percentage)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
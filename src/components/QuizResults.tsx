@@ -1,10 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Trophy, Target, TrendingUp, Download, Eye, EyeOff, CheckCircle, XCircle, Sparkles } from 'lucide-react';
-import { QuizAttempt, Quiz, CategoryPerformance } from '../types';
+import { ArrowLeft, Trophy, Target, TrendingUp, Download, Eye, EyeOff, CheckCircle, XCircle, Sparkles, AlertTriangle, Lightbulb, ExternalLink } from 'lucide-react';
+import { QuizAttempt, Quiz, CategoryPerformance, QuestionType } from '../types';
 import { supabase } from '../lib/supabase';
+import { OptionOrder } from '../utils/attemptShuffle';
+import { getAttemptPoints, getAttemptPercentage, formatPoints } from '../utils/scoring';
+import {
+  getQuestionType,
+  isChoiceType,
+  hasResponse,
+  getSelectedOptions,
+  getCorrectOptions,
+  describeCorrectAnswer,
+} from '../utils/questionTypes';
 // PersonalizedLearningPlan component for AI-generated learning plans
 import { PersonalizedLearningPlan } from './PersonalizedLearningPlan';
+import { RichText } from './questions/RichText';
+import { QuestionImage } from './questions/QuestionImage';
 
 interface QuizResultsProps {
   attemptId: string;
@@ -12,12 +24,24 @@ interface QuizResultsProps {
 }
 
 interface DetailedAnswer {
+  type: QuestionType;
   question: string;
   options: string[];
-  userAnswer: number | null;
-  correctAnswer: number;
+  matchOptions: string[]; // Right-hand items, for matching questions
+  imagePath: string | null;
+  optionImages: (string | null)[];
+  userAnswers: number[]; // Canonical option indices picked, or arranged for ordering and matching
+  correctAnswers: number[];
+  userText: string | null; // Typed response, for short text and numeric questions
+  correctText: string;
+  answered: boolean;
   isCorrect: boolean;
+  credit: number; // Share of the question earned, below 1 for partially correct answers
+  points: number; // Points awarded, negative under negative marking
+  maxPoints: number;
   category: string;
+  explanation: string | null;
+  referenceUrl: string | null;
 }
 
 export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) => {
@@ -45,26 +69,22 @@ export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) =
       if (attemptData) {
         setAttempt(attemptData);
         
-        // Load quiz
-        const { data: quizData } = await supabase
-          .from('quizzes')
-          .select('*')
-          .eq('id', attemptData.quiz_id)
-          .single();
+        // Load the quiz with the settings of the version the attempt was graded under
+        const { data: quizData } = await supabase.rpc('get_attempt_quiz', {
+          p_attempt_id: attemptData.id
+        });
 
         if (quizData) {
           setQuiz(quizData);
           
-          // Load questions for detailed analysis
-          const { data: questions } = await supabase
-            .from('questions')
-            .select('*')
-            .eq('quiz_id', quizData.id)
-            .order('created_at');
+          // Answer key is only released for an existing attempt, as of its quiz version
+          const { data: questions } = await supabase.rpc('get_attempt_answer_key', {
+            p_attempt_id: attemptData.id
+          });
 
           if (questions) {
             calculateCategoryPerformance(attemptData.answers, questions);
-            generateDetailedAnswers(attemptData.answers, questions);
+            generateDetailedAnswers(attemptData.answers, questions, attemptData.option_order);
           }
         }
       }
@@ -79,8 +99,8 @@ export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) =
     const userAnswers = typeof answers === 'string' ? JSON.parse(answers) : answers;
     const categoryStats: { [key: string]: { correct: number; total: number } } = {};
 
-    questions.forEach((question, index) => {
-      const userAnswer = userAnswers.find((a: any) => a.question_id === question.id) || userAnswers[index];
+    questions.forEach(question => {
+      const userAnswer = userAnswers.find((a: any) => a.question_id === question.id);
       const category = question.category || 'General';
 
       if (!categoryStats[category]) {
@@ -103,7 +123,7 @@ export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) =
     setCategoryPerformance(performance);
   };
 
-  const generateDetailedAnswers = (answers: any, questions: any[]) => {
+  const generateDetailedAnswers = (answers: any, questions: any[], optionOrder?: OptionOrder | null) => {
     let parsedAnswers: any[];
     
     try {
@@ -120,20 +140,31 @@ export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) =
       parsedAnswers = [];
     }
     
-    const detailed = questions.map((question, index) => {
-      let userAnswer = parsedAnswers.find((a: any) => a.question_id === question.id);
-      
-      if (!userAnswer && parsedAnswers[index]) {
-        userAnswer = parsedAnswers[index];
-      }
-      
+    // The answer key comes from the quiz version the attempt was taken on, so
+    // answers are matched by question id only
+    const detailed = questions.map(question => {
+      const userAnswer = parsedAnswers.find((a: any) => a.question_id === question.id);
+
+      // Stored answers use the attempt's shuffled option positions
       return {
+        type: getQuestionType(question),
         question: question.question,
         options: question.options || [],
-        userAnswer: userAnswer?.selected_answer ?? null,
-        correctAnswer: question.correct_answer,
+        matchOptions: question.match_options || [],
+        imagePath: question.image_path || null,
+        optionImages: question.option_images || [],
+        userAnswers: getSelectedOptions(question.id, userAnswer, optionOrder),
+        correctAnswers: getCorrectOptions(question),
+        userText: userAnswer?.text_answer ?? null,
+        correctText: describeCorrectAnswer(question),
+        answered: hasResponse(userAnswer),
         isCorrect: userAnswer?.is_correct || false,
-        category: question.category || 'General'
+        credit: userAnswer?.credit ?? (userAnswer?.is_correct ? 1 : 0),
+        points: userAnswer?.points ?? (userAnswer?.is_correct ? 1 : 0),
+        maxPoints: userAnswer?.max_points ?? question.points ?? 1,
+        category: question.category || 'General',
+        explanation: question.explanation || null,
+        referenceUrl: question.reference_url || null
       };
     });
 
@@ -143,7 +174,8 @@ export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) =
   const generateReport = () => {
     if (!attempt || !quiz) return;
 
-    const percentage = Math.round((attempt.score / attempt.total_questions) * 100);
+    const percentage = Math.round(getAttemptPercentage(attempt));
+    const points = getAttemptPoints(attempt);
     const strongAreas = categoryPerformance.filter(c => c.percentage >= 80);
     const weakAreas = categoryPerformance.filter(c => c.percentage < 60);
 
@@ -155,24 +187,50 @@ export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) =
 
     reportContent += `Overall Performance\n`;
     reportContent += `------------------\n`;
-    reportContent += `Score: ${attempt.score}/${attempt.total_questions} (${percentage}%)\n\n`;
+    reportContent += `Score: ${formatPoints(points.earned)}/${formatPoints(points.max)} points (${percentage}%)\n`;
+    reportContent += `Correct Answers: ${attempt.score}/${attempt.total_questions}\n`;
+    if (quiz.negative_marking) {
+      reportContent += `Negative marking: ${Math.round(quiz.negative_marking * 100)}% of a question's points per wrong answer\n`;
+    }
+    if (attempt.is_late) {
+      reportContent += quiz.late_policy === 'penalty'
+        ? `Submitted late (${quiz.late_penalty_percent}% penalty applied)\n`
+        : `Submitted late\n`;
+    }
+    reportContent += `\n`;
 
     // Detailed question breakdown
     if (detailedAnswers.length > 0) {
       reportContent += `Detailed Question Analysis\n`;
       reportContent += `-------------------------\n`;
       detailedAnswers.forEach((answer, index) => {
-        reportContent += `\nQuestion ${index + 1}: ${answer.isCorrect ? '✓ CORRECT' : '✗ INCORRECT'}\n`;
+        const partial = !answer.isCorrect && answer.credit > 0;
+        reportContent += `\nQuestion ${index + 1}: ${
+          answer.isCorrect ? '✓ CORRECT' : partial ? `◐ PARTIAL (${Math.round(answer.credit * 100)}%)` : '✗ INCORRECT'
+        }\n`;
+        reportContent += `Points: ${formatPoints(answer.points)}/${formatPoints(answer.maxPoints)}\n`;
         reportContent += `Q: ${answer.question}\n`;
         reportContent += `Category: ${answer.category}\n`;
         
-        if (answer.userAnswer !== null) {
-          reportContent += `Your Answer: ${answer.options[answer.userAnswer]}\n`;
-        } else {
+        if (!answer.answered) {
           reportContent += `Your Answer: Not answered\n`;
+        } else if (answer.type === 'ordering') {
+          reportContent += `Your Answer: ${answer.userAnswers.map(i => answer.options[i]).join(' → ')}\n`;
+        } else if (answer.type === 'matching') {
+          reportContent += `Your Answer: ${answer.options.map((option, i) => `${option} → ${answer.matchOptions[answer.userAnswers[i]] ?? ''}`).join('; ')}\n`;
+        } else if (isChoiceType(answer.type)) {
+          reportContent += `Your Answer: ${answer.userAnswers.map(i => answer.options[i]).join(', ')}\n`;
+        } else {
+          reportContent += `Your Answer: ${answer.userText}\n`;
         }
         
-        reportContent += `Correct Answer: ${answer.options[answer.correctAnswer]}\n`;
+        reportContent += `Correct Answer: ${answer.correctText}\n`;
+        if (answer.explanation) {
+          reportContent += `Explanation: ${answer.explanation}\n`;
+        }
+        if (answer.referenceUrl) {
+          reportContent += `Reference: ${answer.referenceUrl}\n`;
+        }
         reportContent += `${'-'.repeat(40)}\n`;
       });
     }
@@ -234,7 +292,8 @@ export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) =
     );
   }
 
-  const percentage = Math.round((attempt.score / attempt.total_questions) * 100);
+  const percentage = Math.round(getAttemptPercentage(attempt));
+  const points = getAttemptPoints(attempt);
   const strongAreas = categoryPerformance.filter(c => c.percentage >= 80);
   const weakAreas = categoryPerformance.filter(c => c.percentage < 60);
   
@@ -315,12 +374,24 @@ export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) =
         </div>
         
         <p className="text-lg sm:text-xl text-gray-300 mb-2">
-          {attempt.score} out of {attempt.total_questions} correct
+          {formatPoints(points.earned)} of {formatPoints(points.max)} points
+        </p>
+        <p className="text-sm sm:text-base text-gray-400 mb-2">
+          {attempt.score} out of {attempt.total_questions} fully correct
         </p>
         
         <p className="text-sm sm:text-base text-gray-400">
           Completed in {Math.floor(attempt.time_taken / 60)}:{String(attempt.time_taken % 60).padStart(2, '0')}
         </p>
+
+        {attempt.is_late && (
+          <div className="inline-flex items-center mt-4 px-3 py-1 rounded-full bg-yellow-900/30 text-yellow-400 text-xs sm:text-sm">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            {quiz.late_policy === 'penalty'
+              ? `Submitted late • ${quiz.late_penalty_percent}% penalty applied`
+              : 'Submitted late'}
+          </div>
+        )}
       </motion.div>
 
       {/* Detailed Answers Review */}
@@ -344,6 +415,8 @@ export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) =
                   <div className={`flex items-center space-x-2 px-3 py-1 rounded-full text-sm font-medium ${
                     answer.isCorrect 
                       ? 'bg-green-900 text-green-300' 
+                      : answer.credit > 0
+                      ? 'bg-yellow-900 text-yellow-300'
                       : 'bg-red-900 text-red-300'
                   }`}>
                     {answer.isCorrect ? (
@@ -351,55 +424,149 @@ export const QuizResults: React.FC<QuizResultsProps> = ({ attemptId, onBack }) =
                     ) : (
                       <XCircle className="w-4 h-4" />
                     )}
-                    <span>{answer.isCorrect ? 'Correct' : 'Incorrect'}</span>
+                    <span>
+                      {answer.isCorrect
+                        ? 'Correct'
+                        : answer.credit > 0
+                        ? `Partially correct (${Math.round(answer.credit * 100)}%)`
+                        : 'Incorrect'}
+                    </span>
                   </div>
                 </div>
                 
                 <div className="mb-4">
-                  <p className="text-gray-300 mb-2">{answer.question}</p>
+                  <RichText content={answer.question} className="text-gray-300 mb-2" />
+                  <QuestionImage path={answer.imagePath} alt={`Illustration for question ${index + 1}`} className="mb-3" />
                   <span className="text-xs bg-gray-700 px-2 py-1 rounded text-gray-400">
                     {answer.category}
                   </span>
+                  <span className={`ml-2 text-xs px-2 py-1 rounded ${
+                    answer.points < 0 ? 'bg-red-900/40 text-red-300' : 'bg-gray-700 text-gray-300'
+                  }`}>
+                    {formatPoints(answer.points)}/{formatPoints(answer.maxPoints)} pts
+                  </span>
                 </div>
                 
-                <div className="space-y-2">
-                  {answer.options.map((option: string, optionIndex: number) => (
-                    <div
-                      key={optionIndex}
-                      className={`p-3 rounded-lg border ${
-                        optionIndex === answer.correctAnswer && optionIndex === answer.userAnswer
-                          ? 'border-green-500 bg-green-900/20 text-green-300' // Correct answer selected
-                          : optionIndex === answer.correctAnswer
-                          ? 'border-green-500 bg-green-900/10 text-green-400' // Correct answer not selected
-                          : optionIndex === answer.userAnswer
-                          ? 'border-red-500 bg-red-900/20 text-red-300' // Wrong answer selected
-                          : 'border-gray-600 bg-gray-700/50 text-gray-400' // Not selected
-                      }`}
-                    >
-                      <div className="flex items-center justify-between">
-                        <span>{option}</span>
-                        <div className="flex items-center space-x-2">
-                          {optionIndex === answer.userAnswer && (
-                            <span className="text-xs bg-blue-600 px-2 py-1 rounded text-white">
-                              Your Answer
-                            </span>
-                          )}
-                          {optionIndex === answer.correctAnswer && (
-                            <span className="text-xs bg-green-600 px-2 py-1 rounded text-white">
-                              Correct
-                            </span>
-                          )}
+                {answer.type === 'ordering' || answer.type === 'matching' ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-400">
+                          <th className="pb-2 pr-3 font-medium">{answer.type === 'ordering' ? 'Position' : 'Item'}</th>
+                          <th className="pb-2 pr-3 font-medium">Your Answer</th>
+                          <th className="pb-2 font-medium">Correct</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {answer.correctAnswers.map((correctIndex, position) => {
+                          const items = answer.type === 'ordering' ? answer.options : answer.matchOptions;
+                          const userIndex = answer.userAnswers[position];
+                          const isRight = userIndex === correctIndex;
+                          return (
+                            <tr key={position} className="border-t border-gray-700">
+                              <td className="py-2 pr-3 text-gray-300">
+                                {answer.type === 'ordering' ? position + 1 : <RichText content={answer.options[position]} inline />}
+                              </td>
+                              <td className={`py-2 pr-3 ${
+                                !answer.answered ? 'text-gray-500' : isRight ? 'text-green-300' : 'text-red-300'
+                              }`}>
+                                {answer.answered && items[userIndex] !== undefined ? <RichText content={items[userIndex]} inline /> : '—'}
+                              </td>
+                              <td className="py-2 text-green-400"><RichText content={items[correctIndex]} inline /></td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : isChoiceType(answer.type) ? (
+                  <div className="space-y-2">
+                    {answer.options.map((option: string, optionIndex: number) => {
+                      const isCorrectOption = answer.correctAnswers.includes(optionIndex);
+                      const isUserOption = answer.userAnswers.includes(optionIndex);
+                      return (
+                        <div
+                          key={optionIndex}
+                          className={`p-3 rounded-lg border ${
+                            isCorrectOption && isUserOption
+                              ? 'border-green-500 bg-green-900/20 text-green-300' // Correct answer selected
+                              : isCorrectOption
+                              ? 'border-green-500 bg-green-900/10 text-green-400' // Correct answer not selected
+                              : isUserOption
+                              ? 'border-red-500 bg-red-900/20 text-red-300' // Wrong answer selected
+                              : 'border-gray-600 bg-gray-700/50 text-gray-400' // Not selected
+                          }`}
+                        >
+                          <div className="flex items-center justify-between">
+                            <RichText content={option} inline />
+                            <div className="flex items-center space-x-2">
+                              {isUserOption && (
+                                <span className="text-xs bg-blue-600 px-2 py-1 rounded text-white">
+                                  Your Answer
+                                </span>
+                              )}
+                              {isCorrectOption && (
+                                <span className="text-xs bg-green-600 px-2 py-1 rounded text-white">
+                                  Correct
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                          <QuestionImage
+                            path={answer.optionImages[optionIndex]}
+                            alt={`Image for option ${optionIndex + 1}`}
+                            className="mt-2 !max-h-40"
+                          />
                         </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {answer.answered && (
+                      <div className={`p-3 rounded-lg border ${
+                        answer.isCorrect
+                          ? 'border-green-500 bg-green-900/20 text-green-300'
+                          : 'border-red-500 bg-red-900/20 text-red-300'
+                      }`}>
+                        <span className="text-xs text-gray-400 block mb-1">Your Answer</span>
+                        <span>{answer.userText}</span>
                       </div>
+                    )}
+                    <div className="p-3 rounded-lg border border-green-500 bg-green-900/10 text-green-400">
+                      <span className="text-xs text-gray-400 block mb-1">Accepted Answer</span>
+                      <span>{answer.correctText}</span>
                     </div>
-                  ))}
-                </div>
+                  </div>
+                )}
                 
-                {answer.userAnswer === null && (
+                {!answer.answered && (
                   <div className="mt-3 p-2 bg-yellow-900/20 rounded border border-yellow-700">
                     <p className="text-yellow-300 text-sm">⚠️ This question was not answered</p>
                   </div>
                 )}
+
+                {(answer.explanation || answer.referenceUrl) && (
+                  <div className="mt-3 p-3 bg-gray-700/50 rounded-lg border border-gray-600 text-sm text-gray-300 space-y-2">
+                    {answer.explanation && (
+                      <div className="flex items-start space-x-2">
+                        <Lightbulb className="w-4 h-4 text-yellow-400 mt-0.5 flex-shrink-0" />
+                        <RichText content={answer.explanation} className="flex-1 min-w-0" />
+                      </div>
+                    )}
+                    {answer.referenceUrl && (
+                      <a
+                        href={answer.referenceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center space-x-1 text-blue-400 hover:text-blue-300 break-all"
+                      >
+                        <ExternalLink className="w-4 h-4 flex-shrink-0" />
+                        <span>Learn more</span>
+                      </a>
+                    )}
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -1,9 +1,26 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Clock, CheckCircle, AlertTriangle, ChevronRight, ChevronLeft } from 'lucide-react';
-import { Quiz, UserAnswer } from '../types';
+import { ArrowLeft, Clock, CheckCircle, AlertTriangle, ChevronRight, ChevronLeft, RotateCcw, Flag, SkipForward, Dumbbell } from 'lucide-react';
+import { Quiz, QuizAttempt, SubmittedAnswer, Question, PracticeAttempt, PracticeFeedback } from '../types';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import {
+  useStartQuizAttempt,
+  useSaveAttemptProgress,
+  useSubmitQuizAttempt,
+  useAttemptTimeRemaining,
+  useStartPracticeAttempt,
+  useCheckPracticeAnswer,
+  useFinishPracticeAttempt,
+} from '../hooks/useQueries';
+import { getQuizAvailability, isHardDeadline, describeLatePolicy } from '../utils/quizAvailability';
+import { getDisplayedOptions, OptionOrder } from '../utils/attemptShuffle';
+import { QuestionResponse, getQuestionType, hasResponse, isChoiceType, createEmptyAnswer } from '../utils/questionTypes';
+import { QuestionResponseInput } from './questions/QuestionResponseInput';
+import { PracticeFeedbackPanel } from './questions/PracticeFeedbackPanel';
+import { RichText } from './questions/RichText';
+import { QuestionImage } from './questions/QuestionImage';
+import { getAttemptPercentage, formatPoints } from '../utils/scoring';
 
 interface QuizTakerProps {
   quiz: Quiz;
@@ -14,46 +31,84 @@ interface QuizTakerProps {
 
 export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete, isPractice }) => {
   const { user } = useAuth();
+  const startAttempt = useStartQuizAttempt();
+  const saveProgress = useSaveAttemptProgress();
+  const submitAttempt = useSubmitQuizAttempt();
+  const startPractice = useStartPracticeAttempt();
+  const checkPracticeAnswer = useCheckPracticeAnswer();
+  const finishPractice = useFinishPracticeAttempt();
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [resumed, setResumed] = useState(false);
+  const [optionOrder, setOptionOrder] = useState<OptionOrder | null>(null);
   const [questions, setQuestions] = useState<any[]>([]);
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [answers, setAnswers] = useState<UserAnswer[]>([]);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
-  const [timeStarted] = useState(Date.now());
+  const [answers, setAnswers] = useState<SubmittedAnswer[]>([]);
+  const [timeStarted, setTimeStarted] = useState(Date.now());
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
   const [showReview, setShowReview] = useState(false);
   const [loading, setLoading] = useState(true);
   const [timeUp, setTimeUp] = useState(false);
+  const [autoSubmitError, setAutoSubmitError] = useState<string | null>(null);
+  // Practice runs are graded question by question and tracked apart from attempts
+  const [practiceId, setPracticeId] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<Record<string, PracticeFeedback>>({});
+  const [practiceResult, setPracticeResult] = useState<PracticeAttempt | null>(null);
+  const localTries = useRef<Record<string, number>>({});
+  // Latest handleAutoSubmit, so the server time sync does not depend on every render's copy
+  const autoSubmitRef = useRef<() => void>(() => {});
+  // A countdown is shown when either the time limit or a blocking end_time caps the attempt; practice is untimed
+  const hasCountdown = !isPractice && (!!quiz.time_limit || isHardDeadline(quiz));
+  const { data: serverTimeRemaining } = useAttemptTimeRemaining(attemptId, {
+    enabled: hasCountdown && !timeUp
+  });
 
   useEffect(() => {
-    // Check quiz availability based on start_time
-    const now = new Date();
-    const quizStartTime = quiz.start_time ? new Date(quiz.start_time) : null;
+    // Check quiz availability; a closed quiz is rejected by start_quiz_attempt unless an attempt is already open
+    const availability = getQuizAvailability(quiz);
 
-    if (quizStartTime && now < quizStartTime) {
-      alert(`This quiz is scheduled to start on ${quizStartTime.toLocaleString()}. Please try again later.`);
+    if (availability === 'upcoming') {
+      alert(`This quiz is scheduled to start on ${new Date(quiz.start_time!).toLocaleString()}. Please try again later.`);
       onBack();
       return;
     }
 
+    if (availability === 'late' && !isPractice) {
+      const proceed = window.confirm(`This quiz closed on ${new Date(quiz.end_time!).toLocaleString()}. ${describeLatePolicy(quiz)} Continue?`);
+      if (!proceed) {
+        onBack();
+        return;
+      }
+    }
+
     // Simplified condition - just check if questions array exists and has items
     if (quiz.questions && Array.isArray(quiz.questions) && quiz.questions.length > 0) {
       const firstItem = quiz.questions[0];
       if (firstItem && typeof firstItem === 'object' && 'question' in firstItem) {
         setQuestions(quiz.questions);
+        setAnswers(quiz.questions.map(q => createEmptyAnswer(q.id)));
         setLoading(false);
         return;
       }
     }
     
     loadQuestions();
-    
-    if (quiz.time_limit) {
-      setTimeRemaining(quiz.time_limit * 60);
+  }, [quiz.id, quiz.questions, quiz.start_time, quiz.end_time, quiz.time_limit]);
+
+  // The server's remaining time is authoritative; the local interval only fills the gaps between syncs
+  useEffect(() => {
+    if (serverTimeRemaining === undefined || serverTimeRemaining === null || timeUp) return;
+
+    if (serverTimeRemaining <= 0) {
+      setTimeRemaining(0);
+      setTimeUp(true);
+      autoSubmitRef.current();
+    } else {
+      setTimeRemaining(serverTimeRemaining);
     }
-  }, [quiz.id, quiz.questions, quiz.start_time, quiz.time_limit]);
+  }, [serverTimeRemaining, timeUp]);
 
   useEffect(() => {
-    if (timeRemaining > 0 && !showReview && !timeUp) {
+    if (timeRemaining > 0 && !timeUp) {
       const timer = setInterval(() => {
         setTimeRemaining(prev => {
           if (prev <= 1) {
@@ -67,65 +122,215 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
 
       return () => clearInterval(timer);
     }
-  }, [timeRemaining, showReview, timeUp]);
+  }, [timeRemaining, timeUp]);
 
   const loadQuestions = async () => {
+    if (isPractice) {
+      await loadPracticeQuestions();
+      return;
+    }
+
     try {
-      const { data: questionsData, error } = await supabase
-        .from('questions')
-        .select('*')
-        .eq('quiz_id', quiz.id)
-        .order('created_at');
+      // Reuses the open attempt if the student left this quiz part-way through
+      const attempt = await startAttempt.mutateAsync(quiz.id);
+      setAttemptId(attempt.id);
+      setOptionOrder(attempt.option_order ?? null);
+
+      // Served in the attempt's order and without correct_answer; grading happens on submit
+      const { data: questionsData, error } = await supabase.rpc('get_attempt_questions', {
+        p_attempt_id: attempt.id
+      });
 
       if (error) throw error;
 
       if (questionsData && questionsData.length > 0) {
         setQuestions(questionsData);
+        restoreProgress(attempt, questionsData);
       } else {
         alert('No questions found for this quiz');
         onBack();
       }
     } catch (error) {
       console.error('Error loading questions:', error);
-      alert('Failed to load questions');
+      alert(error instanceof Error ? error.message : 'Failed to load questions');
+      onBack();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Each practice run is a fresh draw from the quiz; nothing is resumed
+  const loadPracticeQuestions = async () => {
+    try {
+      const practice = await startPractice.mutateAsync(quiz.id);
+      setPracticeId(practice.id);
+      setOptionOrder(practice.option_order ?? null);
+
+      const { data: questionsData, error } = await supabase.rpc('get_practice_questions', {
+        p_practice_id: practice.id
+      });
+
+      if (error) throw error;
+
+      if (questionsData && questionsData.length > 0) {
+        setQuestions(questionsData);
+        setAnswers(questionsData.map((q: { id: string }) => createEmptyAnswer(q.id)));
+        setCurrentQuestion(0);
+        setFeedback({});
+        setPracticeResult(null);
+        setTimeStarted(Date.now());
+      } else {
+        alert('No questions found for this quiz');
+        onBack();
+      }
+    } catch (error) {
+      console.error('Error starting practice:', error);
+      alert(error instanceof Error ? error.message : 'Failed to start practice');
       onBack();
     } finally {
       setLoading(false);
     }
   };
 
-  const handleAnswerSelect = (answerIndex: number) => {
-    setSelectedAnswer(answerIndex);
+  // Rebuilds answers, flags, position and timer from the attempt's last autosave.
+  // Every question gets an entry so skipped ones are saved as explicit nulls.
+  const restoreProgress = (attempt: QuizAttempt, loadedQuestions: { id: string }[]) => {
+    const savedAnswers = Array.isArray(attempt.answers) ? (attempt.answers as SubmittedAnswer[]) : [];
+    const restoredAnswers = loadedQuestions.map(question =>
+      savedAnswers.find(a => a.question_id === question.id) ?? createEmptyAnswer(question.id)
+    );
+
+    const resumeAt = Math.min(attempt.current_question ?? 0, loadedQuestions.length - 1);
+    setAnswers(restoredAnswers);
+    setCurrentQuestion(resumeAt);
+    setResumed(savedAnswers.some(a => hasResponse(a) || a.flagged) || resumeAt > 0);
+
+    // Only used for the elapsed-time display; the countdown comes from the server
+    setTimeStarted(attempt.started_at ? new Date(attempt.started_at).getTime() : Date.now());
   };
 
-  const handleNext = () => {
-    if (selectedAnswer === null) return;
+  const persistProgress = (updatedAnswers: SubmittedAnswer[], questionIndex: number) => {
+    if (!attemptId) return;
 
+    saveProgress.mutate(
+      { attemptId, answers: updatedAnswers, currentQuestion: questionIndex },
+      { onError: (error) => console.error('Error autosaving progress:', error) }
+    );
+  };
+
+  const handleResponseChange = (response: QuestionResponse) => {
     const question = questions[currentQuestion];
     if (!question) return;
-    
-    const isCorrect = selectedAnswer === question.correct_answer;
 
-    const newAnswer: UserAnswer = {
-      question_id: question.id,
-      selected_answer: selectedAnswer,
+    const updatedAnswers = [...answers];
+    updatedAnswers[currentQuestion] = {
+      ...createEmptyAnswer(question.id),
+      flagged: answers[currentQuestion]?.flagged,
+      ...response
+    };
+    setAnswers(updatedAnswers);
+
+    // Typed and arranged answers are saved when the student moves on rather than
+    // on every keystroke or drag step
+    if (isChoiceType(getQuestionType(question))) {
+      persistProgress(updatedAnswers, currentQuestion);
+    }
+  };
+
+  const toggleFlag = () => {
+    const question = questions[currentQuestion];
+    if (!question) return;
+
+    const current = answers[currentQuestion] ?? createEmptyAnswer(question.id);
+    const updatedAnswers = [...answers];
+    updatedAnswers[currentQuestion] = { ...current, flagged: !current.flagged };
+    setAnswers(updatedAnswers);
+    persistProgress(updatedAnswers, currentQuestion);
+  };
+
+  const handleNext = () => {
+    if (!hasResponse(answers[currentQuestion])) return;
+    moveForward();
+  };
+
+  // Questions handed in with the quiz (e.g. a generated follow-up quiz) carry
+  // their key, so those are checked locally; everything else goes to the server
+  const checkLocally = (question: Question, answer: SubmittedAnswer): PracticeFeedback => {
+    const isCorrect = answer.selected_answer === question.correct_answer;
+    localTries.current[question.id] = (localTries.current[question.id] ?? 0) + 1;
+    return {
+      credit: isCorrect ? 1 : 0,
       is_correct: isCorrect,
-      category: question.category,
-      question: question.question,
-      options: question.options,
-      correct_answer: question.correct_answer
+      tries: localTries.current[question.id],
+      answer_key: { correct_answer: question.correct_answer },
+      explanation: question.explanation,
+      reference_url: question.reference_url,
     };
+  };
+
+  const handleCheckAnswer = async () => {
+    const question = questions[currentQuestion];
+    const answer = answers[currentQuestion];
+    if (!question || !hasResponse(answer)) return;
+
+    try {
+      const result = practiceId
+        ? await checkPracticeAnswer.mutateAsync({ practiceId, answer })
+        : checkLocally(question, answer);
+      setFeedback(prev => ({ ...prev, [question.id]: result }));
+    } catch (error) {
+      console.error('Error checking answer:', error);
+      alert(error instanceof Error ? error.message : 'Failed to check your answer. Please try again.');
+    }
+  };
+
+  // Clears the response so the learner can answer again; the next check counts as another try
+  const handleRetry = () => {
+    const question = questions[currentQuestion];
+    if (!question) return;
 
     const updatedAnswers = [...answers];
-    updatedAnswers[currentQuestion] = newAnswer;
+    updatedAnswers[currentQuestion] = createEmptyAnswer(question.id);
     setAnswers(updatedAnswers);
+    setFeedback(prev => {
+      const next = { ...prev };
+      delete next[question.id];
+      return next;
+    });
+  };
+
+  const finishPracticeRun = async () => {
+    if (!practiceId) {
+      onComplete();
+      return;
+    }
 
+    try {
+      setPracticeResult(await finishPractice.mutateAsync(practiceId));
+    } catch (error) {
+      console.error('Error finishing practice:', error);
+      alert(error instanceof Error ? error.message : 'Failed to finish practice. Please try again.');
+    }
+  };
+
+  const restartPractice = () => {
+    setLoading(true);
+    loadPracticeQuestions();
+  };
+
+  // Leaves the current question unanswered; it can be revisited from the review grid
+  const handleSkip = () => {
+    moveForward();
+  };
+
+  const moveForward = () => {
     if (currentQuestion < questions.length - 1) {
-      setCurrentQuestion(currentQuestion + 1);
-      setSelectedAnswer(null);
+      const nextQuestion = currentQuestion + 1;
+      setCurrentQuestion(nextQuestion);
+      persistProgress(answers, nextQuestion);
     } else {
       if (isPractice) {
-        onComplete();
+        finishPracticeRun();
         return;
       }
       setShowReview(true);
@@ -135,64 +340,45 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
   const handlePrevious = () => {
     if (currentQuestion > 0) {
       setCurrentQuestion(currentQuestion - 1);
-      setSelectedAnswer(answers[currentQuestion - 1]?.selected_answer ?? null);
+      persistProgress(answers, currentQuestion - 1);
     }
   };
 
-  const handleSubmit = async () => {
-    if (isPractice) return;
-    
-    try {
-      // Check attempt limits
-      if (quiz.max_attempts) {
-        const { data: existingAttempts, error: attemptsError } = await supabase
-          .from('quiz_attempts')
-          .select('id')
-          .eq('user_id', user?.id)
-          .eq('quiz_id', quiz.id);
-        
-        if (attemptsError) {
-          console.error('Error checking attempts:', attemptsError);
-          throw new Error('Failed to check attempt history');
-        }
-        
-        if (existingAttempts && existingAttempts.length >= quiz.max_attempts) {
-          alert('You have reached the maximum number of attempts for this quiz.');
-          onBack();
-          return;
-        }
-      }
+  // Sends only the selected options; the server grades them against the open attempt
+  const submitAnswers = async () => {
+    if (!attemptId) {
+      throw new Error('This quiz attempt could not be found. Please reopen the quiz.');
+    }
 
-      const score = answers.filter(a => a.is_correct).length;
-      const timeCompleted = Date.now();
-      const timeTaken = Math.round((timeCompleted - timeStarted) / 1000);
+    // Set admin context
+    if (user) {
+      await supabase.rpc('set_config', {
+        setting_name: 'app.current_user',
+        setting_value: user.username
+      });
+    }
 
-      // Set admin context
-      if (user) {
-        await supabase.rpc('set_config', {
-          setting_name: 'app.current_user',
-          setting_value: user.username
-        });
-      }
+    return submitAttempt.mutateAsync({
+      attemptId,
+      answers
+    });
+  };
 
-      const { data: attempt, error } = await supabase
-        .from('quiz_attempts')
-        .insert([{
-          user_id: user?.id,
-          quiz_id: quiz.id,
-          score,
-          total_questions: questions.length,
-          answers: JSON.stringify(answers),
-          time_taken: timeTaken
-        }])
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error submitting quiz:', error);
-        throw new Error('Failed to submit quiz. Please try again.');
-      }
-      
+  const handleSubmit = async () => {
+    if (isPractice || submitAttempt.isPending) return;
+
+    const unanswered = questions.flatMap((_, index) => (hasResponse(answers[index]) ? [] : [index + 1]));
+    const flagged = questions.flatMap((_, index) => (answers[index]?.flagged ? [index + 1] : []));
+    if (unanswered.length > 0 || flagged.length > 0) {
+      const details = [
+        unanswered.length > 0 ? `Unanswered: ${unanswered.join(', ')}` : '',
+        flagged.length > 0 ? `Flagged for review: ${flagged.join(', ')}` : '',
+      ].filter(Boolean).join('\n');
+      if (!window.confirm(`${details}\n\nSubmit anyway?`)) return;
+    }
+    
+    try {
+      const attempt = await submitAnswers();
       onComplete(attempt.id);
     } catch (error) {
       console.error('Error submitting quiz:', error);
@@ -201,42 +387,33 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
   };
 
   const handleAutoSubmit = async () => {
-    const score = answers.filter(a => a.is_correct).length;
-    const timeCompleted = Date.now();
-    const timeTaken = Math.round((timeCompleted - timeStarted) / 1000);
+    if (submitAttempt.isPending) return;
+    setAutoSubmitError(null);
 
     try {
-      if (user) {
-        await supabase.rpc('set_config', {
-          setting_name: 'app.current_user',
-          setting_value: user.username
-        });
-      }
-
-      const { data: attempt, error } = await supabase
-        .from('quiz_attempts')
-        .insert([{
-          user_id: user?.id,
-          quiz_id: quiz.id,
-          score,
-          total_questions: questions.length,
-          answers: JSON.stringify(answers),
-          time_taken: timeTaken
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
+      const attempt = await submitAnswers();
       onComplete(attempt.id);
     } catch (error) {
       console.error('Error auto-submitting quiz:', error);
+
+      // The attempt may already have been closed, e.g. by a submit from another tab
+      if (attemptId) {
+        const { data } = await supabase.from('quiz_attempts').select('status').eq('id', attemptId).maybeSingle();
+        if (data?.status === 'completed') {
+          onComplete(attemptId);
+          return;
+        }
+      }
+
+      setAutoSubmitError(error instanceof Error ? error.message : 'Failed to submit quiz. Please try again.');
     }
   };
+  autoSubmitRef.current = handleAutoSubmit;
 
   const goToQuestion = (index: number) => {
     setCurrentQuestion(index);
-    setSelectedAnswer(answers[index]?.selected_answer ?? null);
     setShowReview(false);
+    persistProgress(answers, index);
   };
 
   const formatTime = (seconds: number) => {
@@ -256,19 +433,80 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
     );
   }
 
+  if (practiceResult) {
+    const percentage = Math.round(getAttemptPercentage({
+      score: practiceResult.correct_count,
+      total_questions: practiceResult.total_questions,
+      earned_points: practiceResult.earned_points,
+      max_points: practiceResult.max_points,
+    }));
+
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center px-4">
+        <div className="bg-gray-800 rounded-2xl shadow-2xl p-8 border border-gray-700 text-center max-w-md w-full">
+          <Dumbbell className="w-16 h-16 text-blue-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-white mb-2">Practice Complete</h2>
+          <p className="text-5xl font-bold text-white mb-2">{percentage}%</p>
+          <p className="text-gray-400 mb-1">
+            {formatPoints(Number(practiceResult.earned_points))} of {formatPoints(Number(practiceResult.max_points))} points
+          </p>
+          <p className="text-gray-400 mb-6">
+            {practiceResult.correct_count} of {practiceResult.total_questions} correct on the last try
+          </p>
+          <p className="text-xs text-gray-500 mb-6">Practice runs don't count toward your attempts or the leaderboard.</p>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <button
+              onClick={restartPractice}
+              className="flex items-center justify-center space-x-2 px-6 py-3 rounded-lg border border-gray-600 text-gray-300 hover:bg-gray-700 transition-colors min-h-[44px] touch-target"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Practice Again</span>
+            </button>
+            <button
+              onClick={() => onComplete()}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg transition-colors font-medium min-h-[44px] touch-target"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (timeUp) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
         <div className="text-center">
           <AlertTriangle className="w-20 h-20 text-red-500 mx-auto mb-6" />
           <h2 className="text-3xl font-bold text-white mb-4">Time's Up!</h2>
-          <p className="text-gray-400 mb-8 text-lg">Your quiz has been automatically submitted.</p>
-          <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto" />
+          {autoSubmitError ? (
+            <>
+              <p className="text-gray-400 mb-2 text-lg">Your answers could not be submitted.</p>
+              <p className="text-red-400 mb-8 text-sm">{autoSubmitError}</p>
+              <button
+                onClick={handleAutoSubmit}
+                disabled={submitAttempt.isPending}
+                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-6 py-3 rounded-lg transition-colors font-medium min-h-[44px] touch-target inline-flex items-center space-x-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                <span>{submitAttempt.isPending ? 'Submitting...' : 'Try Again'}</span>
+              </button>
+            </>
+          ) : (
+            <>
+              <p className="text-gray-400 mb-8 text-lg">Your quiz is being submitted automatically.</p>
+              <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto" />
+            </>
+          )}
         </div>
       </div>
     );
   }
 
+  const answeredCount = answers.filter(hasResponse).length;
+  const flaggedCount = answers.filter(answer => answer?.flagged).length;
+
   if (showReview) {
     return (
       <div className="min-h-screen bg-gray-900">
@@ -283,11 +521,16 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
             </button>
             
             <button
-              onClick={handleSubmit}
-              className="bg-green-600 hover:bg-green-700 text-white px-6 sm:px-8 py-3 rounded-lg flex items-center space-x-2 transition-colors font-medium min-h-[44px] touch-target w-full sm:w-auto justify-center"
+              onClick={isPractice ? finishPracticeRun : handleSubmit}
+              disabled={submitAttempt.isPending || finishPractice.isPending}
+              className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-6 sm:px-8 py-3 rounded-lg flex items-center space-x-2 transition-colors font-medium min-h-[44px] touch-target w-full sm:w-auto justify-center"
             >
               <CheckCircle className="w-5 h-5" />
-              <span className="text-sm sm:text-base">Submit Quiz</span>
+              <span className="text-sm sm:text-base">
+                {submitAttempt.isPending || finishPractice.isPending
+                  ? 'Submitting...'
+                  : isPractice ? 'Finish Practice' : 'Submit Quiz'}
+              </span>
             </button>
           </div>
 
@@ -297,38 +540,51 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
               <p className="text-gray-400">Make sure you're satisfied with your responses before submitting</p>
             </div>
             
-            <div className="grid grid-cols-5 md:grid-cols-10 gap-3 mb-8">
+            <div className="grid grid-cols-5 md:grid-cols-10 gap-3 mb-4">
               {questions.map((_, index) => {
-                const answer = answers[index];
+                const answered = hasResponse(answers[index]);
+                const flagged = !!answers[index]?.flagged;
                 return (
                   <button
                     key={index}
                     onClick={() => goToQuestion(index)}
-                    className={`aspect-square rounded-lg text-sm font-bold transition-all hover:scale-105 ${
-                      answer
+                    aria-label={`Question ${index + 1}: ${answered ? 'answered' : 'unanswered'}${flagged ? ', flagged for review' : ''}`}
+                    className={`relative aspect-square rounded-lg text-sm font-bold transition-all hover:scale-105 ${
+                      flagged
+                        ? 'bg-amber-500 text-gray-900 shadow-lg'
+                        : answered
                         ? 'bg-blue-500 text-white shadow-lg'
                         : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
                     }`}
                   >
                     {index + 1}
+                    {flagged && answered && (
+                      <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-blue-700" />
+                    )}
                   </button>
                 );
               })}
             </div>
 
+            <div className="flex flex-wrap items-center justify-center gap-4 text-xs text-gray-400 mb-8">
+              <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-blue-500" />Answered</span>
+              <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-gray-600" />Unanswered</span>
+              <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-amber-500" />Flagged for review</span>
+            </div>
+
             <div className="bg-gray-700 rounded-xl p-6 text-center">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <div>
-                  <p className="text-2xl font-bold text-white">{answers.length}</p>
+                  <p className="text-2xl font-bold text-white">{answeredCount}</p>
                   <p className="text-gray-400">Questions Answered</p>
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-white">{questions.length - answers.length}</p>
+                  <p className="text-2xl font-bold text-white">{questions.length - answeredCount}</p>
                   <p className="text-gray-400">Questions Remaining</p>
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-white">{Math.round((answers.length / questions.length) * 100)}%</p>
-                  <p className="text-gray-400">Completion</p>
+                  <p className="text-2xl font-bold text-white">{flaggedCount}</p>
+                  <p className="text-gray-400">Flagged for Review</p>
                 </div>
               </div>
             </div>
@@ -351,6 +607,7 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
   }
   
   const progress = ((currentQuestion + 1) / questions.length) * 100;
+  const currentFeedback = feedback[question.id];
 
   return (
     <div className="min-h-screen bg-gray-900">
@@ -367,9 +624,9 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
           <div className="flex items-center space-x-3">
             <Clock className="w-5 h-5 text-gray-400" />
             <span className={`font-mono text-base sm:text-lg ${
-              quiz.time_limit && timeRemaining < 300 ? 'text-red-400' : 'text-gray-300'
+              hasCountdown && timeRemaining < 300 ? 'text-red-400' : 'text-gray-300'
             }`}>
-              {quiz.time_limit ? (
+              {hasCountdown ? (
                 formatTime(timeRemaining)
               ) : (
                 formatTime(Math.floor((Date.now() - timeStarted) / 1000))
@@ -395,7 +652,7 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
                   timeRemaining < 300 ? 'bg-red-500' : 'bg-green-500'
                 }`}
                 initial={{ width: '100%' }}
-                animate={{ width: `${(timeRemaining / (quiz.time_limit * 60)) * 100}%` }}
+                animate={{ width: `${Math.min(timeRemaining / (quiz.time_limit * 60), 1) * 100}%` }}
                 transition={{ duration: 0.5 }}
               />
             </div>
@@ -406,6 +663,12 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
               <div>
                 <h1 className="text-lg sm:text-xl lg:text-2xl font-bold text-white">{quiz.title}</h1>
                 <p className="text-gray-400 mt-1 text-sm sm:text-base">{quiz.category}</p>
+                {resumed && (
+                  <p className="flex items-center text-xs sm:text-sm text-blue-300 mt-2">
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Resumed from your saved progress
+                  </p>
+                )}
               </div>
               <div className="text-left sm:text-right">
                 <p className="text-sm text-gray-500">Question</p>
@@ -416,42 +679,35 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
             </div>
 
             <div className="mb-6 sm:mb-8">
-              <h2 className="text-lg sm:text-xl font-semibold text-white leading-relaxed mb-6 sm:mb-8">
-                {question.question}
-              </h2>
+              <RichText
+                content={question.question}
+                className="block text-lg sm:text-xl font-semibold text-white leading-relaxed mb-6 sm:mb-8"
+              />
+
+              <QuestionImage
+                key={`image-${question.id}`}
+                path={question.image_path}
+                alt={`Illustration for question ${currentQuestion + 1}`}
+                className="-mt-2 mb-6 sm:mb-8"
+              />
               
-              <div className="space-y-3 sm:space-y-4">
-                {question.options.map((option: string, index: number) => (
-                  <motion.button
-                    key={index}
-                    onClick={() => handleAnswerSelect(index)}
-                    whileHover={{ scale: 1.01 }}
-                    whileTap={{ scale: 0.99 }}
-                    className={`w-full p-4 sm:p-6 text-left rounded-xl border-2 transition-all min-h-[56px] touch-target ${
-                      selectedAnswer === index
-                        ? 'border-blue-500 bg-blue-900/30 shadow-lg'
-                        : 'border-gray-600 bg-gray-700 hover:border-gray-500 hover:bg-gray-600'
-                    }`}
-                  >
-                    <div className="flex items-center space-x-3 sm:space-x-4">
-                      <div className={`w-5 h-5 sm:w-6 sm:h-6 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${
-                        selectedAnswer === index
-                          ? 'border-blue-500 bg-blue-500'
-                          : 'border-gray-400'
-                      }`}>
-                        {selectedAnswer === index && (
-                          <div className="w-2 h-2 bg-white rounded-full" />
-                        )}
-                      </div>
-                      <span className={`text-base sm:text-lg ${
-                        selectedAnswer === index ? 'text-blue-300 font-medium' : 'text-gray-300'
-                      }`}>
-                        {option}
-                      </span>
-                    </div>
-                  </motion.button>
-                ))}
-              </div>
+              <QuestionResponseInput
+                key={question.id}
+                question={question}
+                displayedOptions={getDisplayedOptions<string>(
+                  (question.type === 'matching' ? question.match_options : question.options) ?? [],
+                  optionOrder,
+                  question.id
+                )}
+                displayedOptionImages={getDisplayedOptions(question.option_images ?? [], optionOrder, question.id)}
+                response={answers[currentQuestion]}
+                onChange={handleResponseChange}
+                disabled={!!currentFeedback}
+              />
+
+              {currentFeedback && (
+                <PracticeFeedbackPanel question={question} feedback={currentFeedback} />
+              )}
             </div>
 
             <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between pt-6 border-t border-gray-700 gap-4">
@@ -473,14 +729,81 @@ export const QuizTaker: React.FC<QuizTakerProps> = ({ quiz, onBack, onComplete,
                 </button>
               </div>
               
-              <button
-                onClick={handleNext}
-                disabled={selectedAnswer === null}
-                className="flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-6 sm:px-8 py-3 rounded-lg transition-colors font-medium min-h-[44px] touch-target"
-              >
-                <span className="text-sm sm:text-base">{currentQuestion === questions.length - 1 ? 'Finish Quiz' : 'Next Question'}</span>
-                <ChevronRight className="w-4 h-4" />
-              </button>
+              <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3">
+                {isPractice ? (
+                  currentFeedback ? (
+                    <>
+                      {!currentFeedback.is_correct && (
+                        <button
+                          onClick={handleRetry}
+                          className="flex items-center justify-center space-x-2 px-4 py-3 rounded-lg border border-gray-600 text-gray-300 hover:bg-gray-700 transition-colors min-h-[44px] touch-target"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          <span className="text-sm sm:text-base">Try Again</span>
+                        </button>
+                      )}
+                      <button
+                        onClick={moveForward}
+                        disabled={finishPractice.isPending}
+                        className="flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-6 sm:px-8 py-3 rounded-lg transition-colors font-medium min-h-[44px] touch-target"
+                      >
+                        <span className="text-sm sm:text-base">{currentQuestion === questions.length - 1 ? 'Finish Practice' : 'Next Question'}</span>
+                        <ChevronRight className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : hasResponse(answers[currentQuestion]) ? (
+                    <button
+                      onClick={handleCheckAnswer}
+                      disabled={checkPracticeAnswer.isPending}
+                      className="flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-6 sm:px-8 py-3 rounded-lg transition-colors font-medium min-h-[44px] touch-target"
+                    >
+                      <CheckCircle className="w-4 h-4" />
+                      <span className="text-sm sm:text-base">{checkPracticeAnswer.isPending ? 'Checking...' : 'Check Answer'}</span>
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleSkip}
+                      className="flex items-center justify-center space-x-2 bg-gray-600 hover:bg-gray-500 text-white px-6 sm:px-8 py-3 rounded-lg transition-colors font-medium min-h-[44px] touch-target"
+                    >
+                      <span className="text-sm sm:text-base">{currentQuestion === questions.length - 1 ? 'Skip & Finish' : 'Skip'}</span>
+                      <SkipForward className="w-4 h-4" />
+                    </button>
+                  )
+                ) : (
+                  <>
+                    <button
+                      onClick={toggleFlag}
+                      aria-pressed={!!answers[currentQuestion]?.flagged}
+                      className={`flex items-center justify-center space-x-2 px-4 py-3 rounded-lg border transition-colors min-h-[44px] touch-target ${
+                        answers[currentQuestion]?.flagged
+                          ? 'border-amber-500 bg-amber-500/20 text-amber-300'
+                          : 'border-gray-600 text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      <Flag className="w-4 h-4" />
+                      <span className="text-sm sm:text-base">{answers[currentQuestion]?.flagged ? 'Flagged' : 'Flag for Review'}</span>
+                    </button>
+
+                    {hasResponse(answers[currentQuestion]) ? (
+                      <button
+                        onClick={handleNext}
+                        className="flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-6 sm:px-8 py-3 rounded-lg transition-colors font-medium min-h-[44px] touch-target"
+                      >
+                        <span className="text-sm sm:text-base">{currentQuestion === questions.length - 1 ? 'Finish Quiz' : 'Next Question'}</span>
+                        <ChevronRight className="w-4 h-4" />
+                      </button>
+                    ) : (
+                      <button
+                        onClick={handleSkip}
+                        className="flex items-center justify-center space-x-2 bg-gray-600 hover:bg-gray-500 text-white px-6 sm:px-8 py-3 rounded-lg transition-colors font-medium min-h-[44px] touch-target"
+                      >
+                        <span className="text-sm sm:text-base">{currentQuestion === questions.length - 1 ? 'Skip & Finish' : 'Skip'}</span>
+                        <SkipForward className="w-4 h-4" />
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, History, Users, BookOpen, Plus, Minus, PenLine, Settings } from 'lucide-react';
+import { useQuizVersions } from '../hooks/useQueries';
+import { diffQuizVersions } from '../utils/quizVersions';
+import { RichText } from './questions/RichText';
+
+interface QuizVersionHistoryProps {
+  quizId: string;
+  onBack: () => void;
+}
+
+// Saved versions of a quiz and what changed in each one
+export const QuizVersionHistory: React.FC<QuizVersionHistoryProps> = ({ quizId, onBack }) => {
+  const { data: versions = [], isLoading, error } = useQuizVersions(quizId);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selectedIndex = Math.max(0, versions.findIndex(version => version.id === selectedId));
+  const selected = versions[selectedIndex];
+  const previous = versions[selectedIndex + 1] ?? null;
+
+  const diff = useMemo(() => (selected ? diffQuizVersions(selected, previous) : null), [selected, previous]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-red-400">Failed to load version history. Please try again.</p>
+      </div>
+    );
+  }
+
+  const hasChanges = !!diff && (diff.added.length + diff.removed.length + diff.changed.length + diff.settings.length) > 0;
+
+  return (
+    <div className="space-y-6">
+      <button
+        onClick={onBack}
+        className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span>Back to Quizzes</span>
+      </button>
+
+      <div className="flex items-center space-x-3">
+        <History className="w-6 h-6 text-blue-400" />
+        <h3 className="text-xl font-semibold text-white">
+          Version History{selected ? ` — ${selected.settings.title ?? ''}` : ''}
+        </h3>
+      </div>
+
+      {versions.length === 0 ? (
+        <div className="text-center py-12 bg-gray-800 rounded-xl border border-gray-700">
+          <p className="text-gray-400">No versions have been saved for this quiz yet.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            {versions.map((version, index) => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedId(version.id)}
+                className={`w-full text-left p-4 rounded-xl border transition-colors ${
+                  version.id === selected?.id
+                    ? 'bg-blue-900/30 border-blue-600'
+                    : 'bg-gray-800 border-gray-700 hover:border-gray-600'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-white font-medium">Version {version.version_number}</span>
+                  {index === 0 && (
+                    <span className="text-xs bg-green-900/40 text-green-300 px-2 py-0.5 rounded">Current</span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-xs text-gray-400">
+                  <span>{new Date(version.created_at).toLocaleString()}</span>
+                  <span className="flex items-center"><BookOpen className="w-3 h-3 mr-1" />{version.questions.length} questions</span>
+                  <span className="flex items-center"><Users className="w-3 h-3 mr-1" />{version.attempt_count} attempts</span>
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selected && diff && (
+            <motion.div
+              key={selected.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="lg:col-span-2 bg-gray-800 rounded-xl p-6 border border-gray-700 space-y-6"
+            >
+              <p className="text-sm text-gray-400">
+                {previous
+                  ? `Changes from version ${previous.version_number} to version ${selected.version_number}`
+                  : 'First saved version of this quiz'}
+              </p>
+
+              {previous && !hasChanges && (
+                <p className="text-gray-400">No changes to questions or settings.</p>
+              )}
+
+              {diff.settings.length > 0 && (
+                <div>
+                  <h4 className="flex items-center text-white font-medium mb-3">
+                    <Settings className="w-4 h-4 mr-2 text-gray-400" />
+                    Settings
+                  </h4>
+                  <div className="space-y-2">
+                    {diff.settings.map(change => (
+                      <div key={change.label} className="text-sm bg-gray-700/50 rounded-lg p-3">
+                        <span className="text-gray-300">{change.label}: </span>
+                        <span className="text-red-300 line-through">{change.from || '—'}</span>
+                        <span className="text-gray-500"> → </span>
+                        <span className="text-green-300">{change.to || '—'}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {diff.added.length > 0 && (
+                <div>
+                  <h4 className="flex items-center text-white font-medium mb-3">
+                    <Plus className="w-4 h-4 mr-2 text-green-400" />
+                    {previous ? 'Added' : 'Questions'} ({diff.added.length})
+                  </h4>
+                  <div className="space-y-2">
+                    {diff.added.map(question => (
+                      <div key={question.id} className="text-sm text-gray-200 bg-green-900/20 border border-green-800 rounded-lg p-3">
+                        <RichText content={question.question} inline />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {diff.removed.length > 0 && (
+                <div>
+                  <h4 className="flex items-center text-white font-medium mb-3">
+                    <Minus className="w-4 h-4 mr-2 text-red-400" />
+                    Removed ({diff.removed.length})
+                  </h4>
+                  <div className="space-y-2">
+                    {diff.removed.map(question => (
+                      <div key={question.id} className="text-sm text-gray-300 bg-red-900/20 border border-red-800 rounded-lg p-3">
+                        <RichText content={question.question} inline />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {diff.changed.length > 0 && (
+                <div>
+                  <h4 className="flex items-center text-white font-medium mb-3">
+                    <PenLine className="w-4 h-4 mr-2 text-yellow-400" />
+                    Changed ({diff.changed.length})
+                  </h4>
+                  <div className="space-y-2">
+                    {diff.changed.map(({ question, fields }) => (
+                      <div key={question.id} className="text-sm bg-yellow-900/20 border border-yellow-800 rounded-lg p-3">
+                        <div className="text-gray-200">
+                          <RichText content={question.question} inline />
+                        </div>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {fields.map(field => (
+                            <span key={field} className="text-xs bg-gray-700 text-yellow-200 px-2 py-0.5 rounded">{field}</span>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </motion.div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
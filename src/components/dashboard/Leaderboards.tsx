@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Trophy, Medal, Award, Crown, ChevronDown, Users, Target } from 'lucide-react';
 import { useQuizzes, useQuizResults } from '../../hooks/useQueries';
+import { getAttemptPercentage } from '../../utils/scoring';
 
 export const Leaderboards: React.FC = () => {
   const [selectedQuizId, setSelectedQuizId] = useState<string>('');
@@ -46,15 +47,10 @@ export const Leaderboards: React.FC = () => {
       const userId = attempt.user_id || attempt.userId;
       const currentBest = userScores.get(userId);
       
-      // Calculate percentage score safely
-      const score = typeof attempt.score === 'number' 
-        ? attempt.score 
-        : parseFloat(attempt.score) || 0;
+      // Share of the points the attempt offered
+      const percentage = getAttemptPercentage(attempt);
       
-      const totalQuestions = attempt.total_questions || attempt.totalQuestions || 10;
-      const percentage = totalQuestions > 0 ? (score / totalQuestions) * 100 : 0;
-      
-      if (!currentBest || percentage > currentBest.percentage) {
+      if (!currentBest || Math.round(percentage) > currentBest.score) {
         userScores.set(userId, {
           userId,
           username: attempt.users?.username || attempt.username || 'Anonymous',
@@ -0,0 +1,72 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bell, X, ExternalLink } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications, useMarkNotificationRead } from '../../hooks/useQueries';
+import { QuizAttempt, UserNotification } from '../../types';
+
+interface NotificationsProps {
+  onViewResults: (attempt: QuizAttempt) => void;
+}
+
+// Unread notices, such as a result that changed after a regrade
+export const Notifications: React.FC<NotificationsProps> = ({ onViewResults }) => {
+  const { user } = useAuth();
+  const { data: notifications = [] } = useNotifications(user?.id || '');
+  const markRead = useMarkNotificationRead();
+
+  const dismiss = (notification: UserNotification) => {
+    markRead.mutate(notification, {
+      onError: (error) => console.error('Error dismissing notification:', error),
+    });
+  };
+
+  const open = (notification: UserNotification) => {
+    dismiss(notification);
+    if (notification.attempt_id) {
+      onViewResults({ id: notification.attempt_id } as QuizAttempt);
+    }
+  };
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="space-y-3 mb-6">
+      <AnimatePresence initial={false}>
+        {notifications.map(notification => (
+          <motion.div
+            key={notification.id}
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, height: 0 }}
+            className="flex items-start justify-between gap-4 bg-blue-900/30 border border-blue-700 rounded-lg p-4"
+          >
+            <div className="flex items-start space-x-3">
+              <Bell className="w-5 h-5 text-blue-300 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-semibold text-white">{notification.title}</p>
+                <p className="text-sm text-gray-300">{notification.message}</p>
+                {notification.attempt_id && (
+                  <button
+                    onClick={() => open(notification)}
+                    className="mt-2 text-sm text-blue-300 hover:text-blue-200 flex items-center space-x-1"
+                  >
+                    <span>View result</span>
+                    <ExternalLink className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+            <button
+              onClick={() => dismiss(notification)}
+              className="text-gray-400 hover:text-white transition-colors"
+              aria-label="Dismiss notification"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { motion } from 'framer-motion';
 import { TrendingUp, TrendingDown, Target, BarChart3, Award, AlertTriangle } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useUserAttempts } from '../../hooks/useQueries';
+import { getAttemptPercentage } from '../../utils/scoring';
 
 interface CategoryPerformance {
   category: string;
@@ -32,7 +33,7 @@ export const PerformanceAnalysis: React.FC = () => {
     const categoryPerformance: CategoryPerformance[] = [];
     
     categoryMap.forEach((attempts, category) => {
-      const scores = attempts.map(a => a.score || 0);
+      const scores = attempts.map(a => Math.round(getAttemptPercentage(a)));
       
       // Safety check for empty arrays
       if (scores.length === 0) return;
@@ -45,8 +46,8 @@ export const PerformanceAnalysis: React.FC = () => {
         const sortedByDate = attempts.sort((a, b) => 
           new Date(b.completed_at).getTime() - new Date(a.completed_at).getTime()
         );
-        const recentScores = sortedByDate.slice(0, 3).map(a => a.score || 0);
-        const olderScores = sortedByDate.slice(3, 6).map(a => a.score || 0);
+        const recentScores = sortedByDate.slice(0, 3).map(a => Math.round(getAttemptPercentage(a)));
+        const olderScores = sortedByDate.slice(3, 6).map(a => Math.round(getAttemptPercentage(a)));
         
         // Safety check for division
         if (recentScores.length > 0 && olderScores.length > 0) {
@@ -1,19 +1,74 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Play, Search, BookOpen, Clock, Users, Filter } from 'lucide-react';
-import { Quiz } from '../../types';
-import { useQuizzes } from '../../hooks/useQueries';
+import { Play, Search, BookOpen, Clock, Users, Filter, RotateCcw, CalendarClock, Dumbbell } from 'lucide-react';
+import { Quiz, QuizAttempt } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { useQuizzes, useInProgressAttempts, usePracticeHistory, useUserAttempts } from '../../hooks/useQueries';
+import { canPracticeQuiz, getQuizAvailability, isHardDeadline, isQuizPublished } from '../../utils/quizAvailability';
+import { getAttemptPercentage } from '../../utils/scoring';
 
 interface QuizBrowserProps {
   onTakeQuiz?: (quiz: Quiz) => void;
+  onPracticeQuiz?: (quiz: Quiz) => void;
 }
 
-export const QuizBrowser: React.FC<QuizBrowserProps> = ({ onTakeQuiz }) => {
+export const QuizBrowser: React.FC<QuizBrowserProps> = ({ onTakeQuiz, onPracticeQuiz }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
   const [sortBy, setSortBy] = useState('latest');
   
+  const { user } = useAuth();
   const { data: quizzes, isLoading } = useQuizzes();
+  const { data: inProgressAttempts = [] } = useInProgressAttempts(user?.id || '');
+  const { data: practiceHistory = [] } = usePracticeHistory(user?.id || '');
+  const { data: completedAttempts = [] } = useUserAttempts(user?.id || '');
+
+  // Open attempts keyed by quiz so each card can offer to resume
+  const inProgressByQuiz = React.useMemo(() => {
+    return new Map<string, QuizAttempt>(inProgressAttempts.map(attempt => [attempt.quiz_id, attempt]));
+  }, [inProgressAttempts]);
+
+  // Graded attempts already submitted, per quiz
+  const completedByQuiz = React.useMemo(() => {
+    const counts = new Map<string, number>();
+    completedAttempts.forEach(attempt => counts.set(attempt.quiz_id, (counts.get(attempt.quiz_id) ?? 0) + 1));
+    return counts;
+  }, [completedAttempts]);
+
+  const canPractice = React.useCallback((quiz: Quiz, now: Date = new Date()) => {
+    return !!onPracticeQuiz && canPracticeQuiz(quiz, completedByQuiz.get(quiz.id) ?? 0, inProgressByQuiz.has(quiz.id), now);
+  }, [onPracticeQuiz, completedByQuiz, inProgressByQuiz]);
+
+  // Number of finished practice runs and the best one, per quiz
+  const practiceByQuiz = React.useMemo(() => {
+    const summary = new Map<string, { runs: number; best: number }>();
+    practiceHistory.forEach(run => {
+      const percentage = Math.round(getAttemptPercentage({
+        score: run.correct_count,
+        total_questions: run.total_questions,
+        earned_points: run.earned_points,
+        max_points: run.max_points,
+      }));
+      const current = summary.get(run.quiz_id);
+      summary.set(run.quiz_id, {
+        runs: (current?.runs ?? 0) + 1,
+        best: Math.max(current?.best ?? 0, percentage),
+      });
+    });
+    return summary;
+  }, [practiceHistory]);
+
+  const getMinutesLeft = (quiz: Quiz, attempt: QuizAttempt) => {
+    const deadlines: number[] = [];
+    if (quiz.time_limit && attempt.started_at) {
+      deadlines.push(new Date(attempt.started_at).getTime() + quiz.time_limit * 60 * 1000);
+    }
+    if (isHardDeadline(quiz)) {
+      deadlines.push(new Date(quiz.end_time!).getTime());
+    }
+    if (deadlines.length === 0) return null;
+    return Math.max(Math.ceil((Math.min(...deadlines) - Date.now()) / 60000), 0);
+  };
 
   // Filter and sort quizzes
   const filteredQuizzes = React.useMemo(() => {
@@ -35,11 +90,13 @@ export const QuizBrowser: React.FC<QuizBrowserProps> = ({ onTakeQuiz }) => {
       filtered = filtered.filter(quiz => quiz.category === selectedCategory);
     }
 
-    // Filter by availability (start time)
+    // Filter by status and availability window; open attempts stay listed so they can be finished,
+    // and closed quizzes stay listed while they can be practised
     const now = new Date();
-    filtered = filtered.filter((quiz: any) => {
-      const quizStartTime = quiz.start_time ? new Date(quiz.start_time) : null;
-      return !quizStartTime || now >= quizStartTime;
+    filtered = filtered.filter(quiz => {
+      if (inProgressByQuiz.has(quiz.id)) return true;
+      const availability = getQuizAvailability(quiz, now);
+      return isQuizPublished(quiz) && (availability === 'open' || availability === 'late' || canPractice(quiz, now));
     });
 
     // Sort
@@ -57,12 +114,12 @@ export const QuizBrowser: React.FC<QuizBrowserProps> = ({ onTakeQuiz }) => {
     }
 
     return filtered;
-  }, [quizzes, searchTerm, selectedCategory, sortBy]);
+  }, [quizzes, searchTerm, selectedCategory, sortBy, inProgressByQuiz, canPractice]);
 
   // Get unique categories
   const categories = React.useMemo(() => {
     if (!quizzes) return [];
-    return [...new Set(quizzes.map((quiz: any) => quiz.category))];
+    return [...new Set(quizzes.filter(isQuizPublished).map((quiz: any) => quiz.category))];
   }, [quizzes]);
 
   if (isLoading) {
@@ -165,56 +222,112 @@ export const QuizBrowser: React.FC<QuizBrowserProps> = ({ onTakeQuiz }) => {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredQuizzes.map((quiz: any, index: number) => (
-            <motion.div
-              key={quiz.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: index * 0.1 }}
-              className="bg-gray-700/50 hover:bg-gray-700/70 rounded-lg p-6 transition-all group"
-            >
-              <div className="mb-4">
-                <div className="flex items-center justify-between mb-2">
-                  <span className="bg-blue-600/20 text-blue-400 px-2 py-1 rounded-full text-xs">
-                    {quiz.category}
-                  </span>
-                  <div className="flex items-center space-x-1 text-gray-400">
-                    <Users className="w-4 h-4" />
-                    <span className="text-xs">{quiz.users?.username}</span>
+          {filteredQuizzes.map((quiz: any, index: number) => {
+            const openAttempt = inProgressByQuiz.get(quiz.id);
+            const minutesLeft = openAttempt ? getMinutesLeft(quiz, openAttempt) : null;
+            const practice = practiceByQuiz.get(quiz.id);
+            const availability = getQuizAvailability(quiz);
+
+            return (
+              <motion.div
+                key={quiz.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.1 }}
+                className="bg-gray-700/50 hover:bg-gray-700/70 rounded-lg p-6 transition-all group"
+              >
+                <div className="mb-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="bg-blue-600/20 text-blue-400 px-2 py-1 rounded-full text-xs">
+                      {quiz.category}
+                    </span>
+                    <div className="flex items-center space-x-1 text-gray-400">
+                      <Users className="w-4 h-4" />
+                      <span className="text-xs">{quiz.users?.username}</span>
+                    </div>
                   </div>
-                </div>
                 
-                <h3 className="text-lg font-semibold text-white mb-2 group-hover:text-blue-400 transition-colors">
-                  {quiz.title}
-                </h3>
+                  <h3 className="text-lg font-semibold text-white mb-2 group-hover:text-blue-400 transition-colors">
+                    {quiz.title}
+                  </h3>
                 
-                <p className="text-gray-400 text-sm mb-4 line-clamp-2">
-                  {quiz.description}
-                </p>
-              </div>
-
-              <div className="flex items-center justify-between text-sm text-gray-400 mb-4">
-                <div className="flex items-center space-x-1">
-                  <BookOpen className="w-4 h-4" />
-                  <span>{quiz.questions?.[0]?.count || 0} questions</span>
+                  <p className="text-gray-400 text-sm mb-4 line-clamp-2">
+                    {quiz.description}
+                  </p>
                 </div>
-                {quiz.time_limit && (
+
+                <div className="flex items-center justify-between text-sm text-gray-400 mb-4">
                   <div className="flex items-center space-x-1">
-                    <Clock className="w-4 h-4" />
-                    <span>{quiz.time_limit} min</span>
+                    <BookOpen className="w-4 h-4" />
+                    <span>{quiz.pool_size || quiz.questions?.[0]?.count || 0} questions</span>
+                  </div>
+                  {quiz.time_limit && (
+                    <div className="flex items-center space-x-1">
+                      <Clock className="w-4 h-4" />
+                      <span>{quiz.time_limit} min</span>
+                    </div>
+                  )}
+                </div>
+
+                {quiz.end_time && (
+                  <div className="flex items-center space-x-1 text-xs mb-4">
+                    <CalendarClock className="w-4 h-4 text-gray-400" />
+                    {availability === 'late' ? (
+                      <span className="text-yellow-400">
+                        Closed {new Date(quiz.end_time).toLocaleString()} • late submissions
+                        {quiz.late_policy === 'penalty' && <> (-{quiz.late_penalty_percent}%)</>}
+                      </span>
+                    ) : availability === 'closed' ? (
+                      <span className="text-gray-400">Closed {new Date(quiz.end_time).toLocaleString()} • practice only</span>
+                    ) : (
+                      <span className="text-gray-400">Closes {new Date(quiz.end_time).toLocaleString()}</span>
+                    )}
                   </div>
                 )}
-              </div>
 
-              <button
-                onClick={() => onTakeQuiz?.(quiz)}
-                className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-all transform hover:scale-105"
-              >
-                <Play className="w-4 h-4" />
-                <span>Take Quiz</span>
-              </button>
-            </motion.div>
-          ))}
+                {openAttempt ? (
+                  <div className="space-y-2">
+                    <p className="text-xs text-blue-300 text-center">
+                      In progress: question {(openAttempt.current_question ?? 0) + 1} of {openAttempt.total_questions}
+                      {minutesLeft !== null && <> • {minutesLeft} min left</>}
+                    </p>
+                    <button
+                      onClick={() => onTakeQuiz?.(quiz)}
+                      className="w-full bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-all transform hover:scale-105"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Resume Quiz</span>
+                    </button>
+                  </div>
+                ) : availability !== 'closed' && (
+                  <button
+                    onClick={() => onTakeQuiz?.(quiz)}
+                    className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-all transform hover:scale-105"
+                  >
+                    <Play className="w-4 h-4" />
+                    <span>Take Quiz</span>
+                  </button>
+                )}
+
+                {onPracticeQuiz && canPractice(quiz) && (
+                  <div className={availability === 'closed' ? '' : 'mt-2'}>
+                    <button
+                      onClick={() => onPracticeQuiz(quiz)}
+                      className="w-full border border-gray-600 hover:bg-gray-600/50 text-gray-300 px-4 py-2 rounded-lg flex items-center justify-center space-x-2 transition-colors"
+                    >
+                      <Dumbbell className="w-4 h-4" />
+                      <span>Practice</span>
+                    </button>
+                    {practice && (
+                      <p className="text-xs text-gray-500 text-center mt-1">
+                        Practised {practice.runs} {practice.runs === 1 ? 'time' : 'times'} • best {practice.best}%
+                      </p>
+                    )}
+                  </div>
+                )}
+              </motion.div>
+            );
+          })}
         </div>
       )}
     </div>
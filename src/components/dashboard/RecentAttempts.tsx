@@ -4,6 +4,7 @@ import { Calendar, Trophy, Clock, ExternalLink, TrendingUp, TrendingDown } from
 import { useAuth } from '../../contexts/AuthContext';
 import { useUserAttempts } from '../../hooks/useQueries';
 import { QuizAttempt } from '../../types';
+import { getAttemptPercentage } from '../../utils/scoring';
 
 interface RecentAttemptsProps {
   onViewResults: (attempt: QuizAttempt) => void;
@@ -87,10 +88,10 @@ export const RecentAttempts: React.FC<RecentAttemptsProps> = ({ onViewResults })
 
       <div className="space-y-4">
         {userAttempts.map((attempt: any, index: number) => {
-          // Safely calculate score percentage
+          // Share of the points the attempt offered
           const totalQuestions = attempt.total_questions || 10;
           const score = attempt.score || 0;
-          const percentage = totalQuestions > 0 ? Math.round((score / totalQuestions) * 100) : 0;
+          const percentage = Math.round(getAttemptPercentage(attempt));
           const ScoreIcon = getScoreIcon(percentage);
           
           return (
@@ -4,3 +4,4 @@ export { RecentAttempts } from './RecentAttempts';
 export { PerformanceAnalysis } from './PerformanceAnalysis';
 export { Leaderboards } from './Leaderboards';
 export { QuizBrowser } from './QuizBrowser';
+export { Notifications } from './Notifications';
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Reorder, useDragControls } from 'framer-motion';
+import { ChevronDown, ChevronUp, GripVertical } from 'lucide-react';
+import { RichText } from './RichText';
+
+interface ArrangeableListProps {
+  items: string[];
+  // Indices into items, in the order they are currently arranged
+  order: number[];
+  onReorder: (order: number[]) => void;
+  // Used in the move buttons' labels, e.g. "item" or "match"
+  itemLabel?: string;
+  disabled?: boolean;
+}
+
+interface ArrangeableItemProps {
+  value: number;
+  text: string;
+  position: number;
+  count: number;
+  itemLabel: string;
+  disabled: boolean;
+  onMove: (from: number, to: number) => void;
+}
+
+// One row: dragged by its handle only, so the rest of the row still scrolls on touch screens
+const ArrangeableItem: React.FC<ArrangeableItemProps> = ({ value, text, position, count, itemLabel, disabled, onMove }) => {
+  const controls = useDragControls();
+
+  return (
+    <Reorder.Item
+      value={value}
+      dragListener={false}
+      dragControls={controls}
+      className="flex items-center gap-2 sm:gap-3 p-3 sm:p-4 min-h-[64px] rounded-xl border-2 border-gray-600 bg-gray-700 select-none"
+    >
+      <button
+        type="button"
+        onPointerDown={(e) => !disabled && controls.start(e)}
+        disabled={disabled}
+        style={{ touchAction: 'none' }}
+        className="p-1 text-gray-400 hover:text-white cursor-grab active:cursor-grabbing disabled:cursor-not-allowed disabled:opacity-30 touch-target"
+        aria-label={`Drag ${itemLabel} ${position + 1}`}
+        tabIndex={-1}
+      >
+        <GripVertical className="w-5 h-5" />
+      </button>
+      <span className="w-6 h-6 flex-shrink-0 rounded-full bg-gray-600 text-xs text-gray-200 flex items-center justify-center">
+        {position + 1}
+      </span>
+      <RichText content={text} inline className="flex-1 text-base sm:text-lg text-gray-200" />
+      <div className="flex flex-col">
+        <button
+          type="button"
+          onClick={() => onMove(position, position - 1)}
+          disabled={disabled || position === 0}
+          className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+          aria-label={`Move ${itemLabel} ${position + 1} up`}
+        >
+          <ChevronUp className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onMove(position, position + 1)}
+          disabled={disabled || position === count - 1}
+          className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+          aria-label={`Move ${itemLabel} ${position + 1} down`}
+        >
+          <ChevronDown className="w-4 h-4" />
+        </button>
+      </div>
+    </Reorder.Item>
+  );
+};
+
+// Vertical list the student rearranges by dragging the handle (mouse or touch)
+// or with the up/down buttons (keyboard)
+export const ArrangeableList: React.FC<ArrangeableListProps> = ({ items, order, onReorder, itemLabel = 'item', disabled = false }) => {
+  const handleMove = (from: number, to: number) => {
+    if (to < 0 || to >= order.length) return;
+    const next = [...order];
+    [next[from], next[to]] = [next[to], next[from]];
+    onReorder(next);
+  };
+
+  return (
+    <Reorder.Group as="ol" axis="y" values={order} onReorder={onReorder} className="space-y-3">
+      {order.map((value, position) => (
+        <ArrangeableItem
+          key={value}
+          value={value}
+          text={items[value]}
+          position={position}
+          count={order.length}
+          itemLabel={itemLabel}
+          disabled={disabled}
+          onMove={handleMove}
+        />
+      ))}
+    </Reorder.Group>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useRef } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import { ACCEPTED_MEDIA_TYPES, isLocalMedia, validateMediaFile } from '../../utils/questionMedia';
+import { QuestionImage } from './QuestionImage';
+
+interface MediaPickerProps {
+  value: string | null | undefined;
+  onChange: (value: string | null) => void;
+  // Used in the button labels, e.g. "question" or "option 2"
+  label: string;
+  // Smaller thumbnail and button, for options
+  compact?: boolean;
+}
+
+// Attach, preview and remove an image while authoring. Picked files stay in
+// memory until the quiz is saved.
+export const MediaPicker: React.FC<MediaPickerProps> = ({ value, onChange, label, compact = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const error = validateMediaFile(file);
+    if (error) {
+      alert(error);
+      return;
+    }
+
+    if (isLocalMedia(value)) URL.revokeObjectURL(value);
+    onChange(URL.createObjectURL(file));
+  };
+
+  const handleRemove = () => {
+    if (isLocalMedia(value)) URL.revokeObjectURL(value);
+    onChange(null);
+  };
+
+  return (
+    <div className={compact ? '' : 'space-y-2'}>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_MEDIA_TYPES.join(',')}
+        onChange={handleFile}
+        className="hidden"
+      />
+      {value ? (
+        <div className="relative inline-block">
+          <QuestionImage path={value} alt={`Image for ${label}`} className={compact ? '!max-h-24' : '!max-h-48'} />
+          <button
+            type="button"
+            onClick={handleRemove}
+            className="absolute top-1 right-1 p-1 rounded-full bg-gray-900/80 text-gray-300 hover:text-red-400 transition-colors"
+            aria-label={`Remove image from ${label}`}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          className={`${compact ? 'text-xs' : 'text-sm'} text-blue-400 hover:text-blue-300 flex items-center space-x-1`}
+          aria-label={`Add image to ${label}`}
+        >
+          <ImagePlus className="w-4 h-4" />
+          <span>Add image</span>
+        </button>
+      )}
+    </div>
+  );
+};
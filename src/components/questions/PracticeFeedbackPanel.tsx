@@ -0,0 +1,77 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { CheckCircle, XCircle, Lightbulb, ExternalLink } from 'lucide-react';
+import { PracticeFeedback, Question } from '../../types';
+import { describeCorrectAnswer } from '../../utils/questionTypes';
+import { RichText } from './RichText';
+
+interface PracticeFeedbackPanelProps {
+  question: Question;
+  feedback: PracticeFeedback;
+}
+
+// Verdict, expected answer and explanation shown after a practice answer is checked
+export const PracticeFeedbackPanel: React.FC<PracticeFeedbackPanelProps> = ({ question, feedback }) => {
+  const partial = !feedback.is_correct && feedback.credit > 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      role="status"
+      className={`mt-6 p-4 sm:p-5 rounded-xl border ${
+        feedback.is_correct
+          ? 'border-green-500 bg-green-900/20'
+          : partial
+          ? 'border-yellow-500 bg-yellow-900/20'
+          : 'border-red-500 bg-red-900/20'
+      }`}
+    >
+      <div className="flex items-center space-x-2 mb-3">
+        {feedback.is_correct ? (
+          <CheckCircle className="w-5 h-5 text-green-400" />
+        ) : (
+          <XCircle className={`w-5 h-5 ${partial ? 'text-yellow-400' : 'text-red-400'}`} />
+        )}
+        <span className={`font-semibold ${
+          feedback.is_correct ? 'text-green-300' : partial ? 'text-yellow-300' : 'text-red-300'
+        }`}>
+          {feedback.is_correct
+            ? 'Correct!'
+            : partial
+            ? `Partially correct (${Math.round(feedback.credit * 100)}%)`
+            : 'Not quite'}
+        </span>
+        {feedback.tries > 1 && (
+          <span className="text-xs text-gray-400">Try {feedback.tries}</span>
+        )}
+      </div>
+
+      {!feedback.is_correct && (
+        <p className="text-sm text-gray-300 mb-3">
+          <span className="text-gray-400">Correct answer: </span>
+          <RichText content={describeCorrectAnswer({ ...question, ...feedback.answer_key })} inline />
+        </p>
+      )}
+
+      {feedback.explanation && (
+        <div className="flex items-start space-x-2 text-sm text-gray-300">
+          <Lightbulb className="w-4 h-4 text-yellow-400 mt-0.5 flex-shrink-0" />
+          <RichText content={feedback.explanation} className="flex-1 min-w-0" />
+        </div>
+      )}
+
+      {feedback.reference_url && (
+        <a
+          href={feedback.reference_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-2 inline-flex items-center space-x-1 text-sm text-blue-400 hover:text-blue-300"
+        >
+          <ExternalLink className="w-4 h-4" />
+          <span>Learn more</span>
+        </a>
+      )}
+    </motion.div>
+  );
+};
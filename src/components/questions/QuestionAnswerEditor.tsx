@@ -0,0 +1,380 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { QuestionType } from '../../types';
+import {
+  QuestionDraft,
+  QUESTION_TYPE_LABELS,
+  MIN_OPTIONS,
+  MAX_OPTIONS,
+  changeQuestionType,
+  getQuestionType,
+  supportsOptionImages,
+} from '../../utils/questionTypes';
+import { RichTextPreview } from './RichText';
+import { MediaPicker } from './MediaPicker';
+
+interface QuestionAnswerEditorProps {
+  question: QuestionDraft;
+  onChange: (question: QuestionDraft) => void;
+}
+
+const inputClassName = 'w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Type picker plus the answer fields for the chosen type, explanation and reference link
+export const QuestionAnswerEditor: React.FC<QuestionAnswerEditorProps> = ({ question, onChange }) => {
+  const type = getQuestionType(question);
+
+  const updateOption = (optionIndex: number, value: string) => {
+    const options = [...question.options];
+    options[optionIndex] = value;
+    onChange({ ...question, options });
+  };
+
+  const addOption = () => {
+    onChange({
+      ...question,
+      options: [...question.options, ''],
+      match_options: type === 'matching' ? [...(question.match_options ?? []), ''] : question.match_options,
+      option_images: question.option_images ? [...question.option_images, null] : question.option_images,
+    });
+  };
+
+  const updateOptionImage = (optionIndex: number, value: string | null) => {
+    const optionImages = question.options.map((_, i) => question.option_images?.[i] ?? null);
+    optionImages[optionIndex] = value;
+    onChange({ ...question, option_images: optionImages });
+  };
+
+  const updateMatchOption = (optionIndex: number, value: string) => {
+    const matchOptions = [...(question.match_options ?? [])];
+    matchOptions[optionIndex] = value;
+    onChange({ ...question, match_options: matchOptions });
+  };
+
+  // Keeps the answer key pointing at the same options after one is removed
+  const removeOption = (optionIndex: number) => {
+    const shift = (index: number) => (index > optionIndex ? index - 1 : index);
+    onChange({
+      ...question,
+      options: question.options.filter((_, i) => i !== optionIndex),
+      match_options: question.match_options?.filter((_, i) => i !== optionIndex) ?? null,
+      option_images: question.option_images?.filter((_, i) => i !== optionIndex) ?? null,
+      correct_answer: question.correct_answer === optionIndex ? 0 : shift(question.correct_answer),
+      correct_answers: question.correct_answers
+        ?.filter(index => index !== optionIndex)
+        .map(shift) ?? null,
+    });
+  };
+
+  const toggleCorrect = (optionIndex: number) => {
+    if (type === 'multi_select') {
+      const current = question.correct_answers ?? [];
+      onChange({
+        ...question,
+        correct_answers: current.includes(optionIndex)
+          ? current.filter(index => index !== optionIndex)
+          : [...current, optionIndex],
+      });
+    } else {
+      onChange({ ...question, correct_answer: optionIndex });
+    }
+  };
+
+  const isCorrect = (optionIndex: number) => {
+    return type === 'multi_select'
+      ? (question.correct_answers ?? []).includes(optionIndex)
+      : question.correct_answer === optionIndex;
+  };
+
+  const updateAcceptedAnswer = (answerIndex: number, value: string) => {
+    const accepted = [...(question.accepted_answers ?? [])];
+    accepted[answerIndex] = value;
+    onChange({ ...question, accepted_answers: accepted });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Question Type</label>
+          <select
+            value={type}
+            onChange={(e) => onChange(changeQuestionType(question, e.target.value as QuestionType))}
+            className={inputClassName}
+          >
+            {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(questionType => (
+              <option key={questionType} value={questionType}>{QUESTION_TYPE_LABELS[questionType]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Points</label>
+          <input
+            type="number"
+            step="0.5"
+            min="0.5"
+            value={question.points ?? 1}
+            onChange={(e) => onChange({ ...question, points: parseFloat(e.target.value) || 0 })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {(type === 'single_choice' || type === 'multi_select' || type === 'true_false') && (
+        <div>
+          {type === 'multi_select' && (
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-2">
+              <p className="text-xs text-gray-500">
+                {question.partial_credit
+                  ? 'Mark every correct option. Each correct pick earns a share; each wrong pick cancels one.'
+                  : 'Mark every correct option. Students must pick all of them.'}
+              </p>
+              <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!question.partial_credit}
+                  onChange={(e) => onChange({ ...question, partial_credit: e.target.checked })}
+                  className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Partial credit</span>
+              </label>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {question.options.map((option, optionIndex) => (
+              <div key={optionIndex}>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Option {optionIndex + 1}
+                  {isCorrect(optionIndex) && (
+                    <span className="text-green-400 ml-2">(Correct)</span>
+                  )}
+                </label>
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => updateOption(optionIndex, e.target.value)}
+                    disabled={type === 'true_false'}
+                    className={`flex-1 ${inputClassName} disabled:opacity-75`}
+                    placeholder={`Option ${optionIndex + 1}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => toggleCorrect(optionIndex)}
+                    className={`px-3 py-2 rounded-lg transition-colors ${
+                      isCorrect(optionIndex)
+                        ? 'bg-green-600 text-white'
+                        : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                    }`}
+                  >
+                    ✓
+                  </button>
+                  {type !== 'true_false' && question.options.length > MIN_OPTIONS && (
+                    <button
+                      type="button"
+                      onClick={() => removeOption(optionIndex)}
+                      className="px-2 text-gray-400 hover:text-red-400 transition-colors"
+                      aria-label={`Remove option ${optionIndex + 1}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <RichTextPreview content={option} inline />
+                {supportsOptionImages(type) && (
+                  <div className="mt-2">
+                    <MediaPicker
+                      value={question.option_images?.[optionIndex]}
+                      onChange={(value) => updateOptionImage(optionIndex, value)}
+                      label={`option ${optionIndex + 1}`}
+                      compact
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {type !== 'true_false' && question.options.length < MAX_OPTIONS && (
+            <button
+              type="button"
+              onClick={addOption}
+              className="mt-3 text-sm text-blue-400 hover:text-blue-300 flex items-center space-x-1"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add option</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {(type === 'ordering' || type === 'matching') && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">
+            {type === 'ordering'
+              ? 'Enter the items in the correct order. Students see them shuffled.'
+              : 'Enter each item with its match. Students see the matches shuffled.'}
+          </p>
+          {question.options.map((option, optionIndex) => (
+            <div key={optionIndex} className="flex items-center space-x-2">
+              <span className="w-6 text-sm text-gray-400 text-right">{optionIndex + 1}.</span>
+              <input
+                type="text"
+                value={option}
+                onChange={(e) => updateOption(optionIndex, e.target.value)}
+                className={`flex-1 ${inputClassName}`}
+                placeholder={`Item ${optionIndex + 1}`}
+              />
+              {type === 'matching' && (
+                <>
+                  <span className="text-gray-500">→</span>
+                  <input
+                    type="text"
+                    value={question.match_options?.[optionIndex] ?? ''}
+                    onChange={(e) => updateMatchOption(optionIndex, e.target.value)}
+                    className={`flex-1 ${inputClassName}`}
+                    placeholder={`Match ${optionIndex + 1}`}
+                  />
+                </>
+              )}
+              {question.options.length > MIN_OPTIONS && (
+                <button
+                  type="button"
+                  onClick={() => removeOption(optionIndex)}
+                  className="px-2 text-gray-400 hover:text-red-400 transition-colors"
+                  aria-label={`Remove ${type === 'ordering' ? 'item' : 'pair'} ${optionIndex + 1}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            {question.options.length < MAX_OPTIONS ? (
+              <button
+                type="button"
+                onClick={addOption}
+                className="text-sm text-blue-400 hover:text-blue-300 flex items-center space-x-1"
+              >
+                <Plus className="w-4 h-4" />
+                <span>{type === 'ordering' ? 'Add item' : 'Add pair'}</span>
+              </button>
+            ) : <span />}
+            <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!question.partial_credit}
+                onChange={(e) => onChange({ ...question, partial_credit: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Partial credit for each {type === 'ordering' ? 'correct position' : 'correct pair'}</span>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {type === 'short_text' && (
+        <div className="space-y-3">
+          <label className="block text-sm font-medium text-gray-300">Accepted Answers</label>
+          {(question.accepted_answers ?? []).map((answer, answerIndex) => (
+            <div key={answerIndex} className="flex space-x-2">
+              <input
+                type="text"
+                value={answer}
+                onChange={(e) => updateAcceptedAnswer(answerIndex, e.target.value)}
+                className={`flex-1 ${inputClassName}`}
+                placeholder={answerIndex === 0 ? 'Expected answer' : 'Also accept'}
+              />
+              {(question.accepted_answers ?? []).length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onChange({
+                    ...question,
+                    accepted_answers: (question.accepted_answers ?? []).filter((_, i) => i !== answerIndex),
+                  })}
+                  className="px-2 text-gray-400 hover:text-red-400 transition-colors"
+                  aria-label={`Remove accepted answer ${answerIndex + 1}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <button
+              type="button"
+              onClick={() => onChange({ ...question, accepted_answers: [...(question.accepted_answers ?? []), ''] })}
+              className="text-sm text-blue-400 hover:text-blue-300 flex items-center space-x-1"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add variant</span>
+            </button>
+            <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!question.case_sensitive}
+                onChange={(e) => onChange({ ...question, case_sensitive: e.target.checked })}
+                className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Case-sensitive</span>
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">Extra spaces are ignored when comparing answers.</p>
+        </div>
+      )}
+
+      {type === 'numeric' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Correct Value</label>
+            <input
+              type="number"
+              step="any"
+              value={question.numeric_answer ?? ''}
+              onChange={(e) => onChange({
+                ...question,
+                numeric_answer: e.target.value === '' ? null : parseFloat(e.target.value),
+              })}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Tolerance (±)</label>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={question.numeric_tolerance ?? 0}
+              onChange={(e) => onChange({ ...question, numeric_tolerance: Math.max(parseFloat(e.target.value) || 0, 0) })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-4 border-t border-gray-700">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Explanation (Optional)</label>
+          <textarea
+            value={question.explanation ?? ''}
+            onChange={(e) => onChange({ ...question, explanation: e.target.value })}
+            className={inputClassName}
+            rows={3}
+            placeholder="Why is this the right answer? Markdown is supported."
+          />
+          <RichTextPreview content={question.explanation} />
+          <p className="text-xs text-gray-500 mt-1">Shown after answering in practice mode and in the detailed results.</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Reference Link (Optional)</label>
+          <input
+            type="url"
+            value={question.reference_url ?? ''}
+            onChange={(e) => onChange({ ...question, reference_url: e.target.value })}
+            className={inputClassName}
+            placeholder="https://"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { ImageOff } from 'lucide-react';
+import { useQuestionMediaUrl } from '../../hooks/useQueries';
+import { isLocalMedia } from '../../utils/questionMedia';
+
+interface QuestionImageProps {
+  path: string | null | undefined;
+  alt: string;
+  className?: string;
+}
+
+// Image attached to a question stem or option. Stored images are loaded
+// through a signed URL; images picked but not yet uploaded show from memory.
+export const QuestionImage: React.FC<QuestionImageProps> = ({ path, alt, className = '' }) => {
+  const local = isLocalMedia(path);
+  const { data: signedUrl, isError } = useQuestionMediaUrl(path, { enabled: !local });
+  const src = local ? path : signedUrl;
+
+  if (!path) return null;
+
+  if (isError) {
+    return (
+      <div className={`flex items-center space-x-2 text-xs text-gray-500 ${className}`}>
+        <ImageOff className="w-4 h-4" />
+        <span>Image unavailable</span>
+      </div>
+    );
+  }
+
+  if (!src) {
+    return <div className={`bg-gray-700/50 rounded-lg animate-pulse h-32 ${className}`} />;
+  }
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      loading="lazy"
+      decoding="async"
+      className={`max-h-80 max-w-full rounded-lg border border-gray-600 object-contain ${className}`}
+    />
+  );
+};
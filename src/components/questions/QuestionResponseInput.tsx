@@ -0,0 +1,174 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Check } from 'lucide-react';
+import { QuestionType } from '../../types';
+import { QuestionResponse, getQuestionType } from '../../utils/questionTypes';
+import { ArrangeableList } from './ArrangeableList';
+import { RichText } from './RichText';
+import { QuestionImage } from './QuestionImage';
+
+interface QuestionResponseInputProps {
+  question: { id: string; type?: QuestionType; options: string[] };
+  // Options in the order this attempt shows them; for matching, the right-hand items
+  displayedOptions: string[];
+  // Images for displayedOptions, in the same order, for choice questions
+  displayedOptionImages?: (string | null)[];
+  response: QuestionResponse | undefined;
+  onChange: (response: QuestionResponse) => void;
+  // Locks the answer, e.g. while practice feedback is shown
+  disabled?: boolean;
+}
+
+// Answer controls for one question while a quiz is being taken. Option indices
+// are positions in displayedOptions; the server maps them back when grading.
+// Ordering and matching answers list those positions in the arranged order.
+export const QuestionResponseInput: React.FC<QuestionResponseInputProps> = ({
+  question,
+  displayedOptions,
+  displayedOptionImages = [],
+  response,
+  onChange,
+  disabled = false,
+}) => {
+  const type = getQuestionType(question);
+
+  if (type === 'short_text' || type === 'numeric') {
+    return (
+      <div>
+        <input
+          type="text"
+          inputMode={type === 'numeric' ? 'decimal' : 'text'}
+          value={response?.text_answer ?? ''}
+          onChange={(e) => onChange({ text_answer: e.target.value })}
+          disabled={disabled}
+          className="w-full p-4 sm:p-5 bg-gray-700 border-2 border-gray-600 rounded-xl text-white text-base sm:text-lg focus:outline-none focus:border-blue-500 disabled:opacity-75"
+          placeholder={type === 'numeric' ? 'Enter a number' : 'Type your answer'}
+          autoComplete="off"
+        />
+        {type === 'numeric' && (
+          <p className="text-xs text-gray-500 mt-2">Use a dot for decimals, e.g. 3.14</p>
+        )}
+      </div>
+    );
+  }
+
+  if (type === 'ordering' || type === 'matching') {
+    const arranged = response?.selected_answers?.length === displayedOptions.length;
+    const order = arranged ? response!.selected_answers! : displayedOptions.map((_, i) => i);
+    const handleReorder = (next: number[]) => onChange({ selected_answers: next });
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-400">
+          {type === 'ordering'
+            ? 'Drag the items, or use the arrow buttons, to put them in the right order.'
+            : 'Drag the items on the right, or use the arrow buttons, so each one sits next to its match.'}
+        </p>
+        {type === 'ordering' ? (
+          <ArrangeableList items={displayedOptions} order={order} onReorder={handleReorder} disabled={disabled} />
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:gap-4">
+            <ol className="space-y-3">
+              {question.options.map((option, index) => (
+                <li
+                  key={index}
+                  className="flex items-center gap-2 sm:gap-3 p-3 sm:p-4 min-h-[64px] rounded-xl border-2 border-gray-700 bg-gray-800"
+                >
+                  <span className="w-6 h-6 flex-shrink-0 rounded-full bg-blue-600 text-xs text-white flex items-center justify-center">
+                    {index + 1}
+                  </span>
+                  <RichText content={option} inline className="text-base sm:text-lg text-gray-200" />
+                </li>
+              ))}
+            </ol>
+            <ArrangeableList
+              items={displayedOptions}
+              order={order}
+              onReorder={handleReorder}
+              itemLabel="match"
+              disabled={disabled}
+            />
+          </div>
+        )}
+        {!arranged && !disabled && (
+          <button
+            type="button"
+            onClick={() => handleReorder(order)}
+            className="px-4 py-2 rounded-lg border border-gray-600 text-sm text-gray-300 hover:bg-gray-700 transition-colors"
+          >
+            {type === 'ordering' ? 'Keep this order' : 'Confirm matches'}
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const multiple = type === 'multi_select';
+  const selected = multiple
+    ? response?.selected_answers ?? []
+    : response?.selected_answer !== undefined && response?.selected_answer !== null ? [response.selected_answer] : [];
+
+  const handleSelect = (index: number) => {
+    if (multiple) {
+      onChange({
+        selected_answers: selected.includes(index)
+          ? selected.filter(i => i !== index)
+          : [...selected, index].sort((a, b) => a - b),
+      });
+    } else {
+      onChange({ selected_answer: index });
+    }
+  };
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      {multiple && (
+        <p className="text-sm text-gray-400">Select all that apply.</p>
+      )}
+      {displayedOptions.map((option, index) => {
+        const isSelected = selected.includes(index);
+        return (
+          <motion.button
+            key={index}
+            onClick={() => handleSelect(index)}
+            disabled={disabled}
+            whileHover={disabled ? undefined : { scale: 1.01 }}
+            whileTap={disabled ? undefined : { scale: 0.99 }}
+            role={multiple ? 'checkbox' : 'radio'}
+            aria-checked={isSelected}
+            className={`w-full p-4 sm:p-6 text-left rounded-xl border-2 transition-all min-h-[56px] touch-target disabled:cursor-default ${
+              isSelected
+                ? 'border-blue-500 bg-blue-900/30 shadow-lg'
+                : 'border-gray-600 bg-gray-700 hover:border-gray-500 hover:bg-gray-600'
+            }`}
+          >
+            <div className="flex items-center space-x-3 sm:space-x-4">
+              <div className={`w-5 h-5 sm:w-6 sm:h-6 border-2 flex items-center justify-center flex-shrink-0 ${
+                multiple ? 'rounded' : 'rounded-full'
+              } ${
+                isSelected
+                  ? 'border-blue-500 bg-blue-500'
+                  : 'border-gray-400'
+              }`}>
+                {isSelected && (multiple
+                  ? <Check className="w-3 h-3 text-white" />
+                  : <div className="w-2 h-2 bg-white rounded-full" />
+                )}
+              </div>
+              <RichText
+                content={option}
+                inline
+                className={`text-base sm:text-lg ${isSelected ? 'text-blue-300 font-medium' : 'text-gray-300'}`}
+              />
+            </div>
+            <QuestionImage
+              path={displayedOptionImages[index]}
+              alt={`Image for option ${index + 1}`}
+              className="mt-3 sm:ml-10 !max-h-48"
+            />
+          </motion.button>
+        );
+      })}
+    </div>
+  );
+};
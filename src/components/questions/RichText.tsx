@@ -0,0 +1,41 @@
+import React, { useMemo } from 'react';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/atom-one-dark.css';
+import { renderRichText, hasRichText } from '../../utils/richText';
+
+interface RichTextProps {
+  content: string | null | undefined;
+  // Renders without paragraphs, for options, table cells and other short text
+  inline?: boolean;
+  className?: string;
+}
+
+// Markdown, code and math for question stems, options and explanations
+export const RichText: React.FC<RichTextProps> = ({ content, inline = false, className = '' }) => {
+  const html = useMemo(() => renderRichText(content ?? '', inline), [content, inline]);
+  const Tag = inline ? 'span' : 'div';
+
+  return (
+    <Tag
+      className={`rich-text ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+interface RichTextPreviewProps {
+  content: string | null | undefined;
+  inline?: boolean;
+}
+
+// Live preview under an authoring field, shown once the text uses markdown or math
+export const RichTextPreview: React.FC<RichTextPreviewProps> = ({ content, inline = false }) => {
+  if (!hasRichText(content)) return null;
+
+  return (
+    <div className="mt-2 p-3 rounded-lg border border-dashed border-gray-600 bg-gray-900/40">
+      <span className="block text-xs text-gray-500 mb-1">Preview</span>
+      <RichText content={content} inline={inline} className="text-gray-200" />
+    </div>
+  );
+};
@@ -0,0 +1,7 @@
+// Question type components
+export { QuestionAnswerEditor } from './QuestionAnswerEditor';
+export { QuestionResponseInput } from './QuestionResponseInput';
+export { ArrangeableList } from './ArrangeableList';
+export { RichText, RichTextPreview } from './RichText';
+export { QuestionImage } from './QuestionImage';
+export { MediaPicker } from './MediaPicker';
@@ -23,7 +23,7 @@ export const usePrefetch = () => {
               description,
               created_at,
               created_by,
-              questions (count),
+              questions:questions_public (count),
               users (username)
             `)
             .order('created_at', { ascending: false });
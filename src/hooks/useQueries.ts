@@ -1,6 +1,9 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
-import { User } from '../types';
+import { User, Quiz, QuizStatus, QuizAttempt, QuizVersion, QuizRegrade, QuizRegradeAttempt, UserNotification, SubmittedAnswer, PracticeAttempt, PracticeFeedback, BankQuestion, BankQuestionStats } from '../types';
+import { getAttemptPercentage } from '../utils/scoring';
+import { QUESTION_MEDIA_BUCKET, releaseLocalMedia, uploadQuestionMedia } from '../utils/questionMedia';
+import { QuestionDraft, toQuestionRow } from '../utils/questionTypes';
 
 // Query Keys - centralized for consistency
 export const QUERY_KEYS = {
@@ -9,10 +12,20 @@ export const QUERY_KEYS = {
   quizzes: ['quizzes'] as const,
   quiz: (id: string) => ['quizzes', id] as const,
   userQuizzes: (userId: string) => ['quizzes', 'user', userId] as const,
+  managedQuizzes: ['quizzes', 'managed'] as const,
+  quizVersions: (quizId: string) => ['quizzes', quizId, 'versions'] as const,
+  quizRegrades: (quizId: string) => ['quizzes', quizId, 'regrades'] as const,
+  questionBank: ['question-bank'] as const,
+  questionBankStats: ['question-bank', 'stats'] as const,
   quizAttempts: ['quiz-attempts'] as const,
   userAttempts: (userId: string) => ['quiz-attempts', 'user', userId] as const,
   userQuizAttempts: (userId: string, quizId: string) => ['quiz-attempts', 'user', userId, 'quiz', quizId] as const,
+  inProgressAttempts: (userId: string) => ['quiz-attempts', 'user', userId, 'in-progress'] as const,
+  attemptTimeRemaining: (attemptId: string) => ['quiz-attempts', attemptId, 'time-remaining'] as const,
   quizResults: (quizId: string) => ['quiz-attempts', 'quiz', quizId] as const,
+  practiceHistory: (userId: string) => ['practice-attempts', 'user', userId] as const,
+  notifications: (userId: string) => ['notifications', userId] as const,
+  questionMedia: (path: string) => ['question-media', path] as const,
   leaderboard: ['leaderboard'] as const,
   analytics: ['analytics'] as const,
 } as const;
@@ -116,6 +129,116 @@ export const useUserQuizzes = (userId: string) => {
   });
 };
 
+// Every quiz the admin can manage, with question and attempt counts
+export const useManagedQuizzes = () => {
+  return useQuery({
+    queryKey: QUERY_KEYS.managedQuizzes,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('quizzes')
+        .select(`
+          *,
+          questions (count),
+          quiz_attempts (count)
+        `)
+        .order('created_at', { ascending: false });
+      
+      if (error) throw error;
+      return (data || []).map(quiz => ({
+        ...quiz,
+        question_count: quiz.questions?.[0]?.count ?? 0,
+        attempt_count: quiz.quiz_attempts?.[0]?.count ?? 0,
+      })) as (Quiz & { question_count: number; attempt_count: number })[];
+    },
+    staleTime: 60 * 1000,
+  });
+};
+
+// Version history of a quiz, newest first, with the number of attempts taken on each
+export const useQuizVersions = (quizId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.quizVersions(quizId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('quiz_versions')
+        .select(`
+          *,
+          quiz_attempts (count)
+        `)
+        .eq('quiz_id', quizId)
+        .order('version_number', { ascending: false });
+      
+      if (error) throw error;
+      return (data || []).map(version => ({
+        ...version,
+        attempt_count: version.quiz_attempts?.[0]?.count ?? 0,
+      })) as (QuizVersion & { attempt_count: number })[];
+    },
+    enabled: !!quizId,
+    staleTime: 60 * 1000,
+  });
+};
+
+// Regrade audit for a quiz, newest first, with the attempts whose scores moved
+export const useQuizRegrades = (quizId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.quizRegrades(quizId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('quiz_regrades')
+        .select(`
+          *,
+          users:performed_by (username),
+          quiz_regrade_attempts (
+            *,
+            users:user_id (username)
+          )
+        `)
+        .eq('quiz_id', quizId)
+        .order('created_at', { ascending: false });
+      
+      if (error) throw error;
+      return (data || []) as (QuizRegrade & {
+        users: { username: string } | null;
+        quiz_regrade_attempts: (QuizRegradeAttempt & { users: { username: string } | null })[];
+      })[];
+    },
+    enabled: !!quizId,
+    staleTime: 60 * 1000,
+  });
+};
+
+// Every question in the shared bank, most recently edited first
+export const useQuestionBank = () => {
+  return useQuery({
+    queryKey: QUERY_KEYS.questionBank,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('question_bank')
+        .select('*')
+        .order('updated_at', { ascending: false });
+      
+      if (error) throw error;
+      return (data || []) as BankQuestion[];
+    },
+    staleTime: 60 * 1000,
+  });
+};
+
+// Item statistics per bank question, aggregated over every quiz that uses it
+export const useQuestionBankStats = () => {
+  return useQuery({
+    queryKey: QUERY_KEYS.questionBankStats,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_question_bank_stats');
+      
+      if (error) throw error;
+      return new Map(((data || []) as BankQuestionStats[]).map(stats => [stats.bank_question_id, stats]));
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
 // Quiz attempts and results
 export const useUserAttempts = (userId: string, options: { enabled?: boolean } = {}) => {
   return useQuery({
@@ -128,6 +251,7 @@ export const useUserAttempts = (userId: string, options: { enabled?: boolean } =
           quizzes (title, category)
         `)
         .eq('user_id', userId)
+        .eq('status', 'completed')
         .order('completed_at', { ascending: false });
       
       if (error) throw error;
@@ -148,6 +272,7 @@ export const useUserQuizAttempts = (userId: string, quizId: string) => {
         .select('*')
         .eq('user_id', userId)
         .eq('quiz_id', quizId)
+        .eq('status', 'completed')
         .order('completed_at', { ascending: false });
       
       if (error) throw error;
@@ -158,6 +283,46 @@ export const useUserQuizAttempts = (userId: string, quizId: string) => {
   });
 };
 
+// Open attempts the user can resume
+export const useInProgressAttempts = (userId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.inProgressAttempts(userId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('quiz_attempts')
+        .select('id, quiz_id, current_question, started_at, total_questions, answers')
+        .eq('user_id', userId)
+        .eq('status', 'in_progress');
+      
+      if (error) throw error;
+      return (data || []) as QuizAttempt[];
+    },
+    enabled: !!userId,
+    staleTime: 30 * 1000,
+  });
+};
+
+// Seconds left on a timed attempt according to the database clock (null when untimed).
+// Polled so a paused tab or a changed system clock cannot stretch the countdown.
+export const useAttemptTimeRemaining = (attemptId: string | null, options: { enabled?: boolean } = {}) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.attemptTimeRemaining(attemptId || ''),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_attempt_time_remaining', {
+        p_attempt_id: attemptId
+      });
+      
+      if (error) throw error;
+      return data as number | null;
+    },
+    enabled: !!attemptId && (options.enabled ?? true),
+    staleTime: 0,
+    gcTime: 0,
+    refetchInterval: 30 * 1000,
+    refetchOnWindowFocus: true,
+  });
+};
+
 export const useQuizResults = (quizId: string) => {
   return useQuery({
     queryKey: QUERY_KEYS.quizResults(quizId),
@@ -169,7 +334,8 @@ export const useQuizResults = (quizId: string) => {
           users (username)
         `)
         .eq('quiz_id', quizId)
-        .order('score', { ascending: false })
+        .eq('status', 'completed')
+        .order('percentage', { ascending: false })
         .limit(100); // Limit to top 100 results
       
       if (error) throw error;
@@ -181,6 +347,25 @@ export const useQuizResults = (quizId: string) => {
 };
 
 // Leaderboard - optimized with better caching
+// Signed URL for an image in the private question-media bucket
+export const useQuestionMediaUrl = (path: string | null | undefined, options: { enabled?: boolean } = {}) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.questionMedia(path || ''),
+    queryFn: async () => {
+      const { data, error } = await supabase.storage
+        .from(QUESTION_MEDIA_BUCKET)
+        .createSignedUrl(path!, 60 * 60);
+      
+      if (error) throw error;
+      return data.signedUrl;
+    },
+    enabled: !!path && options.enabled !== false,
+    staleTime: 50 * 60 * 1000, // Refresh before the hour-long signature expires
+    gcTime: 55 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+};
+
 export const useLeaderboard = () => {
   return useQuery({
     queryKey: QUERY_KEYS.leaderboard,
@@ -202,12 +387,15 @@ export const useLeaderboard = () => {
             user_id,
             score,
             total_questions,
+            earned_points,
+            max_points,
             quiz_id,
             time_taken,
             completed_at,
             users!inner (username)
           `)
-          .order('score', { ascending: false })
+          .eq('status', 'completed')
+          .order('percentage', { ascending: false })
           .order('completed_at', { ascending: false })
           .limit(200);
         
@@ -217,10 +405,10 @@ export const useLeaderboard = () => {
         
         fallbackData.forEach((attempt: any) => {
           const userId = attempt.user_id;
-          const percentage = (attempt.score / attempt.total_questions) * 100;
+          const percentage = getAttemptPercentage(attempt);
           const currentBest = userScoresMap.get(userId);
           
-          if (!currentBest || percentage > currentBest.percentage) {
+          if (!currentBest || percentage > currentBest.score) {
             userScoresMap.set(userId, {
               userId,
               username: attempt.users.username,
@@ -228,7 +416,9 @@ export const useLeaderboard = () => {
               quizId: attempt.quiz_id,
               completedAt: attempt.completed_at,
               totalQuestions: attempt.total_questions,
-              timeSpent: attempt.time_taken || 0
+              timeSpent: attempt.time_taken || 0,
+              earnedPoints: attempt.earned_points,
+              maxPoints: attempt.max_points
             });
           }
         });
@@ -258,9 +448,9 @@ export const useAnalytics = () => {
         supabase.from('quizzes').select('id, title, category, created_at'),
         supabase.from('users').select('id, created_at').neq('role', 'admin'),
         supabase.from('quiz_attempts').select(`
-          id, score, completed_at, quiz_id,
+          id, user_id, score, total_questions, earned_points, max_points, completed_at, quiz_id,
           quizzes (title, category)
-        `),
+        `).eq('status', 'completed'),
       ]);
 
       if (quizzesResult.error) throw quizzesResult.error;
@@ -306,20 +496,57 @@ export const useCreateQuiz = () => {
   });
 };
 
+// Opens a new in-progress attempt, or returns the one already open for this quiz
+export const useStartQuizAttempt = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (quizId: string) => {
+      const { data, error } = await supabase.rpc('start_quiz_attempt', {
+        p_quiz_id: quizId
+      });
+      
+      if (error) throw error;
+      return data as QuizAttempt;
+    },
+    retry: false,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.inProgressAttempts(data.user_id) });
+    },
+  });
+};
+
+// Autosave for an in-progress attempt
+export const useSaveAttemptProgress = () => {
+  return useMutation({
+    mutationFn: async ({ attemptId, answers, currentQuestion }: { attemptId: string; answers: SubmittedAnswer[]; currentQuestion: number }) => {
+      const { error } = await supabase.rpc('save_attempt_progress', {
+        p_attempt_id: attemptId,
+        p_answers: answers,
+        p_current_question: currentQuestion
+      });
+      
+      if (error) throw error;
+    },
+  });
+};
+
 export const useSubmitQuizAttempt = () => {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async (attemptData: any) => {
-      const { data, error } = await supabase
-        .from('quiz_attempts')
-        .insert([attemptData])
-        .select()
-        .single();
+    mutationFn: async ({ attemptId, answers }: { attemptId: string; answers: SubmittedAnswer[] }) => {
+      // Scoring and timing are computed inside the RPC, never on the client
+      const { data, error } = await supabase.rpc('submit_quiz_attempt', {
+        p_attempt_id: attemptId,
+        p_answers: answers
+      });
       
       if (error) throw error;
-      return data;
+      return data as QuizAttempt;
     },
+    // A retried submission could record a second attempt
+    retry: false,
     onSuccess: (data) => {
       // Smart cache invalidation - only invalidate what's necessary
       queryClient.invalidateQueries({ queryKey: QUERY_KEYS.userAttempts(data.user_id) });
@@ -328,7 +555,7 @@ export const useSubmitQuizAttempt = () => {
       
       // For leaderboard and analytics, use a more targeted approach
       // Only invalidate if this could potentially affect the top scores
-      if (data.score > 0) {
+      if (Number(data.earned_points) > 0) {
         queryClient.invalidateQueries({ queryKey: QUERY_KEYS.leaderboard });
         queryClient.invalidateQueries({ queryKey: QUERY_KEYS.analytics });
       }
@@ -336,6 +563,217 @@ export const useSubmitQuizAttempt = () => {
   });
 };
 
+// Publishes, unpublishes (back to draft) or archives a quiz
+export const useSetQuizStatus = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ quiz, status }: { quiz: Quiz; status: QuizStatus }) => {
+      // published_at keeps the first publication date
+      const changes: Partial<Quiz> = { status };
+      if (status === 'published' && !quiz.published_at) {
+        changes.published_at = new Date().toISOString();
+      }
+
+      const { data, error } = await supabase
+        .from('quizzes')
+        .update(changes)
+        .eq('id', quiz.id)
+        .select()
+        .single();
+      
+      if (error) throw error;
+      return data as Quiz;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quizzes });
+    },
+  });
+};
+
+// Recomputes completed attempts after an answer-key correction, for one
+// question or the whole quiz. Every cached score may have moved.
+export const useRegradeQuiz = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ quizId, questionId, notify }: { quizId: string; questionId: string | null; notify: boolean }) => {
+      const { data, error } = await supabase.rpc('regrade_quiz', {
+        p_quiz_id: quizId,
+        p_question_id: questionId,
+        p_notify: notify
+      });
+      
+      if (error) throw error;
+      return data as QuizRegrade;
+    },
+    retry: false,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quizAttempts });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quiz(data.quiz_id) });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.leaderboard });
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.analytics });
+    },
+  });
+};
+
+// Creates a bank question, or updates one and with it every quiz that uses it
+export const useSaveBankQuestion = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async ({ id, draft, tags, createdBy }: { id?: string; draft: QuestionDraft; tags: string[]; createdBy?: string }) => {
+      // Bank images live in their own folder, apart from any quiz
+      const [withMedia] = await uploadQuestionMedia('bank', [draft]);
+      releaseLocalMedia([draft]);
+      const row = { ...toQuestionRow(withMedia), tags };
+
+      const { data, error } = id
+        ? await supabase.from('question_bank').update(row).eq('id', id).select().single()
+        : await supabase.from('question_bank').insert([{ ...row, created_by: createdBy }]).select().single();
+      
+      if (error) throw error;
+      return data as BankQuestion;
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.questionBank });
+      if (id) {
+        queryClient.invalidateQueries({ queryKey: QUERY_KEYS.quizzes });
+      }
+    },
+  });
+};
+
+// Quizzes keep their copies of a deleted bank question, unlinked
+export const useDeleteBankQuestion = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (question: BankQuestion) => {
+      const { error } = await supabase
+        .from('question_bank')
+        .delete()
+        .eq('id', question.id);
+      
+      if (error) throw error;
+      return question;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.questionBank });
+    },
+  });
+};
+
+// Unread notifications for the signed-in user, newest first
+export const useNotifications = (userId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.notifications(userId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .is('read_at', null)
+        .order('created_at', { ascending: false })
+        .limit(20);
+      
+      if (error) throw error;
+      return (data || []) as UserNotification[];
+    },
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  });
+};
+
+export const useMarkNotificationRead = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (notification: UserNotification) => {
+      const { error } = await supabase
+        .from('user_notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', notification.id);
+      
+      if (error) throw error;
+      return notification;
+    },
+    onSuccess: (notification) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.notifications(notification.user_id) });
+    },
+  });
+};
+
+// Completed practice runs, newest first; kept apart from graded attempts
+export const usePracticeHistory = (userId: string) => {
+  return useQuery({
+    queryKey: QUERY_KEYS.practiceHistory(userId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('practice_attempts')
+        .select('id, quiz_id, correct_count, total_questions, earned_points, max_points, started_at, completed_at')
+        .eq('user_id', userId)
+        .not('completed_at', 'is', null)
+        .order('completed_at', { ascending: false });
+      
+      if (error) throw error;
+      return (data || []) as PracticeAttempt[];
+    },
+    enabled: !!userId,
+    staleTime: 2 * 60 * 1000,
+  });
+};
+
+export const useStartPracticeAttempt = () => {
+  return useMutation({
+    mutationFn: async (quizId: string) => {
+      const { data, error } = await supabase.rpc('start_practice_attempt', {
+        p_quiz_id: quizId
+      });
+      
+      if (error) throw error;
+      return data as PracticeAttempt;
+    },
+    retry: false,
+  });
+};
+
+// Grades one practice answer and reveals its answer key and explanation
+export const useCheckPracticeAnswer = () => {
+  return useMutation({
+    mutationFn: async ({ practiceId, answer }: { practiceId: string; answer: SubmittedAnswer }) => {
+      const { data, error } = await supabase.rpc('check_practice_answer', {
+        p_practice_id: practiceId,
+        p_question_id: answer.question_id,
+        p_answer: answer
+      });
+      
+      if (error) throw error;
+      return data as PracticeFeedback;
+    },
+    retry: false,
+  });
+};
+
+export const useFinishPracticeAttempt = () => {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (practiceId: string) => {
+      const { data, error } = await supabase.rpc('finish_practice_attempt', {
+        p_practice_id: practiceId
+      });
+      
+      if (error) throw error;
+      return data as PracticeAttempt;
+    },
+    retry: false,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.practiceHistory(data.user_id) });
+    },
+  });
+};
+
 export const useUpdateUserProfile = () => {
   const queryClient = useQueryClient();
   
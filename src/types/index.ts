@@ -17,38 +17,228 @@ export interface Quiz {
   time_limit?: number; // in minutes
   max_attempts?: number; // maximum attempts per user
   start_time?: string; // New: Timestamp when the quiz becomes available (ISO string)
+  end_time?: string | null; // Timestamp when the quiz closes (ISO string)
+  late_policy?: LatePolicy; // What happens to attempts after end_time
+  late_penalty_percent?: number; // Score reduction for late attempts under the 'penalty' policy
+  shuffle_questions?: boolean; // Each attempt sees the questions in its own order
+  shuffle_options?: boolean; // Each attempt sees the options in its own order
+  pool_size?: number | null; // Questions drawn per attempt; null uses the whole bank
+  pool_rules?: PoolRule[] | null; // Per-category draw, takes precedence over pool_size
+  negative_marking?: number; // Share of a question's points lost for a wrong answer, 0-1
+  status?: QuizStatus; // Only published quizzes can be browsed and taken
+  published_at?: string | null;
 }
 
+export type QuizStatus = 'draft' | 'published' | 'archived';
+
+export interface PoolRule {
+  category: string;
+  count: number;
+}
+
+export type LatePolicy = 'block' | 'allow_late' | 'penalty';
+
+export type QuestionType =
+  | 'single_choice'
+  | 'multi_select'
+  | 'true_false'
+  | 'short_text'
+  | 'numeric'
+  | 'ordering'
+  | 'matching';
+
 export interface Question {
   id: string;
   quiz_id: string;
   question: string;
   options: string[];
-  correct_answer: number;
+  correct_answer: number; // single_choice and true_false; 0 for other types
   category: string;
+  type?: QuestionType; // Defaults to single_choice
+  correct_answers?: number[] | null; // multi_select
+  accepted_answers?: string[] | null; // short_text
+  case_sensitive?: boolean; // short_text
+  numeric_answer?: number | null; // numeric
+  numeric_tolerance?: number; // numeric, allowed absolute difference
+  correct_order?: number[] | null; // ordering, option indices in the correct sequence
+  match_options?: string[] | null; // matching, right-hand items
+  correct_matches?: number[] | null; // matching, match_options index for each option
+  partial_credit?: boolean; // multi_select, ordering and matching, credit per correct pick, position or pair
+  points?: number; // Worth of a fully correct answer, defaults to 1
+  explanation?: string | null; // Markdown, why the answer is right, revealed after answering
+  reference_url?: string | null; // Optional further reading, revealed with the explanation
+  image_path?: string | null; // Stem image in the question-media bucket
+  option_images?: (string | null)[] | null; // single_choice and multi_select, parallel to options
+  bank_question_id?: string | null; // Question bank entry this row is a linked copy of
+}
+
+// Question in the shared bank, used by quizzes through linked questions rows
+export interface BankQuestion extends Omit<Question, 'quiz_id' | 'bank_question_id'> {
+  tags: string[];
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Item statistics of a bank question across every quiz that uses it
+export interface BankQuestionStats {
+  bank_question_id: string;
+  quiz_count: number;
+  answer_count: number; // Skipped answers are not counted
+  correct_count: number;
+  skipped_count: number;
+  average_credit: number | null; // 0-1
 }
 
 export interface QuizAttempt {
   id: string;
   user_id: string;
   quiz_id: string;
-  score: number;
+  score: number; // Fully correct answers
   total_questions: number;
+  earned_points?: number | null;
+  max_points?: number | null;
+  percentage?: number | null; // earned_points as a share of max_points, 0-100
   answers: UserAnswer[] | string;
   completed_at: string;
   time_taken: number;
+  status?: 'in_progress' | 'completed';
+  started_at?: string;
+  current_question?: number; // Saved position of an in-progress attempt
+  is_late?: boolean; // Submitted after the quiz's end_time
+  shuffle_seed?: number | null;
+  question_order?: string[] | null; // Question ids in the order they were shown
+  option_order?: Record<string, number[]> | null; // Displayed position -> canonical option index, per question
+  quiz_version_id?: string | null; // Snapshot of the quiz the attempt was taken and graded on
+}
+
+// Immutable snapshot of a quiz's questions and settings
+export interface QuizVersion {
+  id: string;
+  quiz_id: string;
+  version_number: number;
+  questions: Question[];
+  settings: QuizVersionSettings;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export type QuizVersionSettings = Partial<Pick<Quiz,
+  | 'title'
+  | 'description'
+  | 'category'
+  | 'time_limit'
+  | 'max_attempts'
+  | 'negative_marking'
+  | 'pool_size'
+  | 'pool_rules'
+  | 'shuffle_questions'
+  | 'shuffle_options'
+>>;
+
+// Audit record of a regrade_quiz run
+export interface QuizRegrade {
+  id: string;
+  quiz_id: string;
+  question_id?: string | null; // null when the whole quiz was regraded
+  performed_by?: string | null;
+  attempts_checked: number;
+  attempts_changed: number;
+  questions_skipped: number; // Options changed too much to carry the corrected key back
+  notified: boolean;
+  created_at: string;
+}
+
+export interface QuizRegradeAttempt {
+  regrade_id: string;
+  attempt_id: string;
+  user_id: string;
+  old_score: number;
+  new_score: number;
+  old_earned_points?: number | null;
+  new_earned_points?: number | null;
+  old_percentage?: number | null;
+  new_percentage?: number | null;
+}
+
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  title: string;
+  message: string;
+  attempt_id?: string | null;
+  read_at?: string | null;
+  created_at: string;
 }
 
 export interface UserAnswer {
   question_id: string;
-  selected_answer: number;
+  type?: QuestionType;
+  selected_answer?: number | null; // null when the question was skipped
+  selected_answers?: number[];
+  text_answer?: string;
   is_correct: boolean;
+  skipped?: boolean;
+  credit?: number; // 0-1, below 1 for partially correct answers
+  points?: number; // Points awarded, negative under negative marking
+  max_points?: number;
   category: string;
   question?: string;
   options?: string[];
   correct_answer?: number;
 }
 
+// Answer payload sent to submit_quiz_attempt; grading happens server-side
+export interface SubmittedAnswer {
+  question_id: string;
+  selected_answer?: number | null; // single_choice, true_false (displayed index)
+  selected_answers?: number[]; // multi_select, ordering, matching (displayed indices)
+  text_answer?: string; // short_text, numeric
+  flagged?: boolean; // Marked for review by the student
+}
+
+// Practice runs are kept apart from quiz_attempts and never count toward
+// max_attempts, leaderboards or analytics
+export interface PracticeAttempt {
+  id: string;
+  user_id: string;
+  quiz_id: string;
+  question_order: string[];
+  option_order?: Record<string, number[]> | null;
+  answers: PracticeAnswer[];
+  correct_count: number;
+  total_questions: number;
+  earned_points: number;
+  max_points: number;
+  started_at: string;
+  completed_at?: string | null;
+}
+
+export interface PracticeAnswer extends SubmittedAnswer {
+  credit: number;
+  is_correct: boolean;
+  tries: number;
+}
+
+// Returned by check_practice_answer once an answer is checked
+export interface PracticeFeedback {
+  credit: number;
+  is_correct: boolean;
+  tries: number;
+  answer_key: Partial<Pick<Question,
+    | 'correct_answer'
+    | 'correct_answers'
+    | 'accepted_answers'
+    | 'case_sensitive'
+    | 'numeric_answer'
+    | 'numeric_tolerance'
+    | 'correct_order'
+    | 'correct_matches'
+  >>;
+  explanation?: string | null;
+  reference_url?: string | null;
+}
+
 export interface CategoryPerformance {
   category: string;
   correct: number;
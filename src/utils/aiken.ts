@@ -0,0 +1,114 @@
+// Aiken, Moodle's plain-text format for single-choice questions:
+//
+//   What is the capital of France?
+//   A. Berlin
+//   B) Paris
+//   ANSWER: B
+//
+// Questions are separated by their ANSWER line; the format has no categories,
+// feedback or images.
+
+import { QuestionDraft, MAX_OPTIONS, MIN_OPTIONS, getQuestionType, validateQuestionDraft } from './questionTypes';
+import { ExportResult, ImportIssue, ImportResult } from './questionImport';
+
+const OPTION_LETTERS = 'ABCDEFGH';
+const OPTION_LINE = /^([A-Z])[.)]\s+(.*)$/;
+const ANSWER_LINE = /^ANSWER:\s*([A-Z])\s*$/i;
+
+export const isAikenText = (text: string) => {
+  return /^ANSWER:\s*[A-Z]\s*$/im.test(text) && /^[A-Z][.)]\s+\S/m.test(text);
+};
+
+export const parseAiken = (text: string, defaultCategory: string): ImportResult => {
+  const questions: QuestionDraft[] = [];
+  const issues: ImportIssue[] = [];
+  let stem: string[] = [];
+  let options: string[] = [];
+  let number = 0;
+
+  const finish = (answer: string | null) => {
+    number++;
+    const report = (message: string) => issues.push({ row: number, severity: 'error', message });
+
+    if (answer === null) {
+      report('The question has no ANSWER line.');
+    } else if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+      report(`Needs ${MIN_OPTIONS} to ${MAX_OPTIONS} options, found ${options.length}.`);
+    } else {
+      const correct = OPTION_LETTERS.indexOf(answer.toUpperCase());
+      const draft: QuestionDraft = {
+        type: 'single_choice',
+        question: stem.join('\n'),
+        options,
+        correct_answer: correct,
+        category: defaultCategory,
+      };
+      const error = correct === -1 || correct >= options.length
+        ? `ANSWER: ${answer} does not match any of the ${options.length} options.`
+        : validateQuestionDraft(draft);
+      if (error) report(error);
+      else questions.push(draft);
+    }
+
+    stem = [];
+    options = [];
+  };
+
+  text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const answer = line.match(ANSWER_LINE);
+    if (answer) {
+      finish(answer[1]);
+      return;
+    }
+
+    const option = options.length < OPTION_LETTERS.length && line.match(OPTION_LINE);
+    if (option && option[1] === OPTION_LETTERS[options.length]) {
+      options.push(option[2].trim());
+    } else if (options.length > 0) {
+      // Text after the options with no ANSWER line closes the question and starts the next
+      finish(null);
+      stem.push(line);
+    } else {
+      stem.push(line);
+    }
+  });
+
+  if (stem.length > 0 || options.length > 0) finish(null);
+
+  return { questions, issues, rowCount: number };
+};
+
+// Aiken puts each question and option on one line
+const toLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+export const exportAiken = (questions: QuestionDraft[]): ExportResult => {
+  const blocks: string[] = [];
+  const issues: ImportIssue[] = [];
+
+  questions.forEach((question, index) => {
+    const row = index + 1;
+    const type = getQuestionType(question);
+    if (type !== 'single_choice' && type !== 'true_false') {
+      issues.push({ row, severity: 'error', message: 'Aiken only holds single-choice and true/false questions.' });
+      return;
+    }
+
+    if (question.image_path || question.option_images?.some(Boolean)) {
+      issues.push({ row, severity: 'warning', message: 'Images are not included in Aiken files.' });
+    }
+    if (question.explanation?.trim()) {
+      issues.push({ row, severity: 'warning', message: 'The explanation is not included in Aiken files.' });
+    }
+
+    blocks.push([
+      toLine(question.question),
+      ...question.options.map((option, i) => `${OPTION_LETTERS[i]}. ${toLine(option)}`),
+      `ANSWER: ${OPTION_LETTERS[question.correct_answer]}`,
+    ].join('\n'));
+  });
+
+  return { text: blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '', issues };
+};
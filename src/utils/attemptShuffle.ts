@@ -0,0 +1,18 @@
+// Helpers for attempts whose options were shuffled by start_quiz_attempt.
+// option_order maps a question id to the canonical option indices in the order
+// they are displayed; questions without an entry keep the authored order.
+
+export type OptionOrder = Record<string, number[]>;
+
+export const getDisplayedOptions = <T>(options: T[], optionOrder: OptionOrder | null | undefined, questionId: string): T[] => {
+  const order = optionOrder?.[questionId];
+  if (!order || order.length !== options.length) return options;
+  return order.map(index => options[index]);
+};
+
+// Converts an index the student picked back to the index in the authored options
+export const toCanonicalOption = (optionOrder: OptionOrder | null | undefined, questionId: string, displayedIndex: number | null): number | null => {
+  if (displayedIndex === null || displayedIndex === undefined) return null;
+  const order = optionOrder?.[questionId];
+  return order?.[displayedIndex] ?? displayedIndex;
+};
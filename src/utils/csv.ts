@@ -0,0 +1,68 @@
+// RFC 4180 CSV reader. Fields may be quoted, quoted fields may contain commas,
+// doubled quotes and line breaks, and records may end in CRLF, LF or CR.
+// A leading byte order mark is ignored.
+
+export const parseCSV = (text: string, delimiter = ','): string[][] => {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let inRecord = false;
+  let i = 0;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+    inRecord = false;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    inRecord = inRecord || (char !== '\r' && char !== '\n') || quoted;
+
+    if (quoted) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        quoted = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      endRecord();
+      if (char === '\r' && source[i + 1] === '\n') i++;
+    } else {
+      // A stray quote inside an unquoted field is kept as text
+      field += char;
+    }
+    i++;
+  }
+
+  // The last record has no line break after it, unless the file ends with one
+  if (inRecord) {
+    endRecord();
+  }
+
+  return records;
+};
+
+// True when every cell of the record is blank
+export const isBlankRecord = (record: string[]) => record.every(cell => !cell.trim());
@@ -0,0 +1,261 @@
+// GIFT, Moodle's text format with the answers in braces:
+//
+//   $CATEGORY: $course$/top/Geography
+//   ::Capital::What is the capital of France? {=Paris ~Berlin ~Madrid ####Paris has been the capital since 987.}
+//
+// Questions are separated by blank lines and lines starting with // are
+// comments. Text after the answer block makes a fill-in-the-blank stem, which
+// is imported with the blank shown as _____.
+
+import { QuestionDraft, MAX_OPTIONS, MIN_OPTIONS, TRUE_FALSE_OPTIONS, getQuestionType, validateQuestionDraft } from './questionTypes';
+import { ExportResult, ImportIssue, ImportResult } from './questionImport';
+import { htmlToMarkdown } from './richText';
+
+// Characters GIFT escapes with a backslash. While parsing they are swapped for
+// private-use characters so they never act as syntax.
+const ESCAPED = '~=#{}:\\';
+const PLACEHOLDER_START = 0xe000;
+
+const protect = (text: string) => {
+  return text
+    .replace(/\\([~=#{}:\\])/g, (_, char: string) => String.fromCharCode(PLACEHOLDER_START + ESCAPED.indexOf(char)))
+    .replace(/\\n/g, '\n');
+};
+
+const restore = (text: string) => {
+  return text.replace(/[\uE000-\uE006]/g, char => ESCAPED[char.charCodeAt(0) - PLACEHOLDER_START]);
+};
+
+const escapeGift = (text: string) => {
+  return text.replace(/[~=#{}:\\]/g, '\\$&').replace(/\r?\n/g, '\\n');
+};
+
+interface GiftAnswer {
+  correct: boolean; // Marked with = rather than ~
+  weight: number | null; // %50% prefix
+  text: string;
+}
+
+const parseAnswers = (block: string): GiftAnswer[] => {
+  return Array.from(block.matchAll(/([=~])([^=~]*)/g)).map(([, mark, body]) => {
+    const weight = body.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    const text = (weight ? body.slice(weight[0].length) : body).split('#')[0];
+    return { correct: mark === '=', weight: weight ? Number(weight[1]) : null, text: restore(text).trim() };
+  });
+};
+
+// Last segment of a $CATEGORY path such as $course$/top/Geography/Europe
+const categoryName = (path: string) => {
+  return path.split('/').map(part => part.trim()).filter(Boolean).pop() ?? '';
+};
+
+type BlockResult = { draft: QuestionDraft; warnings: string[] } | { error: string };
+
+const parseQuestion = (source: string, category: string): BlockResult => {
+  let text = protect(source).replace(/^\s*::[\s\S]*?::/, '');
+
+  const open = text.indexOf('{');
+  if (open === -1) return { error: 'Description items (text without an answer block) are not supported.' };
+  const close = text.indexOf('}', open);
+  if (close === -1) return { error: 'The answer block has no closing }.' };
+
+  const after = text.slice(close + 1).trim();
+  let answers = text.slice(open + 1, close);
+  text = text.slice(0, open).trim();
+
+  let format = 'moodle';
+  const formatMatch = text.match(/^\[(html|moodle|plain|markdown)\]/);
+  if (formatMatch) {
+    format = formatMatch[1];
+    text = text.slice(formatMatch[0].length).trim();
+  }
+  const toMarkdown = (value: string) => (format === 'html' ? htmlToMarkdown(restore(value)) : restore(value).trim());
+
+  const question = toMarkdown(after ? `${text} _____ ${after}` : text);
+  const feedbackAt = answers.indexOf('####');
+  const explanation = feedbackAt === -1 ? '' : toMarkdown(answers.slice(feedbackAt + 4));
+  if (feedbackAt !== -1) answers = answers.slice(0, feedbackAt);
+  answers = answers.trim();
+
+  const warnings: string[] = [];
+  const base = { question, category, explanation, correct_answer: 0, options: [] as string[] };
+
+  if (!answers) return { error: 'Essay questions are not supported.' };
+
+  const trueFalse = answers.match(/^(T|TRUE|F|FALSE)\s*(#.*)?$/is);
+  if (trueFalse) {
+    return {
+      draft: { ...base, type: 'true_false', options: TRUE_FALSE_OPTIONS, correct_answer: /^t/i.test(trueFalse[1]) ? 0 : 1 },
+      warnings,
+    };
+  }
+
+  if (answers.startsWith('#')) {
+    // Several numeric answers may be given with weights; the first full-credit one is kept
+    const values = answers.includes('=') ? parseAnswers(answers.slice(1)) : [{ correct: true, weight: null, text: answers.slice(1).split('#')[0] }];
+    const full = values.find(value => value.weight === null || value.weight === 100);
+    if (values.length > 1) warnings.push('Only the full-credit numeric answer was kept.');
+
+    const range = full?.text.match(/^(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)$/);
+    const [answer, tolerance] = range
+      ? [(Number(range[1]) + Number(range[2])) / 2, Math.abs(Number(range[2]) - Number(range[1])) / 2]
+      : (full?.text ?? '').split(':').map(part => Number(part.trim()));
+    if (full === undefined || Number.isNaN(answer)) return { error: 'The numeric answer could not be read.' };
+
+    return {
+      draft: { ...base, type: 'numeric', numeric_answer: answer, numeric_tolerance: Number.isNaN(tolerance) ? 0 : tolerance ?? 0 },
+      warnings,
+    };
+  }
+
+  const parsed = parseAnswers(answers);
+  if (parsed.length === 0) return { error: 'The answer block has no answers.' };
+
+  if (parsed.every(answer => answer.correct) && parsed.some(answer => answer.text.includes('->'))) {
+    const pairs = parsed.map(answer => {
+      const [left, right] = answer.text.split('->').map(part => part.trim());
+      return { left, right: right ?? '' };
+    });
+    const kept = pairs.filter(pair => pair.left);
+    if (kept.length < pairs.length) warnings.push('Extra right-hand answers (distractors) were dropped.');
+    if (kept.length < MIN_OPTIONS || kept.length > MAX_OPTIONS) {
+      return { error: `Matching needs ${MIN_OPTIONS} to ${MAX_OPTIONS} pairs, found ${kept.length}.` };
+    }
+    return {
+      draft: { ...base, type: 'matching', options: kept.map(pair => pair.left), match_options: kept.map(pair => pair.right) },
+      warnings,
+    };
+  }
+
+  if (parsed.every(answer => answer.correct)) {
+    const accepted = parsed.filter(answer => answer.weight === null || answer.weight === 100);
+    if (accepted.length < parsed.length) warnings.push('Answers worth partial credit were dropped.');
+    return {
+      draft: { ...base, type: 'short_text', accepted_answers: accepted.map(answer => answer.text) },
+      warnings,
+    };
+  }
+
+  if (parsed.length < MIN_OPTIONS || parsed.length > MAX_OPTIONS) {
+    return { error: `Needs ${MIN_OPTIONS} to ${MAX_OPTIONS} options, found ${parsed.length}.` };
+  }
+
+  const options = parsed.map(answer => answer.text);
+  const correct = parsed
+    .map((answer, index) => (answer.correct || (answer.weight ?? 0) > 0 ? index : -1))
+    .filter(index => index !== -1);
+  if (correct.length === 0) return { error: 'No answer is marked correct.' };
+
+  if (correct.length === 1 && parsed[correct[0]].correct) {
+    return { draft: { ...base, type: 'single_choice', options, correct_answer: correct[0] }, warnings };
+  }
+  return { draft: { ...base, type: 'multi_select', options, correct_answers: correct, partial_credit: true }, warnings };
+};
+
+export const parseGift = (text: string, defaultCategory: string): ImportResult => {
+  const questions: QuestionDraft[] = [];
+  const issues: ImportIssue[] = [];
+  let category = defaultCategory;
+  let number = 0;
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).filter(line => !line.trim().startsWith('//'));
+  const blocks: string[] = [];
+  let current: string[] = [];
+  lines.forEach(line => {
+    if (line.trim()) {
+      current.push(line);
+    } else if (current.length > 0) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+  });
+  if (current.length > 0) blocks.push(current.join('\n'));
+
+  blocks.forEach(block => {
+    // A $CATEGORY line applies to the questions after it and may share their block
+    const categoryMatch = block.match(/^\s*\$CATEGORY:(.*)$/m);
+    if (categoryMatch) {
+      category = categoryName(categoryMatch[1]) || defaultCategory;
+      block = block.replace(categoryMatch[0], '').trim();
+      if (!block) return;
+    }
+
+    number++;
+    const result = parseQuestion(block, category);
+    if ('error' in result) {
+      issues.push({ row: number, severity: 'error', message: result.error });
+      return;
+    }
+
+    const error = validateQuestionDraft(result.draft);
+    if (error) {
+      issues.push({ row: number, severity: 'error', message: error });
+      return;
+    }
+    result.warnings.forEach(message => issues.push({ row: number, severity: 'warning', message }));
+    questions.push(result.draft);
+  });
+
+  return { questions, issues, rowCount: number };
+};
+
+const formatWeight = (weight: number) => `${Number(weight.toFixed(5))}`;
+
+export const exportGift = (questions: QuestionDraft[]): ExportResult => {
+  const blocks: string[] = [];
+  const issues: ImportIssue[] = [];
+  let category: string | null = null;
+
+  questions.forEach((question, index) => {
+    const row = index + 1;
+    const type = getQuestionType(question);
+    const options = question.options.map(escapeGift);
+    let answers: string;
+
+    switch (type) {
+      case 'single_choice':
+        answers = options.map((option, i) => `${i === question.correct_answer ? '=' : '~'}${option}`).join('\n');
+        break;
+      case 'multi_select': {
+        const correct = question.correct_answers ?? [];
+        const wrongCount = options.length - correct.length;
+        // Wrong picks cancel out right ones, so ticking every box earns nothing
+        answers = options.map((option, i) => correct.includes(i)
+          ? `~%${formatWeight(100 / correct.length)}%${option}`
+          : `~%-${formatWeight(100 / wrongCount)}%${option}`).join('\n');
+        if (!question.partial_credit) issues.push({ row, severity: 'warning', message: 'GIFT gives credit for each correct option, not all or nothing.' });
+        break;
+      }
+      case 'true_false':
+        answers = question.correct_answer === 0 ? 'TRUE' : 'FALSE';
+        break;
+      case 'short_text':
+        answers = (question.accepted_answers ?? []).map(answer => `=${escapeGift(answer)}`).join(' ');
+        if (question.case_sensitive) issues.push({ row, severity: 'warning', message: 'GIFT answers are not case-sensitive.' });
+        break;
+      case 'numeric':
+        answers = `#${question.numeric_answer}${question.numeric_tolerance ? `:${question.numeric_tolerance}` : ''}`;
+        break;
+      case 'matching':
+        answers = options.map((option, i) => `=${option} -> ${escapeGift(question.match_options?.[i] ?? '')}`).join('\n');
+        break;
+      case 'ordering':
+        issues.push({ row, severity: 'error', message: 'GIFT has no ordering questions.' });
+        return;
+    }
+
+    if (question.image_path || question.option_images?.some(Boolean)) {
+      issues.push({ row, severity: 'warning', message: 'Images are not included in GIFT files.' });
+    }
+
+    if (question.category !== category) {
+      category = question.category;
+      blocks.push(`$CATEGORY: $course$/top/${category}`);
+    }
+
+    const feedback = question.explanation?.trim() ? `\n####${escapeGift(question.explanation.trim())}` : '';
+    blocks.push(`::Q${row}::[markdown]${escapeGift(question.question.trim())} {\n${answers}${feedback}\n}`);
+  });
+
+  return { text: blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '', issues };
+};
@@ -0,0 +1,348 @@
+// Moodle XML, the fullest of Moodle's question formats. Multiple choice, true/false,
+// short answer, numerical, matching and ordering questions map onto our types;
+// anything else (essay, cloze, calculated, drag and drop, ...) is reported and
+// left out. A stem image embedded as a base64 <file> is imported as a local
+// image, to be uploaded when the quiz is saved.
+
+import { QuestionDraft, MAX_OPTIONS, MIN_OPTIONS, TRUE_FALSE_OPTIONS, getQuestionType, validateQuestionDraft } from './questionTypes';
+import { ExportResult, ImportIssue, ImportResult } from './questionImport';
+import { EmbeddedMedia, getMediaTypeFromName, validateMediaFile } from './questionMedia';
+import { htmlToMarkdown } from './richText';
+
+const childrenByName = (parent: Element, name: string) => {
+  return Array.from(parent.children).filter(child => child.tagName === name);
+};
+
+const child = (parent: Element, name: string) => childrenByName(parent, name)[0] as Element | undefined;
+
+const childText = (parent: Element, name: string) => {
+  const element = child(parent, name);
+  return (element ? child(element, 'text')?.textContent ?? element.textContent : '')?.trim() ?? '';
+};
+
+// Text of a formatted element (questiontext, answer, ...) as markdown
+const readFormatted = (element: Element | undefined) => {
+  if (!element) return '';
+  const text = child(element, 'text')?.textContent ?? '';
+  const withoutFiles = text.replace(/!\[[^\]]*\]\(@@PLUGINFILE@@[^)]*\)/g, '');
+  switch (element.getAttribute('format')) {
+    case 'markdown':
+    case 'plain_text':
+      return withoutFiles.trim();
+    case 'moodle_auto_format':
+      return htmlToMarkdown(withoutFiles.replace(/\r?\n/g, '<br>'));
+    default:
+      return htmlToMarkdown(withoutFiles);
+  }
+};
+
+const readFraction = (answer: Element) => Number(answer.getAttribute('fraction') ?? 0);
+
+// Last segment of a category path such as $course$/top/Geography/Europe
+const categoryName = (path: string) => {
+  return path.split('/').map(part => part.trim()).filter(Boolean).pop() ?? '';
+};
+
+// First embedded image of the question text as a local URL
+const readStemImage = (questionText: Element | undefined, warnings: string[]) => {
+  const files = questionText ? childrenByName(questionText, 'file') : [];
+  if (files.length === 0) return null;
+  if (files.length > 1) warnings.push('Only the first embedded file was kept.');
+
+  const file = files[0];
+  const name = file.getAttribute('name') ?? 'image';
+  try {
+    const bytes = Uint8Array.from(atob((file.textContent ?? '').replace(/\s/g, '')), char => char.charCodeAt(0));
+    const image = new File([bytes], name, { type: getMediaTypeFromName(name) ?? '' });
+    const error = validateMediaFile(image);
+    if (error) {
+      warnings.push(`${error} The image was skipped.`);
+      return null;
+    }
+    return URL.createObjectURL(image);
+  } catch {
+    warnings.push(`"${name}" could not be decoded and was skipped.`);
+    return null;
+  }
+};
+
+type QuestionResult = { draft: QuestionDraft; warnings: string[] } | { error: string };
+
+const SUPPORTED_TYPES = ['multichoice', 'truefalse', 'shortanswer', 'numerical', 'matching', 'ordering'];
+
+const readQuestion = (element: Element, type: string, category: string): QuestionResult => {
+  if (!SUPPORTED_TYPES.includes(type)) return { error: `Moodle "${type}" questions are not supported.` };
+
+  const warnings: string[] = [];
+  const questionText = child(element, 'questiontext');
+  const grade = Number(childText(element, 'defaultgrade'));
+  const base: QuestionDraft = {
+    question: readFormatted(questionText),
+    category,
+    explanation: readFormatted(child(element, 'generalfeedback')),
+    image_path: readStemImage(questionText, warnings),
+    points: grade > 0 ? grade : 1,
+    options: [],
+    correct_answer: 0,
+  };
+  const answers = childrenByName(element, 'answer');
+
+  switch (type) {
+    case 'multichoice': {
+      if (answers.length < MIN_OPTIONS || answers.length > MAX_OPTIONS) {
+        return { error: `Needs ${MIN_OPTIONS} to ${MAX_OPTIONS} options, found ${answers.length}.` };
+      }
+      const options = answers.map(readFormatted);
+      const fractions = answers.map(readFraction);
+
+      if (childText(element, 'single') !== 'false') {
+        const best = fractions.indexOf(Math.max(...fractions));
+        if (fractions[best] <= 0) return { error: 'No option is marked correct.' };
+        if (fractions.filter(fraction => fraction > 0 && fraction < 100).length > 0) {
+          warnings.push('Partially correct options were imported as wrong.');
+        }
+        return { draft: { ...base, type: 'single_choice', options, correct_answer: best }, warnings };
+      }
+
+      const correct = fractions.map((fraction, index) => (fraction > 0 ? index : -1)).filter(index => index !== -1);
+      return { draft: { ...base, type: 'multi_select', options, correct_answers: correct, partial_credit: true }, warnings };
+    }
+    case 'truefalse': {
+      const right = answers.find(answer => readFraction(answer) === 100);
+      const isTrue = (right ? childText(right, 'text') || right.textContent || '' : '').trim().toLowerCase() === 'true';
+      return { draft: { ...base, type: 'true_false', options: TRUE_FALSE_OPTIONS, correct_answer: isTrue ? 0 : 1 }, warnings };
+    }
+    case 'shortanswer': {
+      const accepted = answers.filter(answer => readFraction(answer) === 100);
+      if (accepted.length < answers.length) warnings.push('Answers worth partial credit were dropped.');
+      return {
+        draft: {
+          ...base,
+          type: 'short_text',
+          accepted_answers: accepted.map(answer => child(answer, 'text')?.textContent?.trim() ?? ''),
+          case_sensitive: childText(element, 'usecase') === '1',
+        },
+        warnings,
+      };
+    }
+    case 'numerical': {
+      const right = answers.find(answer => readFraction(answer) === 100);
+      const value = Number(right ? child(right, 'text')?.textContent : NaN);
+      if (Number.isNaN(value)) return { error: 'The question has no full-credit numeric answer.' };
+      if (answers.length > 1) warnings.push('Only the full-credit numeric answer was kept.');
+      if (childrenByName(child(element, 'units') ?? element, 'unit').length > 0) warnings.push('Units were dropped.');
+      return {
+        draft: { ...base, type: 'numeric', numeric_answer: value, numeric_tolerance: Math.abs(Number(childText(right!, 'tolerance')) || 0) },
+        warnings,
+      };
+    }
+    case 'matching': {
+      const pairs = childrenByName(element, 'subquestion').map(subquestion => ({
+        left: readFormatted(subquestion),
+        right: childText(subquestion, 'answer'),
+      }));
+      const kept = pairs.filter(pair => pair.left);
+      if (kept.length < pairs.length) warnings.push('Extra right-hand answers (distractors) were dropped.');
+      if (kept.length < MIN_OPTIONS || kept.length > MAX_OPTIONS) {
+        return { error: `Matching needs ${MIN_OPTIONS} to ${MAX_OPTIONS} pairs, found ${kept.length}.` };
+      }
+      return {
+        draft: {
+          ...base,
+          type: 'matching',
+          options: kept.map(pair => pair.left),
+          match_options: kept.map(pair => pair.right),
+          partial_credit: true,
+        },
+        warnings,
+      };
+    }
+    case 'ordering': {
+      // The fraction of an ordering answer is its position
+      const items = [...answers].sort((a, b) => readFraction(a) - readFraction(b)).map(readFormatted);
+      if (items.length < MIN_OPTIONS || items.length > MAX_OPTIONS) {
+        return { error: `Ordering needs ${MIN_OPTIONS} to ${MAX_OPTIONS} items, found ${items.length}.` };
+      }
+      const grading = childText(element, 'gradingtype');
+      return {
+        draft: { ...base, type: 'ordering', options: items, partial_credit: !!grading && grading !== 'ALL_OR_NOTHING' },
+        warnings,
+      };
+    }
+  }
+  return { error: `Moodle "${type}" questions are not supported.` };
+};
+
+export const parseMoodleXml = (text: string, defaultCategory: string): ImportResult => {
+  const questions: QuestionDraft[] = [];
+  const issues: ImportIssue[] = [];
+
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'quiz') {
+    return { questions, issues: [{ row: 1, severity: 'error', message: 'The file is not a Moodle XML question export.' }], rowCount: 0 };
+  }
+
+  let category = defaultCategory;
+  let number = 0;
+
+  childrenByName(doc.documentElement, 'question').forEach(element => {
+    const type = element.getAttribute('type') ?? '';
+    if (type === 'category') {
+      category = categoryName(childText(element, 'category')) || defaultCategory;
+      return;
+    }
+
+    number++;
+    const result = readQuestion(element, type, category);
+    if ('error' in result) {
+      issues.push({ row: number, severity: 'error', message: result.error });
+      return;
+    }
+
+    const error = validateQuestionDraft(result.draft);
+    if (error) {
+      issues.push({ row: number, severity: 'error', message: error });
+      return;
+    }
+    result.warnings.forEach(message => issues.push({ row: number, severity: 'warning', message }));
+    questions.push(result.draft);
+  });
+
+  if (number === 0) {
+    issues.push({ row: 1, severity: 'error', message: 'The file has no questions.' });
+  }
+
+  return { questions, issues, rowCount: number };
+};
+
+const escapeXml = (text: string) => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const textElement = (text: string) => `<text>${escapeXml(text)}</text>`;
+
+const formatted = (tag: string, text: string, extra = '') => {
+  return `<${tag} format="markdown">${textElement(text)}${extra}</${tag}>`;
+};
+
+const formatFraction = (fraction: number) => `${Number(fraction.toFixed(5))}`;
+
+// Questions are named after the start of their text
+const questionName = (text: string) => {
+  const plain = text.replace(/\s+/g, ' ').trim();
+  return plain.length > 60 ? `${plain.slice(0, 57)}...` : plain;
+};
+
+export const exportMoodleXml = (questions: QuestionDraft[], media: Record<string, EmbeddedMedia> = {}): ExportResult => {
+  const issues: ImportIssue[] = [];
+  const items: string[] = [];
+  let category: string | null = null;
+
+  questions.forEach((question, index) => {
+    const row = index + 1;
+    const type = getQuestionType(question);
+
+    if (question.category !== category) {
+      category = question.category;
+      items.push(`  <question type="category">\n    <category>${textElement(`$course$/top/${category}`)}</category>\n  </question>`);
+    }
+
+    let text = question.question.trim();
+    let files = '';
+    if (question.image_path) {
+      const image = media[question.image_path];
+      if (image) {
+        text += `\n\n![](@@PLUGINFILE@@/${encodeURIComponent(image.name)})`;
+        files = `<file name="${escapeXml(image.name)}" path="/" encoding="base64">${image.data}</file>`;
+      } else {
+        issues.push({ row, severity: 'warning', message: 'The question image could not be read and was left out.' });
+      }
+    }
+    if (question.option_images?.some(Boolean)) {
+      issues.push({ row, severity: 'warning', message: 'Option images are not included in Moodle XML exports.' });
+    }
+
+    const answer = (fraction: number, body: string) => `    <answer fraction="${formatFraction(fraction)}" format="markdown">${textElement(body)}</answer>`;
+    let moodleType: string;
+    let fields: string[];
+
+    switch (type) {
+      case 'single_choice':
+        moodleType = 'multichoice';
+        fields = [
+          '    <single>true</single>',
+          '    <shuffleanswers>true</shuffleanswers>',
+          ...question.options.map((option, i) => answer(i === question.correct_answer ? 100 : 0, option)),
+        ];
+        break;
+      case 'multi_select': {
+        const correct = question.correct_answers ?? [];
+        const wrongCount = question.options.length - correct.length;
+        moodleType = 'multichoice';
+        // Wrong picks cancel out right ones, so ticking every box earns nothing
+        fields = [
+          '    <single>false</single>',
+          '    <shuffleanswers>true</shuffleanswers>',
+          ...question.options.map((option, i) => answer(correct.includes(i) ? 100 / correct.length : -100 / wrongCount, option)),
+        ];
+        if (!question.partial_credit) issues.push({ row, severity: 'warning', message: 'Moodle gives credit for each correct option, not all or nothing.' });
+        break;
+      }
+      case 'true_false':
+        moodleType = 'truefalse';
+        fields = [
+          `    <answer fraction="${question.correct_answer === 0 ? 100 : 0}">${textElement('true')}</answer>`,
+          `    <answer fraction="${question.correct_answer === 1 ? 100 : 0}">${textElement('false')}</answer>`,
+        ];
+        break;
+      case 'short_text':
+        moodleType = 'shortanswer';
+        fields = [
+          `    <usecase>${question.case_sensitive ? 1 : 0}</usecase>`,
+          ...(question.accepted_answers ?? []).map(accepted => `    <answer fraction="100">${textElement(accepted)}</answer>`),
+        ];
+        break;
+      case 'numeric':
+        moodleType = 'numerical';
+        fields = [
+          `    <answer fraction="100">${textElement(`${question.numeric_answer}`)}<tolerance>${question.numeric_tolerance ?? 0}</tolerance></answer>`,
+        ];
+        break;
+      case 'matching':
+        moodleType = 'matching';
+        fields = [
+          '    <shuffleanswers>true</shuffleanswers>',
+          ...question.options.map((option, i) => `    ${formatted('subquestion', option, `<answer>${textElement(question.match_options?.[i] ?? '')}</answer>`)}`),
+        ];
+        break;
+      case 'ordering':
+        moodleType = 'ordering';
+        fields = [
+          '    <layouttype>VERTICAL</layouttype>',
+          '    <selecttype>ALL</selecttype>',
+          '    <selectcount>0</selectcount>',
+          `    <gradingtype>${question.partial_credit ? 'ABSOLUTE_POSITION' : 'ALL_OR_NOTHING'}</gradingtype>`,
+          ...question.options.map((option, i) => answer(i + 1, option)),
+        ];
+        break;
+    }
+
+    items.push([
+      `  <question type="${moodleType}">`,
+      `    <name>${textElement(questionName(question.question) || `Question ${row}`)}</name>`,
+      `    ${formatted('questiontext', text, files)}`,
+      `    ${formatted('generalfeedback', question.explanation?.trim() ?? '')}`,
+      `    <defaultgrade>${question.points ?? 1}</defaultgrade>`,
+      '    <penalty>0</penalty>',
+      '    <hidden>0</hidden>',
+      ...fields,
+      '  </question>',
+    ].join('\n'));
+  });
+
+  return { text: `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${items.join('\n')}\n</quiz>\n`, issues };
+};
@@ -0,0 +1,57 @@
+// Shared question bank. Quizzes use bank questions through linked copies in
+// the questions table; the database keeps those copies in step with the bank.
+
+import { BankQuestion } from '../types';
+import { QuestionDraft, toQuestionDraft } from './questionTypes';
+
+export interface BankFilters {
+  search: string;
+  category: string; // '' for every category
+  tag: string; // '' for every tag
+}
+
+export const EMPTY_BANK_FILTERS: BankFilters = { search: '', category: '', tag: '' };
+
+// Tags typed as a comma-separated list, trimmed, lower-cased and without repeats
+export const parseTags = (input: string): string[] => {
+  return Array.from(new Set(input
+    .split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(Boolean)));
+};
+
+// Sorted tags used across the bank, for the tag filter
+export const getBankTags = (questions: BankQuestion[]): string[] => {
+  return Array.from(new Set(questions.flatMap(question => question.tags ?? []))).sort();
+};
+
+export const getBankCategories = (questions: BankQuestion[]): string[] => {
+  return Array.from(new Set(questions.map(question => question.category))).sort();
+};
+
+// Search matches the question text, options and tags
+export const filterBankQuestions = (questions: BankQuestion[], { search, category, tag }: BankFilters) => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return questions.filter(question => {
+    if (category && question.category !== category) return false;
+    if (tag && !(question.tags ?? []).includes(tag)) return false;
+
+    const text = [question.question, ...question.options, ...(question.tags ?? [])].join(' ').toLowerCase();
+    return terms.every(term => text.includes(term));
+  });
+};
+
+const BANK_ONLY_FIELDS = ['id', 'tags', 'created_by', 'created_at', 'updated_at'];
+
+// Editable content of a bank question, with ordering and matching answers in order
+export const toBankDraft = (question: BankQuestion): QuestionDraft => {
+  return Object.fromEntries(
+    Object.entries(toQuestionDraft(question)).filter(([field]) => !BANK_ONLY_FIELDS.includes(field))
+  ) as QuestionDraft;
+};
+
+// Quiz question linked to a bank question
+export const toLinkedDraft = (question: BankQuestion): QuestionDraft => {
+  return { ...toBankDraft(question), bank_question_id: question.id };
+};
@@ -0,0 +1,57 @@
+// LMS question formats that can be imported in the uploader and exported
+// from Manage Quizzes.
+
+import { QuestionDraft } from './questionTypes';
+import { ExportResult, ImportResult } from './questionImport';
+import { EmbeddedMedia } from './questionMedia';
+import { exportAiken, isAikenText, parseAiken } from './aiken';
+import { exportGift, parseGift } from './gift';
+import { exportMoodleXml, parseMoodleXml } from './moodleXml';
+
+export type QuestionFormat = 'moodle_xml' | 'gift' | 'aiken';
+
+export const QUESTION_FORMATS: Record<QuestionFormat, { label: string; extension: string; mimeType: string }> = {
+  moodle_xml: { label: 'Moodle XML', extension: '.xml', mimeType: 'application/xml' },
+  gift: { label: 'GIFT', extension: '.gift.txt', mimeType: 'text/plain' },
+  aiken: { label: 'Aiken', extension: '.aiken.txt', mimeType: 'text/plain' },
+};
+
+// File extensions the uploader reads as one of these formats
+export const QUESTION_FORMAT_EXTENSIONS = ['.xml', '.gift', '.txt'];
+
+// Format of an uploaded file, or null when it should be read as CSV.
+// GIFT and Aiken files are both often plain .txt, so those are told apart by content.
+export const detectQuestionFormat = (fileName: string, text: string): QuestionFormat | null => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.xml')) return 'moodle_xml';
+  if (name.endsWith('.gift')) return 'gift';
+  if (name.endsWith('.txt')) return isAikenText(text) && !text.includes('{') ? 'aiken' : 'gift';
+  return null;
+};
+
+export const importQuestionFormat = (format: QuestionFormat, text: string, defaultCategory: string): ImportResult => {
+  switch (format) {
+    case 'moodle_xml':
+      return parseMoodleXml(text, defaultCategory);
+    case 'gift':
+      return parseGift(text, defaultCategory);
+    case 'aiken':
+      return parseAiken(text, defaultCategory);
+  }
+};
+
+// Media is only used by Moodle XML, the one format that can embed images
+export const exportQuestionFormat = (
+  format: QuestionFormat,
+  questions: QuestionDraft[],
+  media: Record<string, EmbeddedMedia> = {}
+): ExportResult => {
+  switch (format) {
+    case 'moodle_xml':
+      return exportMoodleXml(questions, media);
+    case 'gift':
+      return exportGift(questions);
+    case 'aiken':
+      return exportAiken(questions);
+  }
+};
@@ -0,0 +1,84 @@
+// Multiple-choice questions generated from source text by the
+// generate-quiz-questions edge function. The function checks each question
+// and its citation; the drafts are checked again here like any import.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { QuestionDraft, validateQuestionDraft } from './questionTypes';
+import { ImportIssue, ImportResult } from './questionImport';
+
+// Keep in step with supabase/functions/generate-quiz-questions
+export const MAX_SOURCE_LENGTH = 30000;
+export const MAX_GENERATED_QUESTIONS = 20;
+
+export type GenerationDifficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTY_LABELS: Record<GenerationDifficulty, string> = {
+  easy: 'Easy (recall)',
+  medium: 'Medium (understanding)',
+  hard: 'Hard (application)',
+};
+
+// Text files that can be read into the source box
+export const SOURCE_FILE_EXTENSIONS = ['.txt', '.md', '.markdown'];
+
+export interface GenerationRequest {
+  text: string;
+  count: number;
+  difficulty: GenerationDifficulty;
+  category: string;
+}
+
+export interface GeneratedQuestion extends QuestionDraft {
+  source: string; // Passage of the source text the question is drawn from
+}
+
+export interface GenerationResult extends ImportResult {
+  questions: GeneratedQuestion[];
+}
+
+interface GenerationResponse {
+  // row numbers the question in the model's answer, as the issues do
+  questions: { row: number; question: string; options: string[]; correct_answer: number; explanation: string; source: string }[];
+  issues: ImportIssue[];
+  generatedCount: number;
+}
+
+export const generateQuestions = async ({ text, count, difficulty, category }: GenerationRequest): Promise<GenerationResult> => {
+  const { data, error } = await supabase.functions.invoke('generate-quiz-questions', {
+    body: { text, count, difficulty, category }
+  });
+
+  if (error) {
+    // Rejected requests carry the function's own explanation
+    const details = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw new Error(details?.error || error.message);
+  }
+  if (!data) throw new Error('No data received from the question generator');
+
+  const response = data as GenerationResponse;
+  const issues = [...response.issues];
+  const questions: GeneratedQuestion[] = [];
+
+  response.questions.forEach(generated => {
+    const draft: GeneratedQuestion = {
+      type: 'single_choice',
+      question: generated.question,
+      options: generated.options,
+      correct_answer: generated.correct_answer,
+      category,
+      explanation: generated.explanation,
+      source: generated.source,
+    };
+
+    const validationError = validateQuestionDraft(draft);
+    if (validationError) {
+      issues.push({ row: generated.row, severity: 'error', message: validationError });
+    } else {
+      questions.push(draft);
+    }
+  });
+
+  issues.sort((a, b) => a.row - b.row);
+  return { questions, issues, rowCount: response.generatedCount };
+};
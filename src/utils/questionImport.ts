@@ -0,0 +1,230 @@
+// Turns spreadsheet-style rows (a header row followed by one question per row)
+// into question drafts, with a row-by-row report of anything that could not be
+// imported. Columns are matched by header name, so they can come in any order
+// and carry any number of options:
+//
+//   Question, Option1..Option8 (or A..H), CorrectAnswer, Category, Explanation,
+//   ReferenceURL, Image, Option1Image..Option8Image
+//
+// Files without a recognisable header use the original fixed layout.
+
+import { ArchiveMediaResult } from './questionMedia';
+import { MAX_OPTIONS, MIN_OPTIONS, QuestionDraft, validateQuestionDraft } from './questionTypes';
+import { isBlankRecord } from './csv';
+
+export interface ImportIssue {
+  row: number; // 1-based, counting the header row; the question number for LMS formats
+  severity: 'error' | 'warning'; // Rows with errors are left out of the import
+  message: string;
+}
+
+export interface ImportResult {
+  questions: QuestionDraft[];
+  issues: ImportIssue[];
+  rowCount: number; // Non-blank data rows (or questions) read
+}
+
+// Text written by an LMS format exporter. Issues use the question's number;
+// errors mark questions that were left out, warnings ones that lost something.
+export interface ExportResult {
+  text: string;
+  issues: ImportIssue[];
+}
+
+export interface ImportOptions {
+  defaultCategory: string;
+  // Local URL for an image file name; without it image columns are reported and ignored
+  resolveImage?: (reference: string) => Promise<ArchiveMediaResult>;
+}
+
+interface ColumnMap {
+  question: number;
+  options: number[]; // Column of each option, in option order
+  answer: number;
+  category: number;
+  explanation: number;
+  reference: number;
+  image: number;
+  optionImages: number[]; // Parallel to options, -1 where there is none
+}
+
+const OPTION_LETTERS = 'ABCDEFGH';
+
+// Column layout used before header matching, kept for existing files
+const LEGACY_COLUMNS: ColumnMap = {
+  question: 0,
+  options: [1, 2, 3, 4],
+  answer: 5,
+  category: 6,
+  explanation: 7,
+  reference: 8,
+  image: 9,
+  optionImages: [10, 11, 12, 13],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Option number (1-based) named by a header such as "Option 2", "Choice2", "B" or "Option B"
+const getOptionNumber = (header: string, suffix = ''): number | null => {
+  const match = header.match(new RegExp(`^(?:option|choice|answer)?([1-8]|[a-h])${suffix}$`));
+  if (!match) return null;
+  const key = match[1];
+  return /\d/.test(key) ? Number(key) : OPTION_LETTERS.indexOf(key.toUpperCase()) + 1;
+};
+
+const mapColumns = (headerRow: string[]): ColumnMap | null => {
+  const headers = headerRow.map(normalizeHeader);
+  const find = (...names: string[]) => headers.findIndex(header => names.includes(header));
+
+  const question = find('question', 'questions', 'questiontext', 'stem');
+  if (question === -1) return null;
+
+  const options: number[] = [];
+  const optionImages: number[] = [];
+  headers.forEach((header, column) => {
+    const option = getOptionNumber(header);
+    if (option) options[option - 1] = column;
+    const image = getOptionNumber(header, 'image');
+    if (image) optionImages[image - 1] = column;
+  });
+
+  // Gaps in the numbering (Option1, Option3) are closed up
+  const optionColumns = options.filter(column => column !== undefined);
+
+  return {
+    question,
+    options: optionColumns,
+    answer: find('correctanswer', 'correct', 'answer', 'correctoption', 'key'),
+    category: find('category', 'topic'),
+    explanation: find('explanation', 'feedback'),
+    reference: find('referenceurl', 'reference', 'link', 'url'),
+    image: find('image', 'questionimage', 'imagepath'),
+    optionImages: optionColumns.map(column => optionImages[options.indexOf(column)] ?? -1),
+  };
+};
+
+// Option index for an answer given as a letter (A-H) or a number (1-8)
+const parseAnswer = (value: string, optionCount: number): number | null => {
+  const answer = value.trim().replace(/^option\s*/i, '').replace(/[.)]$/, '');
+  let index = -1;
+  if (/^[a-h]$/i.test(answer)) index = OPTION_LETTERS.indexOf(answer.toUpperCase());
+  else if (/^\d+$/.test(answer)) index = Number(answer) - 1;
+  return index >= 0 && index < optionCount ? index : null;
+};
+
+const normalizeQuestion = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const importQuestionRows = async (rows: string[][], options: ImportOptions): Promise<ImportResult> => {
+  const issues: ImportIssue[] = [];
+  const questions: QuestionDraft[] = [];
+  const seen = new Map<string, number>();
+
+  const firstRow = rows.findIndex(row => !isBlankRecord(row));
+  if (firstRow === -1) {
+    return { questions, issues: [{ row: 1, severity: 'error', message: 'The file has no rows.' }], rowCount: 0 };
+  }
+
+  const headerColumns = mapColumns(rows[firstRow]);
+  const columns = headerColumns ?? LEGACY_COLUMNS;
+  const dataStart = headerColumns ? firstRow + 1 : firstRow;
+
+  if (headerColumns && headerColumns.options.length === 0) {
+    issues.push({ row: firstRow + 1, severity: 'error', message: 'No option columns found (expected Option1, Option2, ... or A, B, ...).' });
+  }
+  if (headerColumns && headerColumns.answer === -1) {
+    issues.push({ row: firstRow + 1, severity: 'error', message: 'No CorrectAnswer column found.' });
+  }
+  if (issues.length > 0) {
+    return { questions, issues, rowCount: 0 };
+  }
+
+  let rowCount = 0;
+
+  for (let index = dataStart; index < rows.length; index++) {
+    const row = rows[index];
+    if (isBlankRecord(row)) continue;
+
+    rowCount++;
+    const rowNumber = index + 1;
+    const rowIssues: ImportIssue[] = [];
+    const cell = (column: number) => (column >= 0 ? (row[column] ?? '').trim() : '');
+    const report = (severity: ImportIssue['severity'], message: string) => {
+      rowIssues.push({ row: rowNumber, severity, message });
+    };
+
+    const question = cell(columns.question);
+
+    // Trailing empty options are dropped; empty ones in between are kept so the answer letters still line up
+    const optionValues = columns.options.map(cell);
+    while (optionValues.length > 0 && !optionValues[optionValues.length - 1]) optionValues.pop();
+
+    if (!question) report('error', 'Missing question text.');
+    if (optionValues.length < MIN_OPTIONS) {
+      report('error', `Needs at least ${MIN_OPTIONS} options, found ${optionValues.length}.`);
+    } else if (optionValues.length > MAX_OPTIONS) {
+      report('error', `At most ${MAX_OPTIONS} options are supported, found ${optionValues.length}.`);
+    }
+    optionValues.forEach((option, i) => {
+      if (!option) report('error', `Option ${OPTION_LETTERS[i]} is empty.`);
+    });
+
+    const answerText = cell(columns.answer);
+    const correctAnswer = answerText ? parseAnswer(answerText, optionValues.length) : null;
+    if (!answerText) {
+      report('error', 'Missing correct answer.');
+    } else if (correctAnswer === null && optionValues.length >= MIN_OPTIONS) {
+      report('error', `Correct answer "${answerText}" does not match any of the ${optionValues.length} options (use ${OPTION_LETTERS[0]}-${OPTION_LETTERS[optionValues.length - 1]} or 1-${optionValues.length}).`);
+    }
+
+    if (question) {
+      const key = normalizeQuestion(question);
+      const duplicateOf = seen.get(key);
+      if (duplicateOf !== undefined) report('warning', `Same question as row ${duplicateOf}.`);
+      else seen.set(key, rowNumber);
+    }
+
+    // Local URL for an image referenced by file name, noting any that cannot be used
+    const loadImage = async (reference: string) => {
+      if (!reference) return null;
+      if (!options.resolveImage) {
+        report('warning', `Image "${reference}" was skipped; upload an image zip to include it.`);
+        return null;
+      }
+      const result = await options.resolveImage(reference);
+      if ('error' in result) {
+        report('warning', `${result.error} The image was skipped.`);
+        return null;
+      }
+      return result.url;
+    };
+
+    const hasErrors = rowIssues.some(issue => issue.severity === 'error');
+    if (!hasErrors) {
+      const imagePath = await loadImage(cell(columns.image));
+      const optionImages = await Promise.all(optionValues.map((_, i) => loadImage(cell(columns.optionImages[i] ?? -1))));
+
+      const draft: QuestionDraft = {
+        question,
+        options: optionValues,
+        correct_answer: correctAnswer ?? 0,
+        category: cell(columns.category) || options.defaultCategory,
+        explanation: cell(columns.explanation),
+        reference_url: cell(columns.reference),
+        image_path: imagePath,
+        option_images: optionImages.some(Boolean) ? optionImages : null,
+      };
+
+      const draftError = validateQuestionDraft(draft);
+      if (draftError) report('error', draftError);
+      else questions.push(draft);
+    }
+
+    issues.push(...rowIssues);
+  }
+
+  if (rowCount === 0) {
+    issues.push({ row: dataStart + 1, severity: 'error', message: 'The file has a header but no questions.' });
+  }
+
+  return { questions, issues, rowCount };
+};
@@ -0,0 +1,197 @@
+// Question images stored in the question-media bucket.
+// While a quiz is being authored, picked images are kept as local blob: URLs;
+// they are uploaded under <quiz_id>/ once the quiz row exists, because the
+// bucket only accepts writes to folders of quizzes the user owns (admins may
+// write anywhere, which is how question bank images go under bank/).
+
+import JSZip from 'jszip';
+import { supabase } from '../lib/supabase';
+import { QuestionDraft } from './questionTypes';
+
+export const QUESTION_MEDIA_BUCKET = 'question-media';
+
+export const MAX_MEDIA_BYTES = 5 * 1024 * 1024;
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+export const ACCEPTED_MEDIA_TYPES = Object.keys(MEDIA_EXTENSIONS);
+
+// Image not uploaded yet
+export const isLocalMedia = (path: string | null | undefined): path is string => {
+  return !!path && path.startsWith('blob:');
+};
+
+// Returns a message describing why the file cannot be attached, or null
+export const validateMediaFile = (file: File): string | null => {
+  const label = `"${file.name}"`;
+  if (!ACCEPTED_MEDIA_TYPES.includes(file.type)) return `${label} must be a PNG, JPEG, GIF or WebP image.`;
+  if (file.size > MAX_MEDIA_BYTES) return `${label} is larger than 5 MB.`;
+  return null;
+};
+
+// MIME type for an image file name, used for files read out of a zip
+export const getMediaTypeFromName = (fileName: string): string | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'jpeg') return 'image/jpeg';
+  return Object.keys(MEDIA_EXTENSIONS).find(type => MEDIA_EXTENSIONS[type] === extension) ?? null;
+};
+
+const uploadLocalMedia = async (quizId: string, localUrl: string): Promise<string> => {
+  const blob = await (await fetch(localUrl)).blob();
+  const path = `${quizId}/${crypto.randomUUID()}.${MEDIA_EXTENSIONS[blob.type] ?? 'img'}`;
+
+  const { error } = await supabase.storage
+    .from(QUESTION_MEDIA_BUCKET)
+    .upload(path, blob, { contentType: blob.type });
+
+  if (error) throw error;
+  return path;
+};
+
+// Uploads every local image in the drafts and returns the drafts pointing at the stored files.
+// The local URLs stay valid so a failed save can be retried; release them once it succeeds.
+export const uploadQuestionMedia = async <T extends QuestionDraft>(quizId: string, drafts: T[]): Promise<T[]> => {
+  const upload = (path: string | null | undefined) => {
+    return isLocalMedia(path) ? uploadLocalMedia(quizId, path) : Promise.resolve(path ?? null);
+  };
+
+  return Promise.all(drafts.map(async draft => ({
+    ...draft,
+    image_path: await upload(draft.image_path),
+    option_images: draft.option_images
+      ? await Promise.all(draft.option_images.map(upload))
+      : draft.option_images,
+  })));
+};
+
+export const releaseLocalMedia = (drafts: QuestionDraft[]) => {
+  getQuestionMediaPaths(drafts, { local: true }).forEach(url => URL.revokeObjectURL(url));
+};
+
+// Image paths the drafts reference: stored paths, or with local set the images not uploaded yet
+export const getQuestionMediaPaths = (drafts: QuestionDraft[], { local = false } = {}) => {
+  const paths = drafts.flatMap(draft => [draft.image_path, ...(draft.option_images ?? [])]);
+  return [...new Set(paths.filter((path): path is string => !!path && isLocalMedia(path) === local))];
+};
+
+// Every image stored under a quiz's folder
+export const listQuizMedia = async (quizId: string) => {
+  const { data, error } = await supabase.storage
+    .from(QUESTION_MEDIA_BUCKET)
+    .list(quizId, { limit: 1000 });
+
+  if (error) throw error;
+  return (data ?? []).map(entry => `${quizId}/${entry.name}`);
+};
+
+// Deletes stored images; used to undo uploads and copies of a save that failed
+export const removeQuestionMedia = async (paths: string[]) => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(QUESTION_MEDIA_BUCKET).remove(paths);
+  if (error) throw error;
+};
+
+export type ArchiveMediaResult = { url: string } | { error: string };
+
+// Images in a zip uploaded alongside a CSV, looked up by file name (folders and
+// case are ignored). Returns a resolver giving a local URL for each reference.
+export const openMediaArchive = async (zipFile: Blob) => {
+  const zip = await JSZip.loadAsync(zipFile);
+  const entries = new Map<string, JSZip.JSZipObject>();
+  zip.forEach((relativePath, entry) => {
+    const name = relativePath.split('/').pop()?.toLowerCase();
+    if (!entry.dir && name) entries.set(name, entry);
+  });
+
+  return async (reference: string): Promise<ArchiveMediaResult> => {
+    const fileName = reference.split(/[\\/]/).pop() ?? reference;
+    const entry = entries.get(fileName.toLowerCase());
+    if (!entry) return { error: `"${fileName}" is not in the image zip.` };
+
+    const file = new File([await entry.async('uint8array')], fileName, { type: getMediaTypeFromName(fileName) ?? '' });
+    const error = validateMediaFile(file);
+    return error ? { error } : { url: URL.createObjectURL(file) };
+  };
+};
+
+// Stored paths (of those given) that are not in the bucket, such as images of a
+// quiz exported from another project
+export const findMissingMedia = async (paths: string[]): Promise<string[]> => {
+  const folders = new Map<string, string[]>();
+  paths.forEach(path => {
+    const slash = path.lastIndexOf('/');
+    const folder = slash === -1 ? '' : path.slice(0, slash);
+    folders.set(folder, [...(folders.get(folder) ?? []), path]);
+  });
+
+  const missing = await Promise.all([...folders].map(async ([folder, folderPaths]) => {
+    const { data, error } = await supabase.storage
+      .from(QUESTION_MEDIA_BUCKET)
+      .list(folder, { limit: 1000 });
+
+    if (error) throw error;
+    const names = new Set((data ?? []).map(entry => entry.name));
+    return folderPaths.filter(path => !names.has(path.slice(folder ? folder.length + 1 : 0)));
+  }));
+
+  return missing.flat();
+};
+
+// Copies the stored images of imported drafts into the new quiz's folder. Paths
+// listed as missing are dropped, leaving the question without that image.
+export const copyQuestionMedia = async <T extends QuestionDraft>(quizId: string, drafts: T[], missing: string[]): Promise<T[]> => {
+  const copies = new Map<string, Promise<string | null>>();
+  const copy = (path: string | null | undefined) => {
+    if (!path || missing.includes(path)) return Promise.resolve(null);
+    if (!copies.has(path)) {
+      const target = `${quizId}/${crypto.randomUUID()}.${path.split('.').pop() ?? 'img'}`;
+      copies.set(path, supabase.storage
+        .from(QUESTION_MEDIA_BUCKET)
+        .copy(path, target)
+        .then(({ error }) => {
+          if (error) throw error;
+          return target;
+        }));
+    }
+    return copies.get(path)!;
+  };
+
+  return Promise.all(drafts.map(async draft => ({
+    ...draft,
+    image_path: await copy(draft.image_path),
+    option_images: draft.option_images
+      ? await Promise.all(draft.option_images.map(copy))
+      : draft.option_images,
+  })));
+};
+
+// Stored image as base64, for formats that embed their images
+export interface EmbeddedMedia {
+  name: string;
+  data: string;
+}
+
+// Downloads stored images by path; ones that cannot be read are left out
+export const readEmbeddedMedia = async (paths: string[]): Promise<Record<string, EmbeddedMedia>> => {
+  const entries = await Promise.all(paths.map(async (path): Promise<[string, EmbeddedMedia] | null> => {
+    const { data, error } = await supabase.storage.from(QUESTION_MEDIA_BUCKET).download(path);
+    if (error || !data) {
+      console.error('Error downloading question media:', error);
+      return null;
+    }
+
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    let binary = '';
+    bytes.forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+    return [path, { name: path.split('/').pop() ?? path, data: btoa(binary) }];
+  }));
+
+  return Object.fromEntries(entries.filter((entry): entry is [string, EmbeddedMedia] => entry !== null));
+};
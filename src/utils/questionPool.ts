@@ -0,0 +1,48 @@
+// Random question pool settings. start_quiz_attempt performs the actual draw;
+// these helpers keep the authoring UI and the stored pool_size/pool_rules in sync.
+
+import { PoolRule } from '../types';
+
+// Number of bank questions per category, e.g. { Science: 12, History: 8 }
+export const countByCategory = (questions: { category?: string }[]) => {
+  return questions.reduce<Record<string, number>>((counts, question) => {
+    const category = question.category || 'General';
+    counts[category] = (counts[category] || 0) + 1;
+    return counts;
+  }, {});
+};
+
+// Returns an error message when the pool cannot be drawn from the bank
+export const validateQuestionPool = (
+  questions: { category?: string }[],
+  poolSize: number | null,
+  poolRules: PoolRule[]
+): string | null => {
+  if (poolRules.length > 0) {
+    const available = countByCategory(questions);
+    for (const rule of poolRules) {
+      if (rule.count > (available[rule.category] || 0)) {
+        return `The "${rule.category}" category only has ${available[rule.category] || 0} questions, but ${rule.count} are drawn per attempt.`;
+      }
+    }
+    return null;
+  }
+
+  if (poolSize !== null && (poolSize < 1 || poolSize > questions.length)) {
+    return `Questions per attempt must be between 1 and ${questions.length}.`;
+  }
+
+  return null;
+};
+
+// Column values to store on the quiz; rules with a zero count are dropped
+export const toPoolColumns = (poolSize: number | null, poolRules: PoolRule[]) => {
+  const rules = poolRules.filter(rule => rule.count > 0);
+  if (rules.length > 0) {
+    return {
+      pool_size: rules.reduce((sum, rule) => sum + rule.count, 0),
+      pool_rules: rules,
+    };
+  }
+  return { pool_size: poolSize, pool_rules: null };
+};
@@ -0,0 +1,280 @@
+// Question type helpers shared by authoring, quiz taking and results.
+// Grading itself happens in grade_question_answer on the server.
+
+import { Question, QuestionType, SubmittedAnswer } from '../types';
+import { OptionOrder, toCanonicalOption } from './attemptShuffle';
+
+export type QuestionDraft = Omit<Question, 'id' | 'quiz_id'>;
+
+// Response fields of an answer, without the question it belongs to
+export type QuestionResponse = Omit<SubmittedAnswer, 'question_id'>;
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  multi_select: 'Multiple select',
+  true_false: 'True / False',
+  short_text: 'Short text',
+  numeric: 'Numeric',
+  ordering: 'Ordering',
+  matching: 'Matching',
+};
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 8;
+
+export const getQuestionType = (question: { type?: QuestionType | null }): QuestionType => {
+  return question.type ?? 'single_choice';
+};
+
+export const isChoiceType = (type: QuestionType) => {
+  return type === 'single_choice' || type === 'multi_select' || type === 'true_false';
+};
+
+// Types answered by arranging items rather than picking them
+export const isArrangementType = (type: QuestionType) => {
+  return type === 'ordering' || type === 'matching';
+};
+
+// Types whose options can each carry an image
+export const supportsOptionImages = (type: QuestionType) => {
+  return type === 'single_choice' || type === 'multi_select';
+};
+
+// Types made of several parts that can earn credit for each part
+export const supportsPartialCredit = (type: QuestionType) => {
+  return type === 'multi_select' || isArrangementType(type);
+};
+
+// Random permutation of 0..length-1 that differs from the identity whenever possible,
+// so the stored order never gives the answer away
+const scramble = (length: number): number[] => {
+  const order = Array.from({ length }, (_, i) => i);
+  if (length < 2) return order;
+  do {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  } while (order.every((value, index) => value === index));
+  return order;
+};
+
+export const createQuestionDraft = (category: string, type: QuestionType = 'single_choice'): QuestionDraft => {
+  return changeQuestionType({
+    question: '',
+    options: ['', '', '', ''],
+    correct_answer: 0,
+    category,
+  }, type);
+};
+
+// Switches a draft to another type, keeping the stem and any options that still apply
+export const changeQuestionType = (draft: QuestionDraft, type: QuestionType): QuestionDraft => {
+  const base: QuestionDraft = {
+    question: draft.question,
+    category: draft.category,
+    points: draft.points ?? 1,
+    explanation: draft.explanation ?? '',
+    reference_url: draft.reference_url ?? '',
+    image_path: draft.image_path ?? null,
+    option_images: null,
+    type,
+    options: [],
+    correct_answer: 0,
+    correct_answers: null,
+    accepted_answers: null,
+    case_sensitive: false,
+    numeric_answer: null,
+    numeric_tolerance: 0,
+    correct_order: null,
+    match_options: null,
+    correct_matches: null,
+    partial_credit: false,
+  };
+  const keepOptions = draft.options.length >= MIN_OPTIONS && getQuestionType(draft) !== 'true_false'
+    ? draft.options
+    : ['', '', '', ''];
+  const keepOptionImages = keepOptions === draft.options ? draft.option_images ?? null : null;
+
+  switch (type) {
+    case 'single_choice':
+      return {
+        ...base,
+        options: keepOptions,
+        option_images: keepOptionImages,
+        correct_answer: Math.min(draft.correct_answer, keepOptions.length - 1),
+      };
+    case 'multi_select':
+      return { ...base, options: keepOptions, option_images: keepOptionImages, correct_answers: [] };
+    case 'true_false':
+      return { ...base, options: TRUE_FALSE_OPTIONS, correct_answer: 0 };
+    case 'short_text':
+      return { ...base, accepted_answers: [''] };
+    case 'numeric':
+      return { ...base, numeric_answer: null, numeric_tolerance: 0 };
+    case 'ordering':
+      return { ...base, options: keepOptions };
+    case 'matching':
+      return { ...base, options: keepOptions, match_options: keepOptions.map(() => '') };
+  }
+};
+
+// Returns a message describing what is missing, or null when the draft can be saved
+export const validateQuestionDraft = (draft: QuestionDraft): string | null => {
+  if (!draft.question.trim()) return 'Every question needs text.';
+  if (draft.points !== undefined && !(draft.points > 0)) return 'Points must be greater than zero.';
+  if (draft.reference_url?.trim() && !/^https?:\/\/\S+$/i.test(draft.reference_url.trim())) {
+    return 'Reference links must start with http:// or https://.';
+  }
+
+  switch (getQuestionType(draft)) {
+    case 'single_choice':
+    case 'true_false':
+      if (draft.options.some(option => !option.trim())) return 'Fill in every option or remove the empty ones.';
+      if (draft.correct_answer < 0 || draft.correct_answer >= draft.options.length) return 'Pick the correct option.';
+      return null;
+    case 'multi_select':
+      if (draft.options.some(option => !option.trim())) return 'Fill in every option or remove the empty ones.';
+      if (!draft.correct_answers?.length) return 'Mark at least one correct option.';
+      if (draft.correct_answers.some(index => index < 0 || index >= draft.options.length)) {
+        return 'Every correct option must be one of the options.';
+      }
+      if (new Set(draft.correct_answers).size !== draft.correct_answers.length) return 'A correct option is marked twice.';
+      return null;
+    case 'short_text':
+      if (!draft.accepted_answers?.some(answer => answer.trim())) return 'Add at least one accepted answer.';
+      return null;
+    case 'numeric':
+      if (draft.numeric_answer === null || draft.numeric_answer === undefined || Number.isNaN(draft.numeric_answer)) {
+        return 'Enter the numeric answer.';
+      }
+      if ((draft.numeric_tolerance ?? 0) < 0) return 'Tolerance cannot be negative.';
+      return null;
+    case 'ordering':
+      if (draft.options.length < MIN_OPTIONS) return `Add at least ${MIN_OPTIONS} items to order.`;
+      if (draft.options.some(option => !option.trim())) return 'Fill in every item or remove the empty ones.';
+      return null;
+    case 'matching':
+      if (draft.options.length < MIN_OPTIONS) return `Add at least ${MIN_OPTIONS} pairs to match.`;
+      if (draft.options.some((option, i) => !option.trim() || !draft.match_options?.[i]?.trim())) {
+        return 'Fill in both sides of every pair or remove the empty ones.';
+      }
+      return null;
+  }
+};
+
+// Row to insert into questions; answer fields that do not apply to the type are cleared.
+// Drafts hold ordering items and matching pairs in their correct arrangement; the row
+// stores them scrambled together with the key that restores it.
+export const toQuestionRow = (draft: QuestionDraft) => {
+  const type = getQuestionType(draft);
+  const items = draft.options.map(option => option.trim());
+  const itemOrder = type === 'ordering' ? scramble(items.length) : null;
+  const matchOrder = type === 'matching' ? scramble(items.length) : null;
+
+  return {
+    question: draft.question.trim(),
+    category: draft.category,
+    type,
+    options: itemOrder
+      ? itemOrder.map(index => items[index])
+      : isChoiceType(type) || type === 'matching' ? items : [],
+    correct_order: itemOrder
+      ? items.map((_, position) => itemOrder.indexOf(position))
+      : null,
+    match_options: matchOrder
+      ? matchOrder.map(index => (draft.match_options?.[index] ?? '').trim())
+      : null,
+    correct_matches: matchOrder
+      ? items.map((_, index) => matchOrder.indexOf(index))
+      : null,
+    points: draft.points && draft.points > 0 ? draft.points : 1,
+    explanation: draft.explanation?.trim() || null,
+    reference_url: draft.reference_url?.trim() || null,
+    image_path: draft.image_path || null,
+    option_images: supportsOptionImages(type) && draft.option_images?.some(Boolean)
+      ? items.map((_, index) => draft.option_images?.[index] || null)
+      : null,
+    partial_credit: supportsPartialCredit(type) ? !!draft.partial_credit : false,
+    correct_answer: type === 'single_choice' || type === 'true_false' ? draft.correct_answer : 0,
+    correct_answers: type === 'multi_select' ? [...(draft.correct_answers ?? [])].sort((a, b) => a - b) : null,
+    accepted_answers: type === 'short_text'
+      ? (draft.accepted_answers ?? []).map(answer => answer.trim()).filter(Boolean)
+      : null,
+    case_sensitive: type === 'short_text' ? !!draft.case_sensitive : false,
+    numeric_answer: type === 'numeric' ? draft.numeric_answer ?? null : null,
+    numeric_tolerance: type === 'numeric' ? draft.numeric_tolerance ?? 0 : 0,
+  };
+};
+
+// Inverse of toQuestionRow: puts ordering items and matching pairs back in their correct arrangement
+export const toQuestionDraft = <T extends QuestionDraft>(question: T): T => {
+  const type = getQuestionType(question);
+
+  if (type === 'ordering' && question.correct_order?.length) {
+    return { ...question, options: question.correct_order.map(index => question.options[index]) };
+  }
+  if (type === 'matching' && question.correct_matches?.length) {
+    return { ...question, match_options: question.correct_matches.map(index => question.match_options?.[index] ?? '') };
+  }
+  return question;
+};
+
+// Placeholder for a question the student has not answered yet
+export const createEmptyAnswer = (questionId: string): SubmittedAnswer => {
+  return { question_id: questionId, selected_answer: null };
+};
+
+export const hasResponse = (answer: QuestionResponse | undefined | null) => {
+  if (!answer) return false;
+  if (answer.selected_answer !== undefined && answer.selected_answer !== null) return true;
+  if (answer.selected_answers && answer.selected_answers.length > 0) return true;
+  return !!answer.text_answer?.trim();
+};
+
+// Canonical option indices picked in a response, for choice questions
+export const getSelectedOptions = (
+  questionId: string,
+  answer: QuestionResponse | undefined | null,
+  optionOrder?: OptionOrder | null
+): number[] => {
+  if (!answer) return [];
+  const displayed = answer.selected_answers
+    ?? (answer.selected_answer !== undefined && answer.selected_answer !== null ? [answer.selected_answer] : []);
+  return displayed
+    .map(index => toCanonicalOption(optionOrder, questionId, index))
+    .filter((index): index is number => index !== null);
+};
+
+export const getCorrectOptions = (
+  question: Pick<Question, 'type' | 'correct_answer' | 'correct_answers' | 'correct_order' | 'correct_matches'>
+): number[] => {
+  const type = getQuestionType(question);
+  if (type === 'multi_select') return question.correct_answers ?? [];
+  if (type === 'single_choice' || type === 'true_false') return [question.correct_answer];
+  if (type === 'ordering') return question.correct_order ?? [];
+  if (type === 'matching') return question.correct_matches ?? [];
+  return [];
+};
+
+// Plain-text form of the expected answer, used for text-based questions and reports
+export const describeCorrectAnswer = (question: Question | QuestionDraft): string => {
+  switch (getQuestionType(question)) {
+    case 'short_text':
+      return (question.accepted_answers ?? []).join(' / ') + (question.case_sensitive ? ' (case-sensitive)' : '');
+    case 'numeric':
+      return question.numeric_tolerance
+        ? `${question.numeric_answer} (± ${question.numeric_tolerance})`
+        : `${question.numeric_answer}`;
+    case 'ordering':
+      return getCorrectOptions(question).map(index => question.options[index]).join(' → ');
+    case 'matching':
+      return getCorrectOptions(question)
+        .map((matchIndex, index) => `${question.options[index]} → ${question.match_options?.[matchIndex] ?? ''}`)
+        .join('; ');
+    default:
+      return getCorrectOptions(question).map(index => question.options[index]).join(', ');
+  }
+};
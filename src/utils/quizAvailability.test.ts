@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { canPracticeQuiz } from './quizAvailability';
+
+const now = new Date('2025-08-20T12:00:00Z');
+const past = '2025-08-19T12:00:00Z';
+const future = '2025-08-21T12:00:00Z';
+
+describe('canPracticeQuiz', () => {
+  it('allows practice on quizzes with unlimited attempts', () => {
+    expect(canPracticeQuiz({ max_attempts: undefined }, 0, false, now)).toBe(true);
+    expect(canPracticeQuiz({ max_attempts: 0, end_time: future, late_policy: 'block' }, 2, false, now)).toBe(true);
+  });
+
+  it('never allows practice while an attempt is open', () => {
+    expect(canPracticeQuiz({ max_attempts: undefined }, 0, true, now)).toBe(false);
+    expect(canPracticeQuiz({ max_attempts: 1, end_time: past, late_policy: 'block' }, 1, true, now)).toBe(false);
+  });
+
+  it('waits for limited attempts to be used up while the quiz is open', () => {
+    expect(canPracticeQuiz({ max_attempts: 2, end_time: future }, 1, false, now)).toBe(false);
+    expect(canPracticeQuiz({ max_attempts: 2, end_time: future }, 2, false, now)).toBe(true);
+  });
+
+  it('allows practice once a quiz with limited attempts has closed', () => {
+    expect(canPracticeQuiz({ max_attempts: 2, end_time: past, late_policy: 'block' }, 0, false, now)).toBe(true);
+    expect(canPracticeQuiz({ max_attempts: 2, end_time: past, late_policy: 'allow_late' }, 0, false, now)).toBe(false);
+  });
+});
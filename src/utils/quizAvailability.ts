@@ -0,0 +1,78 @@
+// Availability window helpers shared by the quiz browser, preview and taker.
+// The server enforces the same rules in start_quiz_attempt / submit_quiz_attempt.
+
+import { Quiz, LatePolicy, QuizStatus } from '../types';
+
+export type QuizAvailability = 'upcoming' | 'open' | 'late' | 'closed';
+
+type AvailabilityFields = Pick<Quiz, 'start_time' | 'end_time' | 'late_policy'>;
+
+export const LATE_POLICY_LABELS: Record<LatePolicy, string> = {
+  block: 'Block new attempts',
+  allow_late: 'Allow late attempts (marked late)',
+  penalty: 'Allow late attempts with a penalty',
+};
+
+export const QUIZ_STATUS_LABELS: Record<QuizStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+// Drafts and archived quizzes are hidden from browsing; start_quiz_attempt rejects them too
+export const isQuizPublished = (quiz: Pick<Quiz, 'status'>) => {
+  return (quiz.status ?? 'published') === 'published';
+};
+
+export const getQuizAvailability = (quiz: AvailabilityFields, now: Date = new Date()): QuizAvailability => {
+  if (quiz.start_time && now < new Date(quiz.start_time)) {
+    return 'upcoming';
+  }
+
+  if (quiz.end_time && now >= new Date(quiz.end_time)) {
+    return (quiz.late_policy ?? 'block') === 'block' ? 'closed' : 'late';
+  }
+
+  return 'open';
+};
+
+// Practice reveals answers, so it is never offered during an open attempt, and
+// with limited attempts only once they can no longer change the result.
+// Mirrors can_practice_quiz on the server.
+export const canPracticeQuiz = (
+  quiz: AvailabilityFields & Pick<Quiz, 'max_attempts'>,
+  completedAttempts: number,
+  hasOpenAttempt: boolean,
+  now: Date = new Date()
+) => {
+  if (hasOpenAttempt) return false;
+  if (!quiz.max_attempts) return true;
+  if (getQuizAvailability(quiz, now) === 'closed') return true;
+  return completedAttempts >= quiz.max_attempts;
+};
+
+// True when attempts are cut off at end_time, so the countdown must account for it
+export const isHardDeadline = (quiz: AvailabilityFields) => {
+  return !!quiz.end_time && (quiz.late_policy ?? 'block') === 'block';
+};
+
+// Short user-facing explanation of what happens after the quiz closes
+export const describeLatePolicy = (quiz: Pick<Quiz, 'late_policy' | 'late_penalty_percent'>) => {
+  switch (quiz.late_policy) {
+    case 'allow_late':
+      return 'Late attempts are accepted and marked as late.';
+    case 'penalty':
+      return `Late attempts are accepted with a ${quiz.late_penalty_percent ?? 0}% score penalty.`;
+    case 'block':
+    default:
+      return 'No attempts are accepted after the quiz closes.';
+  }
+};
+
+// Value for a datetime-local input showing a stored timestamp in local time
+export const toDateTimeInputValue = (timestamp: string | null | undefined) => {
+  if (!timestamp) return '';
+  const date = new Date(timestamp);
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
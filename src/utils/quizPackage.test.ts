@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { QUIZ_PACKAGE_FORMAT, QUIZ_PACKAGE_VERSION, parseQuizPackage } from './quizPackage';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const packageWith = (question: Record<string, unknown>) => JSON.stringify({
+  format: QUIZ_PACKAGE_FORMAT,
+  version: QUIZ_PACKAGE_VERSION,
+  exported_at: '2025-08-20T12:00:00Z',
+  quiz: { title: 'Rivers', description: '', category: 'General' },
+  questions: [{ question: 'Which are rivers?', options: ['Nile', 'Alps', 'Amazon'], correct_answer: 0, category: 'General', ...question }],
+  media: [],
+});
+
+describe('parseQuizPackage', () => {
+  it('reads multi-select questions whose correct options exist', () => {
+    const result = parseQuizPackage(packageWith({ type: 'multi_select', correct_answers: [0, 2] }));
+    expect(result.errors).toEqual([]);
+    expect(result.package?.questions[0].correct_answers).toEqual([0, 2]);
+  });
+
+  it('rejects multi-select correct options outside the options', () => {
+    const result = parseQuizPackage(packageWith({ type: 'multi_select', correct_answers: [0, 3] }));
+    expect(result.package).toBeNull();
+    expect(result.errors).toEqual(['Question 1: Every correct option must be one of the options.']);
+  });
+
+  it('rejects a multi-select correct option marked twice', () => {
+    const result = parseQuizPackage(packageWith({ type: 'multi_select', correct_answers: [2, 2] }));
+    expect(result.package).toBeNull();
+    expect(result.errors).toEqual(['Question 1: A correct option is marked twice.']);
+  });
+
+  it('rejects question types inherited from Object', () => {
+    const result = parseQuizPackage(packageWith({ type: 'toString' }));
+    expect(result.package).toBeNull();
+    expect(result.errors).toEqual(['Question 1: "type" must be a known question type.']);
+  });
+});
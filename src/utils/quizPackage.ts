@@ -0,0 +1,250 @@
+// Portable JSON form of a quiz, used to move quizzes between projects and to
+// back them up. Questions are stored as drafts (ordering items and matching
+// pairs in their correct arrangement), without ids, so a package can be
+// imported any number of times. Images are referenced by their path in the
+// question-media bucket; they only resolve in a project that has them.
+
+import { supabase } from '../lib/supabase';
+import { Question, Quiz } from '../types';
+import { QUESTION_TYPE_LABELS, QuestionDraft, toQuestionDraft, validateQuestionDraft } from './questionTypes';
+import { getQuestionMediaPaths } from './questionMedia';
+
+export const QUIZ_PACKAGE_FORMAT = 'quiz-package';
+export const QUIZ_PACKAGE_VERSION = 1;
+
+// Quiz columns carried in a package; ownership, status and dates of the source row are not
+export type QuizPackageSettings = Pick<Quiz, 'title' | 'description' | 'category'> & Partial<Pick<Quiz,
+  | 'time_limit'
+  | 'max_attempts'
+  | 'start_time'
+  | 'end_time'
+  | 'late_policy'
+  | 'late_penalty_percent'
+  | 'shuffle_questions'
+  | 'shuffle_options'
+  | 'pool_size'
+  | 'pool_rules'
+  | 'negative_marking'
+>>;
+
+export interface QuizPackage {
+  format: typeof QUIZ_PACKAGE_FORMAT;
+  version: number;
+  exported_at: string;
+  quiz: QuizPackageSettings;
+  questions: QuestionDraft[];
+  media: string[]; // Every image path referenced by the questions
+}
+
+type FieldRule = [check: (value: unknown) => boolean, expected: string];
+
+const isString = (value: unknown) => typeof value === 'string';
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isInteger = (value: unknown) => Number.isInteger(value);
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+const arrayOf = (check: (value: unknown) => boolean) => (value: unknown) => {
+  return Array.isArray(value) && value.every(check);
+};
+const nullable = ([check, expected]: FieldRule): FieldRule => [
+  value => value === null || check(value),
+  `${expected} or null`,
+];
+
+const TEXT: FieldRule = [isString, 'text'];
+const NUMBER: FieldRule = [isNumber, 'a number'];
+const INTEGER: FieldRule = [isInteger, 'a whole number'];
+const BOOLEAN: FieldRule = [isBoolean, 'true or false'];
+const TEXT_LIST: FieldRule = [arrayOf(isString), 'a list of text'];
+const INTEGER_LIST: FieldRule = [arrayOf(isInteger), 'a list of whole numbers'];
+
+const QUIZ_FIELDS: Record<keyof QuizPackageSettings, FieldRule> = {
+  title: TEXT,
+  description: TEXT,
+  category: TEXT,
+  time_limit: nullable(INTEGER),
+  max_attempts: nullable(INTEGER),
+  start_time: nullable(TEXT),
+  end_time: nullable(TEXT),
+  late_policy: [value => value === 'block' || value === 'allow_late' || value === 'penalty', 'block, allow_late or penalty'],
+  late_penalty_percent: NUMBER,
+  shuffle_questions: BOOLEAN,
+  shuffle_options: BOOLEAN,
+  pool_size: nullable(INTEGER),
+  pool_rules: nullable([
+    arrayOf(rule => isObject(rule) && isString(rule.category) && isInteger(rule.count)),
+    'a list of { category, count } rules',
+  ]),
+  negative_marking: NUMBER,
+};
+
+// Drafts hold ordering items and matching pairs in their correct arrangement,
+// so the keys into the stored (scrambled) arrangement are not carried. Links to
+// the question bank only mean something in the database they came from.
+const QUESTION_FIELDS: Record<Exclude<keyof QuestionDraft, 'correct_order' | 'correct_matches' | 'bank_question_id'>, FieldRule> = {
+  question: TEXT,
+  options: TEXT_LIST,
+  correct_answer: INTEGER,
+  category: TEXT,
+  type: [value => isString(value) && Object.prototype.hasOwnProperty.call(QUESTION_TYPE_LABELS, value as string), 'a known question type'],
+  correct_answers: nullable(INTEGER_LIST),
+  accepted_answers: nullable(TEXT_LIST),
+  case_sensitive: BOOLEAN,
+  numeric_answer: nullable(NUMBER),
+  numeric_tolerance: NUMBER,
+  match_options: nullable(TEXT_LIST),
+  partial_credit: BOOLEAN,
+  points: NUMBER,
+  explanation: nullable(TEXT),
+  reference_url: nullable(TEXT),
+  image_path: nullable(TEXT),
+  option_images: nullable([arrayOf(value => value === null || isString(value)), 'a list of image paths']),
+};
+
+// Copies the known fields of a package object, reporting any of the wrong type.
+// Unknown fields are ignored so newer exports of the same version still import.
+const readFields = <T>(source: Record<string, unknown>, rules: Record<string, FieldRule>, label: string, errors: string[]) => {
+  const result: Record<string, unknown> = {};
+  Object.entries(rules).forEach(([field, [check, expected]]) => {
+    const value = source[field];
+    if (value === undefined) return;
+    if (check(value)) result[field] = value;
+    else errors.push(`${label}: "${field}" must be ${expected}.`);
+  });
+  return result as Partial<T>;
+};
+
+export const buildQuizPackage = (quiz: Quiz, questions: Question[]): QuizPackage => {
+  const settings = Object.fromEntries(
+    Object.keys(QUIZ_FIELDS)
+      .filter(field => quiz[field as keyof Quiz] !== undefined)
+      .map(field => [field, quiz[field as keyof Quiz]])
+  ) as QuizPackageSettings;
+
+  const drafts = questions.map(question => {
+    const draft = toQuestionDraft(question);
+    return Object.fromEntries(
+      Object.keys(QUESTION_FIELDS)
+        .filter(field => draft[field as keyof Question] !== undefined)
+        .map(field => [field, draft[field as keyof Question]])
+    ) as QuestionDraft;
+  });
+
+  return {
+    format: QUIZ_PACKAGE_FORMAT,
+    version: QUIZ_PACKAGE_VERSION,
+    exported_at: new Date().toISOString(),
+    quiz: settings,
+    questions: drafts,
+    media: getQuestionMediaPaths(drafts),
+  };
+};
+
+// Loads a quiz and its questions in the order they were written
+export const fetchQuizPackage = async (quizId: string): Promise<QuizPackage> => {
+  const [quizResult, questionsResult] = await Promise.all([
+    supabase.from('quizzes').select('*').eq('id', quizId).single(),
+    supabase.from('questions').select('*').eq('quiz_id', quizId).order('created_at').order('id'),
+  ]);
+
+  if (quizResult.error) throw quizResult.error;
+  if (questionsResult.error) throw questionsResult.error;
+
+  return buildQuizPackage(quizResult.data as Quiz, questionsResult.data as Question[]);
+};
+
+export const getQuizPackageFileName = (title: string) => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'quiz';
+  return `${slug}-${new Date().toISOString().split('T')[0]}.quiz.json`;
+};
+
+export type QuizPackageParseResult =
+  | { package: QuizPackage; errors: [] }
+  | { package: null; errors: string[] };
+
+// Validates the text of a package file. Every problem is reported, so a broken
+// file can be fixed in one pass; the package is only returned when there are none.
+export const parseQuizPackage = (text: string): QuizPackageParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { package: null, errors: ['The file is not valid JSON.'] };
+  }
+
+  if (!isObject(data) || data.format !== QUIZ_PACKAGE_FORMAT) {
+    return { package: null, errors: ['The file is not a quiz package.'] };
+  }
+  if (!isInteger(data.version) || (data.version as number) < 1) {
+    return { package: null, errors: ['The package has no valid format version.'] };
+  }
+  if ((data.version as number) > QUIZ_PACKAGE_VERSION) {
+    return {
+      package: null,
+      errors: [`The package uses format version ${data.version}, but this app only reads up to version ${QUIZ_PACKAGE_VERSION}.`],
+    };
+  }
+
+  const errors: string[] = [];
+
+  if (!isObject(data.quiz)) {
+    errors.push('The package has no quiz settings.');
+  }
+  const quiz = readFields<QuizPackageSettings>(isObject(data.quiz) ? data.quiz : {}, QUIZ_FIELDS, 'Quiz', errors);
+  if (isObject(data.quiz) && !quiz.title?.trim()) {
+    errors.push('Quiz: "title" is required.');
+  }
+
+  const questions: QuestionDraft[] = [];
+  if (!Array.isArray(data.questions) || data.questions.length === 0) {
+    errors.push('The package has no questions.');
+  } else {
+    data.questions.forEach((value, index) => {
+      const label = `Question ${index + 1}`;
+      if (!isObject(value)) {
+        errors.push(`${label}: must be an object.`);
+        return;
+      }
+
+      const fieldErrors: string[] = [];
+      const fields = readFields<QuestionDraft>(value, QUESTION_FIELDS, label, fieldErrors);
+      if (value.question === undefined) fieldErrors.push(`${label}: "question" is required.`);
+      errors.push(...fieldErrors);
+      if (fieldErrors.length > 0) return;
+
+      const draft: QuestionDraft = {
+        ...fields,
+        question: fields.question ?? '',
+        options: fields.options ?? [],
+        correct_answer: fields.correct_answer ?? 0,
+        category: fields.category?.trim() || quiz.category || 'General',
+      };
+      const draftError = validateQuestionDraft(draft);
+      if (draftError) errors.push(`${label}: ${draftError}`);
+      else questions.push(draft);
+    });
+  }
+
+  if (errors.length > 0) {
+    return { package: null, errors };
+  }
+
+  return {
+    package: {
+      format: QUIZ_PACKAGE_FORMAT,
+      version: data.version as number,
+      exported_at: isString(data.exported_at) ? data.exported_at as string : '',
+      quiz: {
+        ...quiz,
+        title: quiz.title ?? '',
+        description: quiz.description ?? '',
+        category: quiz.category?.trim() || 'General',
+      },
+      questions,
+      media: getQuestionMediaPaths(questions),
+    },
+    errors: [],
+  };
+};
@@ -0,0 +1,93 @@
+// Saving a quiz from the editor and the importers. save_quiz writes the quiz,
+// its questions and the version snapshot in one transaction. Images have to be
+// stored under the quiz's folder before that, so a new quiz that has any gets
+// its row (an empty draft) first; if the save then fails, that row and the
+// images stored for it are removed again.
+
+import { supabase } from '../lib/supabase';
+import { Quiz } from '../types';
+import { QuestionDraft, toQuestionRow } from './questionTypes';
+import { getQuestionMediaPaths, listQuizMedia, releaseLocalMedia, removeQuestionMedia } from './questionMedia';
+
+type SavedQuestion = QuestionDraft & { id?: string };
+
+interface SaveQuizOptions<T extends SavedQuestion> {
+  // Quiz being edited; a new quiz is created without one
+  quizId?: string | null;
+  fields: Record<string, unknown>;
+  // Questions to write: updated when they have an id, inserted otherwise
+  questions: T[];
+  deletedIds?: string[];
+  createdBy?: string;
+  // Stores the questions' images under the quiz and returns the questions
+  // pointing at them; leave it out when there are no images to store
+  storeMedia?: (quizId: string, questions: T[]) => Promise<T[]>;
+}
+
+// Best effort: the original error is what the caller reports
+const discardFailedSave = async (createdQuizId: string | null, storedPaths: string[]) => {
+  try {
+    // A new quiz's folder holds only this save's images, including any stored
+    // before a failed upload or copy
+    const paths = createdQuizId ? await listQuizMedia(createdQuizId) : storedPaths;
+    await removeQuestionMedia(paths);
+  } catch (error) {
+    console.error('Error removing images of the failed save:', error);
+  }
+
+  if (createdQuizId) {
+    const { error } = await supabase.from('quizzes').delete().eq('id', createdQuizId);
+    if (error) console.error('Error removing the unsaved quiz:', error);
+  }
+};
+
+export const saveQuiz = async <T extends SavedQuestion>({
+  quizId = null,
+  fields,
+  questions,
+  deletedIds = [],
+  createdBy,
+  storeMedia,
+}: SaveQuizOptions<T>): Promise<Quiz> => {
+  let savedQuizId = quizId;
+  let createdQuizId: string | null = null;
+  let storedPaths: string[] = [];
+
+  try {
+    let questionsWithMedia = questions;
+    if (storeMedia) {
+      if (!savedQuizId) {
+        const { data: created, error: createError } = await supabase
+          .from('quizzes')
+          .insert([{ ...fields, created_by: createdBy }])
+          .select('id')
+          .single();
+
+        if (createError) throw createError;
+        savedQuizId = createdQuizId = created.id as string;
+      }
+
+      questionsWithMedia = await storeMedia(savedQuizId, questions);
+      const existingPaths = new Set(getQuestionMediaPaths(questions));
+      storedPaths = getQuestionMediaPaths(questionsWithMedia).filter(path => !existingPaths.has(path));
+    }
+
+    const { data: quiz, error: saveError } = await supabase.rpc('save_quiz', {
+      p_quiz_id: savedQuizId,
+      p_fields: fields,
+      p_upserts: questionsWithMedia.map(q => ({
+        ...toQuestionRow(q),
+        id: q.id ?? null,
+        bank_question_id: q.bank_question_id ?? null,
+      })),
+      p_deletes: deletedIds,
+    });
+
+    if (saveError) throw saveError;
+    releaseLocalMedia(questions);
+    return quiz as Quiz;
+  } catch (error) {
+    await discardFailedSave(createdQuizId, storedPaths);
+    throw error;
+  }
+};
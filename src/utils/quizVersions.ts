@@ -0,0 +1,88 @@
+// Comparison of two quiz versions for the version history. Questions are
+// matched by id and compared in their authoring form, so re-scrambled ordering
+// and matching rows do not show up as changes.
+
+import { Question, QuizVersion, QuizVersionSettings } from '../types';
+import { QUESTION_TYPE_LABELS, describeCorrectAnswer, getQuestionType, toQuestionDraft } from './questionTypes';
+
+export interface QuestionChange {
+  question: Question;
+  fields: string[]; // Labels of the parts that differ, e.g. "Correct answer"
+}
+
+export interface SettingChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+export interface QuizVersionDiff {
+  added: Question[];
+  removed: Question[];
+  changed: QuestionChange[];
+  settings: SettingChange[];
+}
+
+const QUESTION_FIELDS: { label: string; value: (question: Question) => unknown }[] = [
+  { label: 'Question text', value: q => q.question },
+  { label: 'Type', value: q => QUESTION_TYPE_LABELS[getQuestionType(q)] },
+  { label: 'Category', value: q => q.category },
+  { label: 'Options', value: q => [q.options, q.match_options ?? []] },
+  { label: 'Correct answer', value: q => describeCorrectAnswer(q) },
+  { label: 'Points', value: q => q.points ?? 1 },
+  { label: 'Partial credit', value: q => !!q.partial_credit },
+  { label: 'Explanation', value: q => q.explanation ?? '' },
+  { label: 'Reference link', value: q => q.reference_url ?? '' },
+  { label: 'Images', value: q => [q.image_path ?? null, q.option_images ?? []] },
+];
+
+const formatFlag = (value: boolean | undefined) => (value ? 'On' : 'Off');
+
+const SETTING_FIELDS: { label: string; value: (settings: QuizVersionSettings) => string }[] = [
+  { label: 'Title', value: s => s.title ?? '' },
+  { label: 'Description', value: s => s.description ?? '' },
+  { label: 'Category', value: s => s.category ?? '' },
+  { label: 'Time limit', value: s => `${s.time_limit ?? 30} min` },
+  { label: 'Max attempts', value: s => (s.max_attempts ? `${s.max_attempts}` : 'Unlimited') },
+  { label: 'Negative marking', value: s => `${Math.round((s.negative_marking ?? 0) * 100)}%` },
+  {
+    label: 'Question pool',
+    value: s => s.pool_rules?.length
+      ? s.pool_rules.map(rule => `${rule.count} × ${rule.category}`).join(', ')
+      : s.pool_size ? `${s.pool_size} random questions` : 'All questions',
+  },
+  { label: 'Shuffle questions', value: s => formatFlag(s.shuffle_questions) },
+  { label: 'Shuffle options', value: s => formatFlag(s.shuffle_options) },
+];
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// What changed going from `previous` to `current`; with no previous version
+// every question counts as added
+export const diffQuizVersions = (current: QuizVersion, previous?: QuizVersion | null): QuizVersionDiff => {
+  const before = new Map((previous?.questions ?? []).map(q => [q.id, toQuestionDraft(q)]));
+  const after = (current.questions ?? []).map(toQuestionDraft);
+  const afterIds = new Set(after.map(q => q.id));
+
+  const changed = after.flatMap(question => {
+    const old = before.get(question.id);
+    if (!old) return [];
+    const fields = QUESTION_FIELDS
+      .filter(field => !isSame(field.value(old), field.value(question)))
+      .map(field => field.label);
+    return fields.length > 0 ? [{ question, fields }] : [];
+  });
+
+  const settings = previous
+    ? SETTING_FIELDS
+        .map(field => ({ label: field.label, from: field.value(previous.settings), to: field.value(current.settings) }))
+        .filter(change => change.from !== change.to)
+    : [];
+
+  return {
+    added: after.filter(q => !before.has(q.id)),
+    removed: [...before.values()].filter(q => !afterIds.has(q.id)),
+    changed,
+    settings,
+  };
+};
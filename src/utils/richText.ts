@@ -0,0 +1,140 @@
+// Markdown rendering for question stems, options and explanations.
+// Supports GitHub-flavoured markdown, highlighted fenced code and KaTeX math
+// ($inline$ and $$display$$). Raw HTML in the source is shown as text and the
+// output is sanitized before it reaches the page.
+
+import { Marked, Tokens } from 'marked';
+import hljs from 'highlight.js/lib/common';
+import katex from 'katex';
+import DOMPurify from 'dompurify';
+
+const escapeHtml = (text: string) => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const renderMath = (tex: string, displayMode: boolean) => {
+  return katex.renderToString(tex, { displayMode, throwOnError: false });
+};
+
+const markdown = new Marked({ gfm: true, breaks: true });
+
+markdown.use({
+  extensions: [
+    {
+      name: 'blockMath',
+      level: 'block',
+      start: (src: string) => src.match(/^\$\$/m)?.index,
+      tokenizer(src: string) {
+        const match = /^\$\$([\s\S]+?)\$\$[^\S\n]*(?:\n|$)/.exec(src);
+        if (match) {
+          return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+        }
+      },
+      renderer: (token) => `<div class="rich-text-math">${renderMath(token.text, true)}</div>`,
+    },
+    {
+      name: 'inlineMath',
+      level: 'inline',
+      start: (src: string) => src.indexOf('$'),
+      tokenizer(src: string) {
+        // A closing $ followed by a digit is left alone so prices like "$5 or $10" stay text
+        const match = /^\$\$([\s\S]+?)\$\$/.exec(src) ?? /^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/.exec(src);
+        if (match) {
+          return { type: 'inlineMath', raw: match[0], text: match[1].trim(), displayMode: match[0].startsWith('$$') };
+        }
+      },
+      renderer: (token) => renderMath(token.text, !!token.displayMode),
+    },
+  ],
+  renderer: {
+    code({ text, lang }: Tokens.Code) {
+      const language = lang?.trim().split(/\s+/)[0];
+      const highlighted = language && hljs.getLanguage(language)
+        ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+        : escapeHtml(text);
+      return `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ''}">${highlighted}</code></pre>`;
+    },
+    html({ text }: Tokens.HTML | Tokens.Tag) {
+      return escapeHtml(text);
+    },
+  },
+});
+
+// Links open in a new tab so a quiz in progress is never navigated away from
+DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+  if (node.tagName === 'A' && node.getAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+// Sanitized HTML for a markdown source. Inline mode skips paragraph wrapping,
+// for short text such as options that sit inside buttons and table cells.
+export const renderRichText = (source: string, inline = false): string => {
+  const html = inline
+    ? markdown.parseInline(source, { async: false })
+    : markdown.parse(source, { async: false });
+  return DOMPurify.sanitize(html);
+};
+
+// Whether the source uses any markdown or math syntax, so authoring forms only
+// show a preview when it would differ from the plain text
+export const hasRichText = (source: string | null | undefined): boolean => {
+  return !!source && /[`*_$#>[\]\\~|]|^\s*([-+]|\d+\.)\s/m.test(source);
+};
+
+const HTML_BLOCKS = new Set(['P', 'DIV', 'LI', 'UL', 'OL', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'TABLE', 'TR', 'BLOCKQUOTE', 'PRE']);
+
+// Markdown for HTML written by another system (such as an LMS export), keeping
+// paragraphs, line breaks, lists and basic emphasis. Images are dropped.
+export const htmlToMarkdown = (html: string): string => {
+  const convert = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ');
+    if (!(node instanceof Element)) return '';
+
+    const inner = Array.from(node.childNodes).map(convert).join('');
+    switch (node.tagName) {
+      case 'BR':
+        return '\n';
+      case 'IMG':
+      case 'SCRIPT':
+      case 'STYLE':
+        return '';
+      case 'STRONG':
+      case 'B':
+        return inner.trim() ? `**${inner.trim()}**` : '';
+      case 'EM':
+      case 'I':
+        return inner.trim() ? `*${inner.trim()}*` : '';
+      case 'CODE':
+        return node.parentElement?.tagName === 'PRE' ? inner : `\`${inner}\``;
+      case 'PRE':
+        return `\n\n\`\`\`\n${node.textContent ?? ''}\n\`\`\`\n\n`;
+      case 'LI':
+        return `\n${node.parentElement?.tagName === 'OL' ? `${Array.from(node.parentElement.children).indexOf(node) + 1}.` : '-'} ${inner.trim()}`;
+      case 'TD':
+      case 'TH':
+        return `${inner.trim()} `;
+      default:
+        return HTML_BLOCKS.has(node.tagName) ? `\n\n${inner.trim()}\n\n` : inner;
+    }
+  };
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  // Lines are trimmed of the spaces left around tags, except inside code blocks
+  let inCode = false;
+  return convert(doc.body)
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('```')) inCode = !inCode;
+      return inCode ? line : line.trim().replace(/ {2,}/g, ' ');
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
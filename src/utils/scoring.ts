@@ -0,0 +1,38 @@
+// Points-based scoring shared by results, leaderboards and analytics.
+// Points are awarded by submit_quiz_attempt; attempts from before weighted
+// points fall back to one point per question.
+
+interface ScoredAttempt {
+  score: number;
+  total_questions: number;
+  earned_points?: number | string | null;
+  max_points?: number | string | null;
+}
+
+export const getAttemptPoints = (attempt: ScoredAttempt) => {
+  if (attempt.max_points !== null && attempt.max_points !== undefined) {
+    // NUMERIC columns can arrive as strings
+    return { earned: Number(attempt.earned_points) || 0, max: Number(attempt.max_points) || 0 };
+  }
+  return { earned: attempt.score || 0, max: attempt.total_questions || 0 };
+};
+
+// Percentage of available points, 0-100
+export const getAttemptPercentage = (attempt: ScoredAttempt) => {
+  const { earned, max } = getAttemptPoints(attempt);
+  return max > 0 ? (earned / max) * 100 : 0;
+};
+
+// Percentage across several attempts, weighting each by the points it offered
+export const getAveragePercentage = (attempts: ScoredAttempt[]) => {
+  const totals = attempts.reduce((sum, attempt) => {
+    const { earned, max } = getAttemptPoints(attempt);
+    return { earned: sum.earned + earned, max: sum.max + max };
+  }, { earned: 0, max: 0 });
+  return totals.max > 0 ? (totals.earned / totals.max) * 100 : 0;
+};
+
+// Trims trailing zeros so 3.50 shows as 3.5 and 2.00 as 2
+export const formatPoints = (points: number) => {
+  return Number(points.toFixed(2)).toString();
+};
@@ -0,0 +1,193 @@
+// Reads the sheets of .xlsx (Excel, Google Sheets download) and .ods
+// (LibreOffice, Google Sheets download) workbooks as rows of cell text.
+// Both formats are zipped XML, so they are read with JSZip and DOMParser;
+// formulas come through as their last calculated value.
+
+import JSZip from 'jszip';
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: string[][];
+}
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.ods'];
+
+export const isSpreadsheetFile = (fileName: string) => {
+  const name = fileName.toLowerCase();
+  return SPREADSHEET_EXTENSIONS.some(extension => name.endsWith(extension));
+};
+
+const parseXml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The spreadsheet contains malformed XML.');
+  }
+  return doc;
+};
+
+// Elements by local name, whatever namespace prefix the file uses
+const byName = (parent: Document | Element, localName: string) => {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+};
+
+const childrenByName = (parent: Element, localName: string) => {
+  return Array.from(parent.children).filter(child => child.localName === localName);
+};
+
+const readZipText = async (zip: JSZip, path: string) => {
+  const entry = zip.file(path);
+  return entry ? entry.async('string') : null;
+};
+
+// Drops empty cells at the end of each row and blank rows at the end of the sheet
+const trimRows = (rows: string[][]) => {
+  const trimmed = rows.map(row => {
+    let end = row.length;
+    while (end > 0 && !row[end - 1]) end--;
+    return row.slice(0, end);
+  });
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1].length === 0) trimmed.pop();
+  return trimmed;
+};
+
+// Zero-based column index of a cell reference such as "C12"
+const columnIndex = (reference: string) => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// Text of a shared or inline string, skipping phonetic runs
+const stringItemText = (item: Element) => {
+  return byName(item, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent ?? '')
+    .join('');
+};
+
+const readXlsx = async (zip: JSZip): Promise<SpreadsheetSheet[]> => {
+  const workbookXml = await readZipText(zip, 'xl/workbook.xml');
+  if (!workbookXml) throw new Error('This is not a valid .xlsx workbook.');
+
+  const relsXml = await readZipText(zip, 'xl/_rels/workbook.xml.rels');
+  const targets = new Map<string, string>();
+  if (relsXml) {
+    byName(parseXml(relsXml), 'Relationship').forEach(rel => {
+      const target = rel.getAttribute('Target') ?? '';
+      targets.set(rel.getAttribute('Id') ?? '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    });
+  }
+
+  const sharedXml = await readZipText(zip, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedXml ? byName(parseXml(sharedXml), 'si').map(stringItemText) : [];
+
+  const sheets: SpreadsheetSheet[] = [];
+  for (const sheet of byName(parseXml(workbookXml), 'sheet')) {
+    const relationId = Array.from(sheet.attributes).find(attr => attr.localName === 'id')?.value ?? '';
+    const sheetXml = await readZipText(zip, targets.get(relationId) ?? '');
+    if (!sheetXml) continue;
+
+    const rows: string[][] = [];
+    byName(parseXml(sheetXml), 'row').forEach((rowElement, position) => {
+      const rowNumber = Number(rowElement.getAttribute('r')) || position + 1;
+      const row: string[] = [];
+
+      childrenByName(rowElement, 'c').forEach(cell => {
+        const reference = cell.getAttribute('r');
+        const column = reference ? columnIndex(reference) : row.length;
+        const value = childrenByName(cell, 'v')[0]?.textContent ?? '';
+
+        let text: string;
+        switch (cell.getAttribute('t')) {
+          case 's':
+            text = sharedStrings[Number(value)] ?? '';
+            break;
+          case 'inlineStr':
+            text = childrenByName(cell, 'is').map(stringItemText).join('');
+            break;
+          case 'b':
+            text = value === '1' ? 'TRUE' : 'FALSE';
+            break;
+          default:
+            text = value;
+        }
+
+        while (row.length < column) row.push('');
+        row[column] = text;
+      });
+
+      while (rows.length < rowNumber - 1) rows.push([]);
+      rows[rowNumber - 1] = row;
+    });
+
+    sheets.push({ name: sheet.getAttribute('name') ?? `Sheet ${sheets.length + 1}`, rows: trimRows(rows) });
+  }
+
+  return sheets;
+};
+
+// Text of an ODS cell: one line per paragraph, with encoded spaces, tabs and breaks restored
+const odsCellText = (cell: Element) => {
+  const flatten = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+    if (!(node instanceof Element)) return '';
+    switch (node.localName) {
+      case 's':
+        return ' '.repeat(Number(node.getAttribute('text:c')) || 1);
+      case 'tab':
+        return '\t';
+      case 'line-break':
+        return '\n';
+      case 'annotation':
+        return '';
+      default:
+        return Array.from(node.childNodes).map(flatten).join('');
+    }
+  };
+  return childrenByName(cell, 'p').map(flatten).join('\n');
+};
+
+const readOds = async (zip: JSZip): Promise<SpreadsheetSheet[]> => {
+  const contentXml = await readZipText(zip, 'content.xml');
+  if (!contentXml) throw new Error('This is not a valid .ods spreadsheet.');
+
+  return byName(parseXml(contentXml), 'table').map((table, index) => {
+    const rows: string[][] = [];
+    // Blank rows and cells are often repeated to the edge of the sheet, so
+    // they are only written out when something follows them
+    let pendingRows = 0;
+
+    byName(table, 'table-row').forEach(rowElement => {
+      const row: string[] = [];
+      let pendingCells = 0;
+
+      Array.from(rowElement.children)
+        .filter(cell => cell.localName === 'table-cell' || cell.localName === 'covered-table-cell')
+        .forEach(cell => {
+          const repeat = Number(cell.getAttribute('table:number-columns-repeated')) || 1;
+          const text = odsCellText(cell);
+          if (!text) {
+            pendingCells += repeat;
+            return;
+          }
+          row.push(...Array<string>(pendingCells).fill(''), ...Array<string>(repeat).fill(text));
+          pendingCells = 0;
+        });
+
+      const repeat = Number(rowElement.getAttribute('table:number-rows-repeated')) || 1;
+      if (row.length === 0) {
+        pendingRows += repeat;
+        return;
+      }
+      for (let i = 0; i < pendingRows; i++) rows.push([]);
+      for (let i = 0; i < repeat; i++) rows.push([...row]);
+      pendingRows = 0;
+    });
+
+    return { name: table.getAttribute('table:name') ?? `Sheet ${index + 1}`, rows };
+  });
+};
+
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetSheet[]> => {
+  const zip = await JSZip.loadAsync(file);
+  return file.name.toLowerCase().endsWith('.ods') ? readOds(zip) : readXlsx(zip);
+};
@@ -0,0 +1,251 @@
+// Setup type definitions for built-in Supabase Runtime APIs
+/// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
+
+import { GoogleGenerativeAI } from "@google/generative-ai"
+import { createClient } from "@supabase/supabase-js"
+
+// Keep in step with src/utils/questionGeneration.ts
+const MAX_SOURCE_LENGTH = 30000
+const MAX_QUESTION_COUNT = 20
+const OPTION_COUNT = 4
+
+type Difficulty = 'easy' | 'medium' | 'hard'
+
+const DIFFICULTY_GUIDANCE: Record<Difficulty, string> = {
+  easy: "recall of facts and definitions stated directly in the text",
+  medium: "understanding of the ideas in the text, such as explaining, comparing or classifying them",
+  hard: "applying or reasoning about the ideas in the text in situations it does not spell out",
+}
+
+const DIFFICULTIES = Object.keys(DIFFICULTY_GUIDANCE) as Difficulty[]
+
+interface RequestBody {
+  text: string;
+  count: number;
+  difficulty: Difficulty;
+  category: string;
+}
+
+interface GeneratedQuestion {
+  question: string;
+  options: string[];
+  correct_answer: number;
+  explanation: string;
+  source: string; // Passage of the text the question is drawn from, quoted exactly
+}
+
+interface GenerationIssue {
+  row: number; // Number of the question in the model's answer
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+interface ResponseBody {
+  questions: (GeneratedQuestion & { row: number })[];
+  issues: GenerationIssue[];
+  generatedCount: number;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  })
+}
+
+const isRequestBody = (body: Partial<RequestBody>): body is RequestBody => {
+  return typeof body.text === 'string'
+    && Number.isInteger(body.count)
+    && typeof body.difficulty === 'string' && DIFFICULTIES.includes(body.difficulty as Difficulty)
+    && typeof body.category === 'string'
+}
+
+// Citations are matched ignoring case, spacing and quote style, since models
+// rarely reproduce those exactly
+const normalize = (text: string) => {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Returns the problem with a generated question, or null when it can be used
+const checkQuestion = (value: Partial<GeneratedQuestion> | null, source: string): string | null => {
+  if (!value || typeof value !== 'object') return "The question could not be read."
+  if (typeof value.question !== 'string' || !value.question.trim()) return "The question has no text."
+  if (!Array.isArray(value.options) || value.options.length !== OPTION_COUNT
+    || value.options.some(option => typeof option !== 'string' || !option.trim())) {
+    return `The question does not have ${OPTION_COUNT} options.`
+  }
+  if (new Set(value.options.map(option => normalize(option))).size !== OPTION_COUNT) return "Two of the options are the same."
+  if (typeof value.correct_answer !== 'number' || !Number.isInteger(value.correct_answer)
+    || value.correct_answer < 0 || value.correct_answer >= OPTION_COUNT) {
+    return "The correct answer is not one of the options."
+  }
+  if (typeof value.source !== 'string' || !value.source.trim()) return "The question does not cite the text."
+  if (!source.includes(normalize(value.source))) return "The cited passage does not appear in the text."
+  return null
+}
+
+console.log("Generate Quiz Questions Function Started")
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Generation is billed to the project, so it is limited to admins
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? '',
+      Deno.env.get("SUPABASE_ANON_KEY") ?? '',
+      { global: { headers: { Authorization: req.headers.get("Authorization") ?? '' } } }
+    )
+    const { data: { user } } = await supabase.auth.getUser()
+    const { data: profile } = user
+      ? await supabase.from('users').select('role').eq('id', user.id).single()
+      : { data: null }
+
+    if (profile?.role !== 'admin') {
+      return jsonResponse({ error: "Only admins can generate questions." }, 403)
+    }
+
+    const body: Partial<RequestBody> = await req.json()
+    if (!isRequestBody(body)) {
+      return jsonResponse({ error: "Invalid request body. Expected 'text', 'count', 'difficulty' and 'category'." }, 400)
+    }
+
+    const text = body.text.trim()
+    if (!text) {
+      return jsonResponse({ error: "The source text is empty." }, 400)
+    }
+    if (text.length > MAX_SOURCE_LENGTH) {
+      return jsonResponse({ error: `The source text is longer than ${MAX_SOURCE_LENGTH} characters.` }, 400)
+    }
+    if (body.count < 1 || body.count > MAX_QUESTION_COUNT) {
+      return jsonResponse({ error: `Between 1 and ${MAX_QUESTION_COUNT} questions can be generated at a time.` }, 400)
+    }
+
+    // Initialize Google Generative AI client
+    const apiKey = Deno.env.get("GOOGLE_API_KEY")
+    if (!apiKey) {
+      return jsonResponse({ error: "Google API key not configured" }, 500)
+    }
+
+    const genAI = new GoogleGenerativeAI(apiKey)
+    const model = genAI.getGenerativeModel({
+      model: "gemini-2.5-flash",
+      generationConfig: { responseMimeType: "application/json" },
+    })
+
+    const prompt = `
+You are writing questions for a quiz in the "${body.category}" category. Use ONLY the source text below; do not rely on outside knowledge.
+
+Source Text:
+"""
+${text}
+"""
+
+Requirements:
+- Create exactly ${body.count} multiple-choice questions, each on a different point of the source text
+- The questions should test ${DIFFICULTY_GUIDANCE[body.difficulty]}
+- Provide exactly ${OPTION_COUNT} options for each question, with exactly one correct option
+- Wrong options must be plausible but clearly wrong according to the source text
+- Indicate the correct answer as a 0-indexed integer (0 to ${OPTION_COUNT - 1})
+- Give a one or two sentence explanation of why the correct option is right
+- In "source", quote word for word the sentence or short passage of the source text that the question is based on
+
+You MUST respond with a valid JSON object in this exact format:
+{
+  "questions": [
+    {
+      "question": "Your question here",
+      "options": ["Option 1", "Option 2", "Option 3", "Option 4"],
+      "correct_answer": 0,
+      "explanation": "Why the correct option is right",
+      "source": "Exact passage quoted from the source text"
+    }
+  ]
+}
+`
+
+    const result = await model.generateContent(prompt)
+    const responseText = result.response.text().replace(/```json\n?/, '').replace(/```\n?$/, '').trim()
+
+    let generated: (Partial<GeneratedQuestion> | null)[]
+    try {
+      const parsed = JSON.parse(responseText)
+      generated = Array.isArray(parsed.questions) ? parsed.questions : []
+    } catch (parseError) {
+      console.error("Failed to parse questions JSON:", parseError)
+      console.error("Raw response:", responseText)
+      return jsonResponse({ error: "The model returned an unreadable answer. Please try again." }, 502)
+    }
+
+    // Questions that fail validation are reported instead of returned, so every
+    // question the author sees is well formed and cites the text
+    const normalizedText = normalize(text)
+    const seen = new Set<string>()
+    const questions: ResponseBody['questions'] = []
+    const issues: GenerationIssue[] = []
+
+    generated.slice(0, body.count).forEach((value, index) => {
+      const row = index + 1
+      const problem = checkQuestion(value, normalizedText)
+      if (problem) {
+        issues.push({ row, severity: 'error', message: problem })
+        return
+      }
+
+      const question = value as GeneratedQuestion
+      const key = normalize(question.question)
+      if (seen.has(key)) {
+        issues.push({ row, severity: 'error', message: "The question repeats an earlier one." })
+        return
+      }
+      seen.add(key)
+
+      questions.push({
+        row,
+        question: question.question.trim(),
+        options: question.options.map(option => option.trim()),
+        correct_answer: question.correct_answer,
+        explanation: typeof question.explanation === 'string' ? question.explanation.trim() : '',
+        source: question.source.trim(),
+      })
+    })
+
+    if (generated.length < body.count) {
+      issues.push({
+        row: generated.length + 1,
+        severity: 'warning',
+        message: `Only ${generated.length} of the ${body.count} requested questions were generated; the text may be too short.`,
+      })
+    }
+
+    const responseData: ResponseBody = {
+      questions,
+      issues,
+      generatedCount: Math.min(generated.length, body.count),
+    }
+
+    return jsonResponse(responseData)
+
+  } catch (error) {
+    console.error("Error in generate-quiz-questions function:", error)
+
+    return jsonResponse({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : "Unknown error"
+    }, 500)
+  }
+})
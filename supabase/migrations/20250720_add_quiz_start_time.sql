@@ -0,0 +1,15 @@
+-- Quiz availability window
+-- start_time: when the quiz opens for attempts (NULL = immediately)
+-- end_time: when the quiz closes (NULL = never). What happens after end_time
+-- is decided by quizzes.late_policy.
+
+ALTER TABLE quizzes
+  ADD COLUMN IF NOT EXISTS start_time TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS end_time TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE quizzes DROP CONSTRAINT IF EXISTS quizzes_availability_window_check;
+ALTER TABLE quizzes ADD CONSTRAINT quizzes_availability_window_check
+  CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time);
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_availability
+ON quizzes(start_time, end_time);
@@ -0,0 +1,91 @@
+-- Server-authoritative grading for quiz submissions
+-- The client only sends question IDs and the selected option; the score and
+-- each answer's is_correct flag are computed here against questions.correct_answer.
+
+-- Attempts can now only be created through submit_quiz_attempt
+DROP POLICY IF EXISTS "Users can create their own attempts" ON quiz_attempts;
+
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_quiz_id UUID,
+  p_answers JSONB,
+  p_time_taken INTEGER DEFAULT 0
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_attempt_count INTEGER;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_selected INTEGER;
+  v_is_correct BOOLEAN;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to submit a quiz.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  -- Serialise submissions per user and quiz so two concurrent requests
+  -- cannot both pass the max_attempts check
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT || ':' || p_quiz_id::TEXT));
+
+  IF COALESCE(v_quiz.max_attempts, 0) > 0 THEN
+    SELECT COUNT(*) INTO v_attempt_count
+    FROM quiz_attempts
+    WHERE user_id = v_user_id AND quiz_id = p_quiz_id;
+
+    IF v_attempt_count >= v_quiz.max_attempts THEN
+      RAISE EXCEPTION 'You have reached the maximum number of attempts for this quiz.';
+    END IF;
+  END IF;
+
+  FOR v_question IN
+    SELECT * FROM questions WHERE quiz_id = p_quiz_id ORDER BY created_at
+  LOOP
+    v_total := v_total + 1;
+
+    SELECT (answer->>'selected_answer')::INTEGER INTO v_selected
+    FROM jsonb_array_elements(COALESCE(p_answers, '[]'::JSONB)) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    IF v_selected IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    v_is_correct := v_selected = v_question.correct_answer;
+    IF v_is_correct THEN
+      v_score := v_score + 1;
+    END IF;
+
+    v_graded := v_graded || jsonb_build_array(jsonb_build_object(
+      'question_id', v_question.id,
+      'selected_answer', v_selected,
+      'is_correct', v_is_correct,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    ));
+  END LOOP;
+
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'This quiz has no questions.';
+  END IF;
+
+  INSERT INTO quiz_attempts (user_id, quiz_id, score, total_questions, answers, time_taken)
+  VALUES (v_user_id, p_quiz_id, v_score, v_total, v_graded, GREATEST(COALESCE(p_time_taken, 0), 0))
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION submit_quiz_attempt(UUID, JSONB, INTEGER) TO authenticated;
@@ -0,0 +1,68 @@
+-- Keep correct answers off the wire while a quiz is being taken
+-- Students lose direct SELECT on questions; quiz creators and admins keep it
+-- through the existing "Quiz creators can manage questions" and
+-- "Admins can view all questions" policies.
+
+DROP POLICY IF EXISTS "Users can view all questions" ON questions;
+
+-- Answer-free projection used for previews and question counts.
+-- Views run with the owner's privileges, so this bypasses the questions RLS
+-- while never exposing correct_answer.
+CREATE OR REPLACE VIEW questions_public AS
+SELECT
+  id,
+  quiz_id,
+  question,
+  options,
+  category,
+  created_at
+FROM questions;
+
+GRANT SELECT ON questions_public TO authenticated;
+
+-- Questions served to a student starting an attempt
+CREATE OR REPLACE FUNCTION get_quiz_questions_for_attempt(p_quiz_id UUID)
+RETURNS SETOF questions_public AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to take a quiz.';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM questions_public
+  WHERE quiz_id = p_quiz_id
+  ORDER BY created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_quiz_questions_for_attempt(UUID) TO authenticated;
+
+-- Answer key for a submitted attempt. Only the student who made the attempt,
+-- the quiz creator and admins can read it.
+CREATE OR REPLACE FUNCTION get_attempt_answer_key(p_attempt_id UUID)
+RETURNS SETOF questions AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_attempt FROM quiz_attempts WHERE id = p_attempt_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.user_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM quizzes WHERE id = v_attempt.quiz_id AND created_by = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  THEN
+    RAISE EXCEPTION 'You do not have access to this attempt.';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM questions
+  WHERE quiz_id = v_attempt.quiz_id
+  ORDER BY created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_attempt_answer_key(UUID) TO authenticated;
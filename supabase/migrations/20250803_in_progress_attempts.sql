@@ -0,0 +1,222 @@
+-- Resumable attempts
+-- An attempt row is now created as 'in_progress' when a quiz starts, receives
+-- autosaved answers while the student works, and is graded in place on submit.
+
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'completed'
+    CHECK (status IN ('in_progress', 'completed')),
+  ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS current_question INTEGER NOT NULL DEFAULT 0;
+
+-- In-progress rows have no completion time yet
+ALTER TABLE quiz_attempts ALTER COLUMN completed_at DROP NOT NULL;
+
+-- At most one open attempt per user and quiz
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_attempts_one_in_progress
+ON quiz_attempts(user_id, quiz_id)
+WHERE status = 'in_progress';
+
+-- Returns the caller's open attempt for a quiz, or opens a new one
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id UUID)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_attempt_count INTEGER;
+  v_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to take a quiz.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT || ':' || p_quiz_id::TEXT));
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'in_progress';
+
+  IF FOUND THEN
+    RETURN v_attempt;
+  END IF;
+
+  IF COALESCE(v_quiz.max_attempts, 0) > 0 THEN
+    SELECT COUNT(*) INTO v_attempt_count
+    FROM quiz_attempts
+    WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'completed';
+
+    IF v_attempt_count >= v_quiz.max_attempts THEN
+      RAISE EXCEPTION 'You have reached the maximum number of attempts for this quiz.';
+    END IF;
+  END IF;
+
+  SELECT COUNT(*) INTO v_total FROM questions WHERE quiz_id = p_quiz_id;
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'This quiz has no questions.';
+  END IF;
+
+  INSERT INTO quiz_attempts (
+    user_id, quiz_id, status, score, total_questions, answers,
+    time_taken, current_question, started_at, completed_at
+  )
+  VALUES (
+    v_user_id, p_quiz_id, 'in_progress', 0, v_total, '[]'::JSONB,
+    0, 0, NOW(), NULL
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION start_quiz_attempt(UUID) TO authenticated;
+
+-- Autosave for an open attempt. Only question IDs and selected options are
+-- kept; nothing is graded until submit.
+CREATE OR REPLACE FUNCTION save_attempt_progress(
+  p_attempt_id UUID,
+  p_answers JSONB,
+  p_current_question INTEGER
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE quiz_attempts
+  SET
+    answers = COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'question_id', answer->>'question_id',
+        'selected_answer', (answer->>'selected_answer')::INTEGER
+      ))
+      FROM jsonb_array_elements(COALESCE(p_answers, '[]'::JSONB)) AS answer
+      WHERE jsonb_typeof(answer) = 'object'
+    ), '[]'::JSONB),
+    current_question = GREATEST(COALESCE(p_current_question, 0), 0)
+  WHERE id = p_attempt_id
+    AND user_id = auth.uid()
+    AND status = 'in_progress';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This attempt is no longer in progress.';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_attempt_progress(UUID, JSONB, INTEGER) TO authenticated;
+
+-- Submission now grades the open attempt in place instead of inserting a row
+DROP FUNCTION IF EXISTS submit_quiz_attempt(UUID, JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_answers JSONB;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_selected INTEGER;
+  v_is_correct BOOLEAN;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted.';
+  END IF;
+
+  -- Fall back to the last autosave when the client sends nothing
+  v_answers := COALESCE(p_answers, v_attempt.answers, '[]'::JSONB);
+
+  FOR v_question IN
+    SELECT * FROM questions WHERE quiz_id = v_attempt.quiz_id ORDER BY created_at
+  LOOP
+    v_total := v_total + 1;
+
+    SELECT (answer->>'selected_answer')::INTEGER INTO v_selected
+    FROM jsonb_array_elements(v_answers) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    IF v_selected IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    v_is_correct := v_selected = v_question.correct_answer;
+    IF v_is_correct THEN
+      v_score := v_score + 1;
+    END IF;
+
+    v_graded := v_graded || jsonb_build_array(jsonb_build_object(
+      'question_id', v_question.id,
+      'selected_answer', v_selected,
+      'is_correct', v_is_correct,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    ));
+  END LOOP;
+
+  UPDATE quiz_attempts
+  SET
+    status = 'completed',
+    score = v_score,
+    total_questions = v_total,
+    answers = v_graded,
+    time_taken = GREATEST(EXTRACT(EPOCH FROM (NOW() - v_attempt.started_at))::INTEGER, 0),
+    completed_at = NOW()
+  WHERE id = v_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION submit_quiz_attempt(UUID, JSONB) TO authenticated;
+
+-- The answer key must not be readable while an attempt is still open
+CREATE OR REPLACE FUNCTION get_attempt_answer_key(p_attempt_id UUID)
+RETURNS SETOF questions AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_is_manager BOOLEAN;
+BEGIN
+  SELECT * INTO v_attempt FROM quiz_attempts WHERE id = p_attempt_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  v_is_manager := EXISTS (SELECT 1 FROM quizzes WHERE id = v_attempt.quiz_id AND created_by = auth.uid())
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  IF NOT v_is_manager AND v_attempt.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You do not have access to this attempt.';
+  END IF;
+
+  -- Students only see the key once their attempt is submitted
+  IF NOT v_is_manager AND v_attempt.status <> 'completed' THEN
+    RAISE EXCEPTION 'The answer key is available once the attempt is submitted.';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM questions
+  WHERE quiz_id = v_attempt.quiz_id
+  ORDER BY created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
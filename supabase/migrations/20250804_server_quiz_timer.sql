@@ -0,0 +1,170 @@
+-- Server-enforced quiz timer
+-- The deadline of a timed attempt is started_at + time_limit, measured on the
+-- database clock. Autosaves after the deadline are rejected and a late submit
+-- is graded from the last autosave made in time.
+
+-- Seconds of network slack allowed past the deadline
+CREATE OR REPLACE FUNCTION attempt_deadline_grace()
+RETURNS INTERVAL AS $$
+  SELECT INTERVAL '10 seconds';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Deadline of an attempt, or NULL when its quiz has no time limit
+CREATE OR REPLACE FUNCTION attempt_deadline(p_attempt_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT qa.started_at + make_interval(mins => q.time_limit)
+  FROM quiz_attempts qa
+  INNER JOIN quizzes q ON q.id = qa.quiz_id
+  WHERE qa.id = p_attempt_id
+    AND COALESCE(q.time_limit, 0) > 0;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal helper for the attempt RPCs below
+REVOKE EXECUTE ON FUNCTION attempt_deadline(UUID) FROM PUBLIC;
+
+-- Remaining seconds on the caller's open attempt, used to sync the client
+-- countdown. NULL for untimed quizzes.
+CREATE OR REPLACE FUNCTION get_attempt_time_remaining(p_attempt_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM quiz_attempts
+    WHERE id = p_attempt_id AND user_id = auth.uid() AND status = 'in_progress'
+  ) THEN
+    RAISE EXCEPTION 'This attempt is no longer in progress.';
+  END IF;
+
+  v_deadline := attempt_deadline(p_attempt_id);
+  IF v_deadline IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN GREATEST(FLOOR(EXTRACT(EPOCH FROM (v_deadline - NOW())))::INTEGER, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_attempt_time_remaining(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION save_attempt_progress(
+  p_attempt_id UUID,
+  p_answers JSONB,
+  p_current_question INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_deadline TIMESTAMP WITH TIME ZONE := attempt_deadline(p_attempt_id);
+BEGIN
+  IF v_deadline IS NOT NULL AND NOW() > v_deadline + attempt_deadline_grace() THEN
+    RAISE EXCEPTION 'Time is up for this attempt.';
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    answers = COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'question_id', answer->>'question_id',
+        'selected_answer', (answer->>'selected_answer')::INTEGER
+      ))
+      FROM jsonb_array_elements(COALESCE(p_answers, '[]'::JSONB)) AS answer
+      WHERE jsonb_typeof(answer) = 'object'
+    ), '[]'::JSONB),
+    current_question = GREATEST(COALESCE(p_current_question, 0), 0)
+  WHERE id = p_attempt_id
+    AND user_id = auth.uid()
+    AND status = 'in_progress';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This attempt is no longer in progress.';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_finished_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_answers JSONB;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_selected INTEGER;
+  v_is_correct BOOLEAN;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted.';
+  END IF;
+
+  v_deadline := attempt_deadline(v_attempt.id);
+
+  IF v_deadline IS NOT NULL AND v_finished_at > v_deadline + attempt_deadline_grace() THEN
+    -- Answers arriving after the deadline are discarded; grade what was
+    -- autosaved in time and cap the recorded duration at the time limit
+    v_answers := COALESCE(v_attempt.answers, '[]'::JSONB);
+    v_finished_at := v_deadline;
+  ELSE
+    -- Fall back to the last autosave when the client sends nothing
+    v_answers := COALESCE(p_answers, v_attempt.answers, '[]'::JSONB);
+    v_finished_at := LEAST(v_finished_at, COALESCE(v_deadline, v_finished_at));
+  END IF;
+
+  FOR v_question IN
+    SELECT * FROM questions WHERE quiz_id = v_attempt.quiz_id ORDER BY created_at
+  LOOP
+    v_total := v_total + 1;
+
+    SELECT (answer->>'selected_answer')::INTEGER INTO v_selected
+    FROM jsonb_array_elements(v_answers) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    IF v_selected IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    v_is_correct := v_selected = v_question.correct_answer;
+    IF v_is_correct THEN
+      v_score := v_score + 1;
+    END IF;
+
+    v_graded := v_graded || jsonb_build_array(jsonb_build_object(
+      'question_id', v_question.id,
+      'selected_answer', v_selected,
+      'is_correct', v_is_correct,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    ));
+  END LOOP;
+
+  UPDATE quiz_attempts
+  SET
+    status = 'completed',
+    score = v_score,
+    total_questions = v_total,
+    answers = v_graded,
+    time_taken = GREATEST(EXTRACT(EPOCH FROM (v_finished_at - v_attempt.started_at))::INTEGER, 0),
+    completed_at = NOW()
+  WHERE id = v_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,195 @@
+-- Late-submission policy for quizzes with an end_time
+--   block      - no new attempts after end_time; open attempts must finish by it
+--   allow_late - attempts after end_time are accepted and marked late
+--   penalty    - as allow_late, and the score is reduced by late_penalty_percent
+
+ALTER TABLE quizzes
+  ADD COLUMN IF NOT EXISTS late_policy TEXT NOT NULL DEFAULT 'block'
+    CHECK (late_policy IN ('block', 'allow_late', 'penalty')),
+  ADD COLUMN IF NOT EXISTS late_penalty_percent INTEGER NOT NULL DEFAULT 0
+    CHECK (late_penalty_percent BETWEEN 0 AND 100);
+
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS is_late BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Under the block policy the quiz's end_time also caps each attempt
+CREATE OR REPLACE FUNCTION attempt_deadline(p_attempt_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT LEAST(
+    CASE WHEN COALESCE(q.time_limit, 0) > 0
+      THEN qa.started_at + make_interval(mins => q.time_limit)
+    END,
+    CASE WHEN q.late_policy = 'block' THEN q.end_time END
+  )
+  FROM quiz_attempts qa
+  INNER JOIN quizzes q ON q.id = qa.quiz_id
+  WHERE qa.id = p_attempt_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION attempt_deadline(UUID) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id UUID)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_attempt_count INTEGER;
+  v_total INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to take a quiz.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT || ':' || p_quiz_id::TEXT));
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'in_progress';
+
+  IF FOUND THEN
+    RETURN v_attempt;
+  END IF;
+
+  IF v_quiz.start_time IS NOT NULL AND NOW() < v_quiz.start_time THEN
+    RAISE EXCEPTION 'This quiz has not opened yet.';
+  END IF;
+
+  IF v_quiz.end_time IS NOT NULL AND NOW() >= v_quiz.end_time AND v_quiz.late_policy = 'block' THEN
+    RAISE EXCEPTION 'This quiz has closed.';
+  END IF;
+
+  IF COALESCE(v_quiz.max_attempts, 0) > 0 THEN
+    SELECT COUNT(*) INTO v_attempt_count
+    FROM quiz_attempts
+    WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'completed';
+
+    IF v_attempt_count >= v_quiz.max_attempts THEN
+      RAISE EXCEPTION 'You have reached the maximum number of attempts for this quiz.';
+    END IF;
+  END IF;
+
+  SELECT COUNT(*) INTO v_total FROM questions WHERE quiz_id = p_quiz_id;
+  IF v_total = 0 THEN
+    RAISE EXCEPTION 'This quiz has no questions.';
+  END IF;
+
+  INSERT INTO quiz_attempts (
+    user_id, quiz_id, status, score, total_questions, answers,
+    time_taken, current_question, started_at, completed_at
+  )
+  VALUES (
+    v_user_id, p_quiz_id, 'in_progress', 0, v_total, '[]'::JSONB,
+    0, 0, NOW(), NULL
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_quiz quizzes%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_finished_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_answers JSONB;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_selected INTEGER;
+  v_is_correct BOOLEAN;
+  v_is_late BOOLEAN;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = v_attempt.quiz_id;
+
+  v_deadline := attempt_deadline(v_attempt.id);
+
+  IF v_deadline IS NOT NULL AND v_finished_at > v_deadline + attempt_deadline_grace() THEN
+    -- Answers arriving after the deadline are discarded; grade what was
+    -- autosaved in time and cap the recorded duration at the deadline
+    v_answers := COALESCE(v_attempt.answers, '[]'::JSONB);
+    v_finished_at := v_deadline;
+  ELSE
+    -- Fall back to the last autosave when the client sends nothing
+    v_answers := COALESCE(p_answers, v_attempt.answers, '[]'::JSONB);
+    v_finished_at := LEAST(v_finished_at, COALESCE(v_deadline, v_finished_at));
+  END IF;
+
+  FOR v_question IN
+    SELECT * FROM questions WHERE quiz_id = v_attempt.quiz_id ORDER BY created_at
+  LOOP
+    v_total := v_total + 1;
+
+    SELECT (answer->>'selected_answer')::INTEGER INTO v_selected
+    FROM jsonb_array_elements(v_answers) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    IF v_selected IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    v_is_correct := v_selected = v_question.correct_answer;
+    IF v_is_correct THEN
+      v_score := v_score + 1;
+    END IF;
+
+    v_graded := v_graded || jsonb_build_array(jsonb_build_object(
+      'question_id', v_question.id,
+      'selected_answer', v_selected,
+      'is_correct', v_is_correct,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    ));
+  END LOOP;
+
+  v_is_late := v_quiz.end_time IS NOT NULL
+    AND v_quiz.late_policy <> 'block'
+    AND v_finished_at > v_quiz.end_time;
+
+  IF v_is_late AND v_quiz.late_policy = 'penalty' THEN
+    v_score := FLOOR(v_score * (100 - v_quiz.late_penalty_percent) / 100.0)::INTEGER;
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    status = 'completed',
+    score = v_score,
+    total_questions = v_total,
+    answers = v_graded,
+    is_late = v_is_late,
+    time_taken = GREATEST(EXTRACT(EPOCH FROM (v_finished_at - v_attempt.started_at))::INTEGER, 0),
+    completed_at = NOW()
+  WHERE id = v_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
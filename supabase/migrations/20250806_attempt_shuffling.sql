@@ -0,0 +1,302 @@
+-- Per-attempt question and option shuffling
+-- start_quiz_attempt fixes the layout of each attempt from a random seed and
+-- stores it on the row:
+--   question_order - question ids in the order the student sees them
+--   option_order   - { "<question id>": [canonical option index, ...] } where
+--                    position i holds the option displayed i-th; NULL when
+--                    options are not shuffled
+-- Submitted selected_answer values are displayed indices and are mapped back
+-- to the canonical options with attempt_canonical_option when grading.
+
+ALTER TABLE quizzes
+  ADD COLUMN IF NOT EXISTS shuffle_questions BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS shuffle_options BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS shuffle_seed INTEGER,
+  ADD COLUMN IF NOT EXISTS question_order UUID[],
+  ADD COLUMN IF NOT EXISTS option_order JSONB;
+
+-- Existing attempts keep the authoring order
+UPDATE quiz_attempts qa
+SET question_order = (
+  SELECT COALESCE(array_agg(q.id ORDER BY q.created_at), '{}')
+  FROM questions q
+  WHERE q.quiz_id = qa.quiz_id
+)
+WHERE question_order IS NULL;
+
+-- Deterministic sort key: the same seed and key always produce the same order
+CREATE OR REPLACE FUNCTION seeded_rank(p_seed INTEGER, p_key TEXT)
+RETURNS TEXT AS $$
+  SELECT md5(p_seed::TEXT || ':' || p_key);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Maps an option index as displayed in an attempt back to the authored index
+CREATE OR REPLACE FUNCTION attempt_canonical_option(
+  p_option_order JSONB,
+  p_question_id UUID,
+  p_selected INTEGER
+)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN p_selected IS NULL THEN NULL
+    WHEN p_option_order ? p_question_id::TEXT
+      THEN (p_option_order -> p_question_id::TEXT ->> p_selected)::INTEGER
+    ELSE p_selected
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id UUID)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_attempt_count INTEGER;
+  v_seed INTEGER;
+  v_question_order UUID[];
+  v_option_order JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to take a quiz.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT || ':' || p_quiz_id::TEXT));
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'in_progress';
+
+  IF FOUND THEN
+    RETURN v_attempt;
+  END IF;
+
+  IF v_quiz.start_time IS NOT NULL AND NOW() < v_quiz.start_time THEN
+    RAISE EXCEPTION 'This quiz has not opened yet.';
+  END IF;
+
+  IF v_quiz.end_time IS NOT NULL AND NOW() >= v_quiz.end_time AND v_quiz.late_policy = 'block' THEN
+    RAISE EXCEPTION 'This quiz has closed.';
+  END IF;
+
+  IF COALESCE(v_quiz.max_attempts, 0) > 0 THEN
+    SELECT COUNT(*) INTO v_attempt_count
+    FROM quiz_attempts
+    WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'completed';
+
+    IF v_attempt_count >= v_quiz.max_attempts THEN
+      RAISE EXCEPTION 'You have reached the maximum number of attempts for this quiz.';
+    END IF;
+  END IF;
+
+  v_seed := FLOOR(random() * 2147483647)::INTEGER;
+
+  SELECT array_agg(
+    id ORDER BY
+      CASE WHEN v_quiz.shuffle_questions THEN seeded_rank(v_seed, id::TEXT) END,
+      created_at
+  )
+  INTO v_question_order
+  FROM questions
+  WHERE quiz_id = p_quiz_id;
+
+  IF v_question_order IS NULL THEN
+    RAISE EXCEPTION 'This quiz has no questions.';
+  END IF;
+
+  IF v_quiz.shuffle_options THEN
+    SELECT jsonb_object_agg(q.id, (
+      SELECT jsonb_agg(o.idx ORDER BY seeded_rank(v_seed, q.id::TEXT || ':' || o.idx))
+      FROM generate_series(0, jsonb_array_length(to_jsonb(q.options)) - 1) AS o(idx)
+    ))
+    INTO v_option_order
+    FROM questions q
+    WHERE q.quiz_id = p_quiz_id;
+  END IF;
+
+  INSERT INTO quiz_attempts (
+    user_id, quiz_id, status, score, total_questions, answers,
+    time_taken, current_question, started_at, completed_at,
+    shuffle_seed, question_order, option_order
+  )
+  VALUES (
+    v_user_id, p_quiz_id, 'in_progress', 0, array_length(v_question_order, 1), '[]'::JSONB,
+    0, 0, NOW(), NULL,
+    v_seed, v_question_order, v_option_order
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Questions for an open attempt, in the attempt's order. Options come back in
+-- authoring order; the client lays them out using the attempt's option_order.
+DROP FUNCTION IF EXISTS get_quiz_questions_for_attempt(UUID);
+
+CREATE OR REPLACE FUNCTION get_attempt_questions(p_attempt_id UUID)
+RETURNS SETOF questions_public AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  RETURN QUERY
+  SELECT qp.*
+  FROM unnest(v_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+  INNER JOIN questions_public qp ON qp.id = o.question_id
+  ORDER BY o.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_attempt_questions(UUID) TO authenticated;
+
+-- Answer key in the order the student saw the questions
+CREATE OR REPLACE FUNCTION get_attempt_answer_key(p_attempt_id UUID)
+RETURNS SETOF questions AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_is_manager BOOLEAN;
+BEGIN
+  SELECT * INTO v_attempt FROM quiz_attempts WHERE id = p_attempt_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  v_is_manager := EXISTS (SELECT 1 FROM quizzes WHERE id = v_attempt.quiz_id AND created_by = auth.uid())
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  IF NOT v_is_manager AND v_attempt.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You do not have access to this attempt.';
+  END IF;
+
+  -- Students only see the key once their attempt is submitted
+  IF NOT v_is_manager AND v_attempt.status <> 'completed' THEN
+    RAISE EXCEPTION 'The answer key is available once the attempt is submitted.';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.*
+  FROM questions q
+  WHERE q.quiz_id = v_attempt.quiz_id
+  ORDER BY array_position(v_attempt.question_order, q.id) NULLS LAST, q.created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_quiz quizzes%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_finished_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_answers JSONB;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_selected INTEGER;
+  v_is_correct BOOLEAN;
+  v_is_late BOOLEAN;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = v_attempt.quiz_id;
+
+  v_deadline := attempt_deadline(v_attempt.id);
+
+  IF v_deadline IS NOT NULL AND v_finished_at > v_deadline + attempt_deadline_grace() THEN
+    -- Answers arriving after the deadline are discarded; grade what was
+    -- autosaved in time and cap the recorded duration at the deadline
+    v_answers := COALESCE(v_attempt.answers, '[]'::JSONB);
+    v_finished_at := v_deadline;
+  ELSE
+    -- Fall back to the last autosave when the client sends nothing
+    v_answers := COALESCE(p_answers, v_attempt.answers, '[]'::JSONB);
+    v_finished_at := LEAST(v_finished_at, COALESCE(v_deadline, v_finished_at));
+  END IF;
+
+  FOR v_question IN
+    SELECT q.*
+    FROM unnest(v_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+    INNER JOIN questions q ON q.id = o.question_id
+    ORDER BY o.position
+  LOOP
+    v_total := v_total + 1;
+
+    SELECT (answer->>'selected_answer')::INTEGER INTO v_selected
+    FROM jsonb_array_elements(v_answers) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    IF v_selected IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    v_is_correct := attempt_canonical_option(v_attempt.option_order, v_question.id, v_selected)
+      = v_question.correct_answer;
+    IF v_is_correct THEN
+      v_score := v_score + 1;
+    END IF;
+
+    -- selected_answer stays as displayed; options and correct_answer are canonical
+    v_graded := v_graded || jsonb_build_array(jsonb_build_object(
+      'question_id', v_question.id,
+      'selected_answer', v_selected,
+      'is_correct', v_is_correct,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    ));
+  END LOOP;
+
+  v_is_late := v_quiz.end_time IS NOT NULL
+    AND v_quiz.late_policy <> 'block'
+    AND v_finished_at > v_quiz.end_time;
+
+  IF v_is_late AND v_quiz.late_policy = 'penalty' THEN
+    v_score := FLOOR(v_score * (100 - v_quiz.late_penalty_percent) / 100.0)::INTEGER;
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    status = 'completed',
+    score = v_score,
+    total_questions = v_total,
+    answers = v_graded,
+    is_late = v_is_late,
+    time_taken = GREATEST(EXTRACT(EPOCH FROM (v_finished_at - v_attempt.started_at))::INTEGER, 0),
+    completed_at = NOW()
+  WHERE id = v_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,179 @@
+-- Random question pools
+-- A quiz can hold a larger bank than each attempt uses:
+--   pool_size  - number of questions drawn per attempt (NULL = the whole bank)
+--   pool_rules - optional per-category draw, e.g.
+--                [{"category": "Science", "count": 5}, {"category": "History", "count": 5}]
+--                When present it takes precedence and pool_size is their total.
+-- The draw is made once in start_quiz_attempt and stored in question_order, so
+-- grading, results and the category breakdown only see the drawn set.
+
+ALTER TABLE quizzes
+  ADD COLUMN IF NOT EXISTS pool_size INTEGER CHECK (pool_size IS NULL OR pool_size > 0),
+  ADD COLUMN IF NOT EXISTS pool_rules JSONB;
+
+-- Draws the attempt's questions from the bank and puts them in display order
+CREATE OR REPLACE FUNCTION build_attempt_question_order(p_quiz_id UUID, p_seed INTEGER)
+RETURNS UUID[] AS $$
+DECLARE
+  v_quiz quizzes%ROWTYPE;
+  v_drawn UUID[];
+BEGIN
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+
+  IF jsonb_array_length(COALESCE(v_quiz.pool_rules, '[]'::JSONB)) > 0 THEN
+    SELECT array_agg(ranked.id) INTO v_drawn
+    FROM (
+      SELECT
+        q.id,
+        rules.draw_count,
+        ROW_NUMBER() OVER (
+          PARTITION BY rules.category
+          ORDER BY seeded_rank(p_seed, 'draw:' || q.id::TEXT)
+        ) AS draw_rank
+      FROM questions q
+      INNER JOIN (
+        SELECT rule->>'category' AS category, (rule->>'count')::INTEGER AS draw_count
+        FROM jsonb_array_elements(v_quiz.pool_rules) AS rule
+      ) rules ON rules.category = COALESCE(q.category, 'General')
+      WHERE q.quiz_id = p_quiz_id
+    ) ranked
+    WHERE ranked.draw_rank <= ranked.draw_count;
+  ELSIF v_quiz.pool_size IS NOT NULL THEN
+    SELECT array_agg(drawn.id) INTO v_drawn
+    FROM (
+      SELECT id
+      FROM questions
+      WHERE quiz_id = p_quiz_id
+      ORDER BY seeded_rank(p_seed, 'draw:' || id::TEXT)
+      LIMIT v_quiz.pool_size
+    ) drawn;
+  ELSE
+    SELECT array_agg(id) INTO v_drawn FROM questions WHERE quiz_id = p_quiz_id;
+  END IF;
+
+  RETURN (
+    SELECT array_agg(
+      id ORDER BY
+        CASE WHEN v_quiz.shuffle_questions THEN seeded_rank(p_seed, id::TEXT) END,
+        created_at
+    )
+    FROM questions
+    WHERE id = ANY(v_drawn)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION build_attempt_question_order(UUID, INTEGER) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id UUID)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_attempt_count INTEGER;
+  v_seed INTEGER;
+  v_question_order UUID[];
+  v_option_order JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to take a quiz.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT || ':' || p_quiz_id::TEXT));
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'in_progress';
+
+  IF FOUND THEN
+    RETURN v_attempt;
+  END IF;
+
+  IF v_quiz.start_time IS NOT NULL AND NOW() < v_quiz.start_time THEN
+    RAISE EXCEPTION 'This quiz has not opened yet.';
+  END IF;
+
+  IF v_quiz.end_time IS NOT NULL AND NOW() >= v_quiz.end_time AND v_quiz.late_policy = 'block' THEN
+    RAISE EXCEPTION 'This quiz has closed.';
+  END IF;
+
+  IF COALESCE(v_quiz.max_attempts, 0) > 0 THEN
+    SELECT COUNT(*) INTO v_attempt_count
+    FROM quiz_attempts
+    WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'completed';
+
+    IF v_attempt_count >= v_quiz.max_attempts THEN
+      RAISE EXCEPTION 'You have reached the maximum number of attempts for this quiz.';
+    END IF;
+  END IF;
+
+  v_seed := FLOOR(random() * 2147483647)::INTEGER;
+  v_question_order := build_attempt_question_order(p_quiz_id, v_seed);
+
+  IF v_question_order IS NULL THEN
+    RAISE EXCEPTION 'This quiz has no questions.';
+  END IF;
+
+  IF v_quiz.shuffle_options THEN
+    SELECT jsonb_object_agg(q.id, (
+      SELECT jsonb_agg(o.idx ORDER BY seeded_rank(v_seed, q.id::TEXT || ':' || o.idx))
+      FROM generate_series(0, jsonb_array_length(to_jsonb(q.options)) - 1) AS o(idx)
+    ))
+    INTO v_option_order
+    FROM questions q
+    WHERE q.id = ANY(v_question_order);
+  END IF;
+
+  INSERT INTO quiz_attempts (
+    user_id, quiz_id, status, score, total_questions, answers,
+    time_taken, current_question, started_at, completed_at,
+    shuffle_seed, question_order, option_order
+  )
+  VALUES (
+    v_user_id, p_quiz_id, 'in_progress', 0, array_length(v_question_order, 1), '[]'::JSONB,
+    0, 0, NOW(), NULL,
+    v_seed, v_question_order, v_option_order
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Answer key for the questions drawn into the attempt, in the order they were shown
+CREATE OR REPLACE FUNCTION get_attempt_answer_key(p_attempt_id UUID)
+RETURNS SETOF questions AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_is_manager BOOLEAN;
+BEGIN
+  SELECT * INTO v_attempt FROM quiz_attempts WHERE id = p_attempt_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  v_is_manager := EXISTS (SELECT 1 FROM quizzes WHERE id = v_attempt.quiz_id AND created_by = auth.uid())
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  IF NOT v_is_manager AND v_attempt.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You do not have access to this attempt.';
+  END IF;
+
+  -- Students only see the key once their attempt is submitted
+  IF NOT v_is_manager AND v_attempt.status <> 'completed' THEN
+    RAISE EXCEPTION 'The answer key is available once the attempt is submitted.';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.*
+  FROM unnest(v_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+  INNER JOIN questions q ON q.id = o.question_id
+  ORDER BY o.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
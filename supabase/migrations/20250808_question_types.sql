@@ -0,0 +1,346 @@
+-- Question types beyond single choice
+--   single_choice - one correct option (correct_answer)
+--   multi_select  - several correct options (correct_answers), all must be picked
+--   true_false    - options are ['True', 'False'], correct_answer is 0 or 1
+--   short_text    - free text matched against accepted_answers; whitespace is
+--                   collapsed and case is ignored unless case_sensitive
+--   numeric       - a number within numeric_tolerance of numeric_answer
+-- correct_answer stays NOT NULL and is 0 for types that do not use it.
+--
+-- Submitted answers carry one of:
+--   selected_answer  - displayed option index (single_choice, true_false)
+--   selected_answers - displayed option indices (multi_select)
+--   text_answer      - raw input (short_text, numeric)
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'single_choice'
+    CHECK (type IN ('single_choice', 'multi_select', 'true_false', 'short_text', 'numeric')),
+  ADD COLUMN IF NOT EXISTS correct_answers INTEGER[],
+  ADD COLUMN IF NOT EXISTS accepted_answers TEXT[],
+  ADD COLUMN IF NOT EXISTS case_sensitive BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS numeric_answer NUMERIC,
+  ADD COLUMN IF NOT EXISTS numeric_tolerance NUMERIC NOT NULL DEFAULT 0
+    CHECK (numeric_tolerance >= 0);
+
+-- Students need the type to render a question, never the answer fields
+CREATE OR REPLACE VIEW questions_public AS
+SELECT
+  id,
+  quiz_id,
+  question,
+  options,
+  category,
+  created_at,
+  type
+FROM questions;
+
+-- Option shuffling only applies to choice questions
+CREATE OR REPLACE FUNCTION build_attempt_option_order(
+  p_question_order UUID[],
+  p_shuffle BOOLEAN,
+  p_seed INTEGER
+)
+RETURNS JSONB AS $$
+  SELECT CASE WHEN p_shuffle THEN (
+    SELECT jsonb_object_agg(q.id, (
+      SELECT jsonb_agg(o.idx ORDER BY seeded_rank(p_seed, q.id::TEXT || ':' || o.idx))
+      FROM generate_series(0, jsonb_array_length(to_jsonb(q.options)) - 1) AS o(idx)
+    ))
+    FROM questions q
+    WHERE q.id = ANY(p_question_order)
+      AND q.type IN ('single_choice', 'multi_select')
+  ) END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION build_attempt_option_order(UUID[], BOOLEAN, INTEGER) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id UUID)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_attempt_count INTEGER;
+  v_seed INTEGER;
+  v_question_order UUID[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to take a quiz.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT || ':' || p_quiz_id::TEXT));
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'in_progress';
+
+  IF FOUND THEN
+    RETURN v_attempt;
+  END IF;
+
+  IF v_quiz.start_time IS NOT NULL AND NOW() < v_quiz.start_time THEN
+    RAISE EXCEPTION 'This quiz has not opened yet.';
+  END IF;
+
+  IF v_quiz.end_time IS NOT NULL AND NOW() >= v_quiz.end_time AND v_quiz.late_policy = 'block' THEN
+    RAISE EXCEPTION 'This quiz has closed.';
+  END IF;
+
+  IF COALESCE(v_quiz.max_attempts, 0) > 0 THEN
+    SELECT COUNT(*) INTO v_attempt_count
+    FROM quiz_attempts
+    WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'completed';
+
+    IF v_attempt_count >= v_quiz.max_attempts THEN
+      RAISE EXCEPTION 'You have reached the maximum number of attempts for this quiz.';
+    END IF;
+  END IF;
+
+  v_seed := FLOOR(random() * 2147483647)::INTEGER;
+  v_question_order := build_attempt_question_order(p_quiz_id, v_seed);
+
+  IF v_question_order IS NULL THEN
+    RAISE EXCEPTION 'This quiz has no questions.';
+  END IF;
+
+  INSERT INTO quiz_attempts (
+    user_id, quiz_id, status, score, total_questions, answers,
+    time_taken, current_question, started_at, completed_at,
+    shuffle_seed, question_order, option_order
+  )
+  VALUES (
+    v_user_id, p_quiz_id, 'in_progress', 0, array_length(v_question_order, 1), '[]'::JSONB,
+    0, 0, NOW(), NULL,
+    v_seed, v_question_order,
+    build_attempt_option_order(v_question_order, v_quiz.shuffle_options, v_seed)
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Collapses whitespace and applies the question's case rule before comparing text
+CREATE OR REPLACE FUNCTION normalize_text_answer(p_value TEXT, p_case_sensitive BOOLEAN)
+RETURNS TEXT AS $$
+  SELECT CASE WHEN p_case_sensitive THEN v.value ELSE lower(v.value) END
+  FROM (SELECT btrim(regexp_replace(COALESCE(p_value, ''), '\s+', ' ', 'g')) AS value) v;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Grades one submitted answer. Returns NULL when the question was left
+-- unanswered so callers can tell skipped questions from wrong ones.
+CREATE OR REPLACE FUNCTION grade_question_answer(
+  p_question questions,
+  p_option_order JSONB,
+  p_answer JSONB
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_selected INTEGER[];
+  v_text TEXT;
+BEGIN
+  IF p_answer IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  CASE p_question.type
+    WHEN 'multi_select' THEN
+      IF jsonb_typeof(p_answer->'selected_answers') IS DISTINCT FROM 'array'
+        OR jsonb_array_length(p_answer->'selected_answers') = 0
+      THEN
+        RETURN NULL;
+      END IF;
+
+      SELECT array_agg(DISTINCT attempt_canonical_option(p_option_order, p_question.id, value::INTEGER))
+      INTO v_selected
+      FROM jsonb_array_elements_text(p_answer->'selected_answers') AS value;
+
+      RETURN v_selected @> COALESCE(p_question.correct_answers, '{}')
+        AND v_selected <@ COALESCE(p_question.correct_answers, '{}');
+
+    WHEN 'short_text' THEN
+      v_text := normalize_text_answer(p_answer->>'text_answer', p_question.case_sensitive);
+      IF v_text = '' THEN
+        RETURN NULL;
+      END IF;
+
+      RETURN EXISTS (
+        SELECT 1
+        FROM unnest(p_question.accepted_answers) AS accepted
+        WHERE normalize_text_answer(accepted, p_question.case_sensitive) = v_text
+      );
+
+    WHEN 'numeric' THEN
+      v_text := btrim(COALESCE(p_answer->>'text_answer', ''));
+      IF v_text = '' THEN
+        RETURN NULL;
+      END IF;
+
+      IF v_text !~ '^[-+]?([0-9]+\.?[0-9]*|\.[0-9]+)([eE][-+]?[0-9]+)?$' THEN
+        RETURN FALSE;
+      END IF;
+
+      RETURN abs(v_text::NUMERIC - p_question.numeric_answer) <= p_question.numeric_tolerance;
+
+    ELSE
+      IF p_answer->>'selected_answer' IS NULL THEN
+        RETURN NULL;
+      END IF;
+
+      RETURN attempt_canonical_option(
+        p_option_order, p_question.id, (p_answer->>'selected_answer')::INTEGER
+      ) = p_question.correct_answer;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Autosave keeps only the response fields of each answer
+CREATE OR REPLACE FUNCTION save_attempt_progress(
+  p_attempt_id UUID,
+  p_answers JSONB,
+  p_current_question INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_deadline TIMESTAMP WITH TIME ZONE := attempt_deadline(p_attempt_id);
+BEGIN
+  IF v_deadline IS NOT NULL AND NOW() > v_deadline + attempt_deadline_grace() THEN
+    RAISE EXCEPTION 'Time is up for this attempt.';
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    answers = COALESCE((
+      SELECT jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+        'question_id', answer->>'question_id',
+        'selected_answer', (answer->>'selected_answer')::INTEGER,
+        'selected_answers', CASE WHEN jsonb_typeof(answer->'selected_answers') = 'array'
+          THEN answer->'selected_answers' END,
+        'text_answer', left(answer->>'text_answer', 500)
+      )))
+      FROM jsonb_array_elements(COALESCE(p_answers, '[]'::JSONB)) AS answer
+      WHERE jsonb_typeof(answer) = 'object'
+    ), '[]'::JSONB),
+    current_question = GREATEST(COALESCE(p_current_question, 0), 0)
+  WHERE id = p_attempt_id
+    AND user_id = auth.uid()
+    AND status = 'in_progress';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This attempt is no longer in progress.';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_quiz quizzes%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_finished_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_answers JSONB;
+  v_answer JSONB;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_is_correct BOOLEAN;
+  v_is_late BOOLEAN;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = v_attempt.quiz_id;
+
+  v_deadline := attempt_deadline(v_attempt.id);
+
+  IF v_deadline IS NOT NULL AND v_finished_at > v_deadline + attempt_deadline_grace() THEN
+    -- Answers arriving after the deadline are discarded; grade what was
+    -- autosaved in time and cap the recorded duration at the deadline
+    v_answers := COALESCE(v_attempt.answers, '[]'::JSONB);
+    v_finished_at := v_deadline;
+  ELSE
+    -- Fall back to the last autosave when the client sends nothing
+    v_answers := COALESCE(p_answers, v_attempt.answers, '[]'::JSONB);
+    v_finished_at := LEAST(v_finished_at, COALESCE(v_deadline, v_finished_at));
+  END IF;
+
+  FOR v_question IN
+    SELECT q.*
+    FROM unnest(v_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+    INNER JOIN questions q ON q.id = o.question_id
+    ORDER BY o.position
+  LOOP
+    v_total := v_total + 1;
+
+    SELECT answer INTO v_answer
+    FROM jsonb_array_elements(v_answers) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    v_is_correct := grade_question_answer(v_question, v_attempt.option_order, v_answer);
+    IF v_is_correct IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    IF v_is_correct THEN
+      v_score := v_score + 1;
+    END IF;
+
+    -- Responses stay as displayed; options and the answer key are canonical
+    v_graded := v_graded || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'question_id', v_question.id,
+      'type', v_question.type,
+      'selected_answer', v_answer->'selected_answer',
+      'selected_answers', v_answer->'selected_answers',
+      'text_answer', v_answer->'text_answer',
+      'is_correct', v_is_correct,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    )));
+  END LOOP;
+
+  v_is_late := v_quiz.end_time IS NOT NULL
+    AND v_quiz.late_policy <> 'block'
+    AND v_finished_at > v_quiz.end_time;
+
+  IF v_is_late AND v_quiz.late_policy = 'penalty' THEN
+    v_score := FLOOR(v_score * (100 - v_quiz.late_penalty_percent) / 100.0)::INTEGER;
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    status = 'completed',
+    score = v_score,
+    total_questions = v_total,
+    answers = v_graded,
+    is_late = v_is_late,
+    time_taken = GREATEST(EXTRACT(EPOCH FROM (v_finished_at - v_attempt.started_at))::INTEGER, 0),
+    completed_at = NOW()
+  WHERE id = v_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
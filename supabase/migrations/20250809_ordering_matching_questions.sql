@@ -0,0 +1,274 @@
+-- Ordering and matching questions
+--   ordering - options are the items, stored scrambled; correct_order lists
+--              option indices in the right sequence
+--   matching - options are the left items; match_options are the right items,
+--              stored scrambled; correct_matches[i] is the match_options index
+--              that belongs with options[i]
+-- Both always get a per-attempt shuffle (of the items, or of the right-hand
+-- column for matching) in option_order. The submitted selected_answers hold
+-- displayed indices: the student's sequence for ordering, and the right item
+-- placed next to each left item for matching.
+--
+-- With partial_credit a question earns the fraction of correct positions or
+-- pairs; otherwise it is all-or-nothing. The attempt score still counts fully
+-- correct answers and each graded answer records its credit.
+
+ALTER TABLE questions DROP CONSTRAINT IF EXISTS questions_type_check;
+ALTER TABLE questions
+  ADD CONSTRAINT questions_type_check CHECK (type IN (
+    'single_choice', 'multi_select', 'true_false', 'short_text', 'numeric', 'ordering', 'matching'
+  ));
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS correct_order INTEGER[],
+  ADD COLUMN IF NOT EXISTS match_options TEXT[],
+  ADD COLUMN IF NOT EXISTS correct_matches INTEGER[],
+  ADD COLUMN IF NOT EXISTS partial_credit BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE OR REPLACE VIEW questions_public AS
+SELECT
+  id,
+  quiz_id,
+  question,
+  options,
+  category,
+  created_at,
+  type,
+  match_options
+FROM questions;
+
+CREATE OR REPLACE FUNCTION build_attempt_option_order(
+  p_question_order UUID[],
+  p_shuffle BOOLEAN,
+  p_seed INTEGER
+)
+RETURNS JSONB AS $$
+  SELECT jsonb_object_agg(q.id, (
+    SELECT jsonb_agg(o.idx ORDER BY seeded_rank(p_seed, q.id::TEXT || ':' || o.idx))
+    FROM generate_series(
+      0,
+      CASE WHEN q.type = 'matching'
+        THEN COALESCE(array_length(q.match_options, 1), 0)
+        ELSE jsonb_array_length(to_jsonb(q.options))
+      END - 1
+    ) AS o(idx)
+  ))
+  FROM questions q
+  WHERE q.id = ANY(p_question_order)
+    AND (
+      q.type IN ('ordering', 'matching')
+      OR (p_shuffle AND q.type IN ('single_choice', 'multi_select'))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Share of positions in p_expected that p_given gets right (1-based arrays)
+CREATE OR REPLACE FUNCTION positional_credit(p_given INTEGER[], p_expected INTEGER[])
+RETURNS NUMERIC AS $$
+  SELECT CASE WHEN COALESCE(array_length(p_expected, 1), 0) = 0 THEN 0
+  ELSE (
+    SELECT COUNT(*)::NUMERIC
+    FROM generate_subscripts(p_expected, 1) AS i
+    WHERE p_given[i] = p_expected[i]
+  ) / array_length(p_expected, 1)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Credit is now a fraction between 0 and 1 instead of a boolean
+DROP FUNCTION IF EXISTS grade_question_answer(questions, JSONB, JSONB);
+
+-- Grades one submitted answer and returns its credit between 0 and 1.
+-- Returns NULL when the question was left unanswered so callers can tell
+-- skipped questions from wrong ones.
+CREATE OR REPLACE FUNCTION grade_question_answer(
+  p_question questions,
+  p_option_order JSONB,
+  p_answer JSONB
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_selected INTEGER[];
+  v_text TEXT;
+  v_credit NUMERIC;
+BEGIN
+  IF p_answer IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_question.type IN ('multi_select', 'ordering', 'matching') THEN
+    IF jsonb_typeof(p_answer->'selected_answers') IS DISTINCT FROM 'array'
+      OR jsonb_array_length(p_answer->'selected_answers') = 0
+    THEN
+      RETURN NULL;
+    END IF;
+
+    -- Canonical indices, kept in the order they were submitted
+    SELECT array_agg(
+      attempt_canonical_option(p_option_order, p_question.id, value::INTEGER)
+      ORDER BY position
+    )
+    INTO v_selected
+    FROM jsonb_array_elements_text(p_answer->'selected_answers') WITH ORDINALITY AS answer(value, position);
+  END IF;
+
+  CASE p_question.type
+    WHEN 'multi_select' THEN
+      RETURN CASE WHEN v_selected @> COALESCE(p_question.correct_answers, '{}')
+        AND v_selected <@ COALESCE(p_question.correct_answers, '{}') THEN 1 ELSE 0 END;
+
+    WHEN 'ordering' THEN
+      v_credit := positional_credit(v_selected, p_question.correct_order);
+
+    WHEN 'matching' THEN
+      v_credit := positional_credit(v_selected, p_question.correct_matches);
+
+    WHEN 'short_text' THEN
+      v_text := normalize_text_answer(p_answer->>'text_answer', p_question.case_sensitive);
+      IF v_text = '' THEN
+        RETURN NULL;
+      END IF;
+
+      RETURN CASE WHEN EXISTS (
+        SELECT 1
+        FROM unnest(p_question.accepted_answers) AS accepted
+        WHERE normalize_text_answer(accepted, p_question.case_sensitive) = v_text
+      ) THEN 1 ELSE 0 END;
+
+    WHEN 'numeric' THEN
+      v_text := btrim(COALESCE(p_answer->>'text_answer', ''));
+      IF v_text = '' THEN
+        RETURN NULL;
+      END IF;
+
+      IF v_text !~ '^[-+]?([0-9]+\.?[0-9]*|\.[0-9]+)([eE][-+]?[0-9]+)?$' THEN
+        RETURN 0;
+      END IF;
+
+      RETURN CASE WHEN abs(v_text::NUMERIC - p_question.numeric_answer) <= p_question.numeric_tolerance
+        THEN 1 ELSE 0 END;
+
+    ELSE
+      IF p_answer->>'selected_answer' IS NULL THEN
+        RETURN NULL;
+      END IF;
+
+      RETURN CASE WHEN attempt_canonical_option(
+        p_option_order, p_question.id, (p_answer->>'selected_answer')::INTEGER
+      ) = p_question.correct_answer THEN 1 ELSE 0 END;
+  END CASE;
+
+  -- Ordering and matching
+  IF p_question.partial_credit THEN
+    RETURN ROUND(v_credit, 4);
+  END IF;
+  RETURN CASE WHEN v_credit = 1 THEN 1 ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_quiz quizzes%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_finished_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_answers JSONB;
+  v_answer JSONB;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_credit NUMERIC;
+  v_is_late BOOLEAN;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = v_attempt.quiz_id;
+
+  v_deadline := attempt_deadline(v_attempt.id);
+
+  IF v_deadline IS NOT NULL AND v_finished_at > v_deadline + attempt_deadline_grace() THEN
+    -- Answers arriving after the deadline are discarded; grade what was
+    -- autosaved in time and cap the recorded duration at the deadline
+    v_answers := COALESCE(v_attempt.answers, '[]'::JSONB);
+    v_finished_at := v_deadline;
+  ELSE
+    -- Fall back to the last autosave when the client sends nothing
+    v_answers := COALESCE(p_answers, v_attempt.answers, '[]'::JSONB);
+    v_finished_at := LEAST(v_finished_at, COALESCE(v_deadline, v_finished_at));
+  END IF;
+
+  FOR v_question IN
+    SELECT q.*
+    FROM unnest(v_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+    INNER JOIN questions q ON q.id = o.question_id
+    ORDER BY o.position
+  LOOP
+    v_total := v_total + 1;
+
+    SELECT answer INTO v_answer
+    FROM jsonb_array_elements(v_answers) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    v_credit := grade_question_answer(v_question, v_attempt.option_order, v_answer);
+    IF v_credit IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    IF v_credit = 1 THEN
+      v_score := v_score + 1;
+    END IF;
+
+    -- Responses stay as displayed; options and the answer key are canonical
+    v_graded := v_graded || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'question_id', v_question.id,
+      'type', v_question.type,
+      'selected_answer', v_answer->'selected_answer',
+      'selected_answers', v_answer->'selected_answers',
+      'text_answer', v_answer->'text_answer',
+      'is_correct', v_credit = 1,
+      'credit', v_credit,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    )));
+  END LOOP;
+
+  v_is_late := v_quiz.end_time IS NOT NULL
+    AND v_quiz.late_policy <> 'block'
+    AND v_finished_at > v_quiz.end_time;
+
+  IF v_is_late AND v_quiz.late_policy = 'penalty' THEN
+    v_score := FLOOR(v_score * (100 - v_quiz.late_penalty_percent) / 100.0)::INTEGER;
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    status = 'completed',
+    score = v_score,
+    total_questions = v_total,
+    answers = v_graded,
+    is_late = v_is_late,
+    time_taken = GREATEST(EXTRACT(EPOCH FROM (v_finished_at - v_attempt.started_at))::INTEGER, 0),
+    completed_at = NOW()
+  WHERE id = v_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
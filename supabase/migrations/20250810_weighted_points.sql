@@ -0,0 +1,322 @@
+-- Weighted points, negative marking and partial credit
+--   questions.points         - what a fully correct answer is worth (default 1)
+--   quizzes.negative_marking - share of a question's points deducted for a
+--                              wrong answer; skipped questions are never penalised
+--   partial_credit           - now also applies to multiple select: each correct
+--                              pick earns a share and each wrong pick cancels one
+-- Attempts keep score (fully correct answers) and add earned_points and
+-- max_points. percentage is derived from them and is what leaderboards and
+-- analytics rank by.
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS points NUMERIC(6, 2) NOT NULL DEFAULT 1
+    CHECK (points > 0);
+
+ALTER TABLE quizzes
+  ADD COLUMN IF NOT EXISTS negative_marking NUMERIC(4, 3) NOT NULL DEFAULT 0
+    CHECK (negative_marking >= 0 AND negative_marking <= 1);
+
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS earned_points NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS max_points NUMERIC(10, 2);
+
+-- Every question used to be worth one point
+UPDATE quiz_attempts
+SET
+  earned_points = score,
+  max_points = total_questions
+WHERE status = 'completed' AND earned_points IS NULL;
+
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS percentage NUMERIC(5, 2)
+    GENERATED ALWAYS AS (
+      CASE WHEN max_points > 0 THEN ROUND(earned_points * 100 / max_points, 2) END
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_quiz_percentage
+ON quiz_attempts(quiz_id, percentage DESC, completed_at DESC)
+WHERE status = 'completed';
+
+-- Grades one submitted answer and returns its credit between 0 and 1.
+-- Returns NULL when the question was left unanswered so callers can tell
+-- skipped questions from wrong ones.
+CREATE OR REPLACE FUNCTION grade_question_answer(
+  p_question questions,
+  p_option_order JSONB,
+  p_answer JSONB
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_selected INTEGER[];
+  v_text TEXT;
+  v_credit NUMERIC;
+BEGIN
+  IF p_answer IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_question.type IN ('multi_select', 'ordering', 'matching') THEN
+    IF jsonb_typeof(p_answer->'selected_answers') IS DISTINCT FROM 'array'
+      OR jsonb_array_length(p_answer->'selected_answers') = 0
+    THEN
+      RETURN NULL;
+    END IF;
+
+    -- Canonical indices, kept in the order they were submitted
+    SELECT array_agg(
+      attempt_canonical_option(p_option_order, p_question.id, value::INTEGER)
+      ORDER BY position
+    )
+    INTO v_selected
+    FROM jsonb_array_elements_text(p_answer->'selected_answers') WITH ORDINALITY AS answer(value, position);
+  END IF;
+
+  CASE p_question.type
+    WHEN 'multi_select' THEN
+      -- Each correct pick earns a share, each wrong pick cancels one out
+      v_credit := CASE WHEN COALESCE(array_length(p_question.correct_answers, 1), 0) = 0 THEN 0
+        ELSE GREATEST(
+          (
+            SELECT COUNT(*) FILTER (WHERE picked = ANY(p_question.correct_answers))
+              - COUNT(*) FILTER (WHERE picked <> ALL(p_question.correct_answers))
+            FROM (SELECT DISTINCT unnest(v_selected) AS picked) AS picks
+          )::NUMERIC / array_length(p_question.correct_answers, 1),
+          0
+        )
+      END;
+
+    WHEN 'ordering' THEN
+      v_credit := positional_credit(v_selected, p_question.correct_order);
+
+    WHEN 'matching' THEN
+      v_credit := positional_credit(v_selected, p_question.correct_matches);
+
+    WHEN 'short_text' THEN
+      v_text := normalize_text_answer(p_answer->>'text_answer', p_question.case_sensitive);
+      IF v_text = '' THEN
+        RETURN NULL;
+      END IF;
+
+      RETURN CASE WHEN EXISTS (
+        SELECT 1
+        FROM unnest(p_question.accepted_answers) AS accepted
+        WHERE normalize_text_answer(accepted, p_question.case_sensitive) = v_text
+      ) THEN 1 ELSE 0 END;
+
+    WHEN 'numeric' THEN
+      v_text := btrim(COALESCE(p_answer->>'text_answer', ''));
+      IF v_text = '' THEN
+        RETURN NULL;
+      END IF;
+
+      IF v_text !~ '^[-+]?([0-9]+\.?[0-9]*|\.[0-9]+)([eE][-+]?[0-9]+)?$' THEN
+        RETURN 0;
+      END IF;
+
+      RETURN CASE WHEN abs(v_text::NUMERIC - p_question.numeric_answer) <= p_question.numeric_tolerance
+        THEN 1 ELSE 0 END;
+
+    ELSE
+      IF p_answer->>'selected_answer' IS NULL THEN
+        RETURN NULL;
+      END IF;
+
+      RETURN CASE WHEN attempt_canonical_option(
+        p_option_order, p_question.id, (p_answer->>'selected_answer')::INTEGER
+      ) = p_question.correct_answer THEN 1 ELSE 0 END;
+  END CASE;
+
+  -- Multiple select, ordering and matching
+  IF p_question.partial_credit THEN
+    RETURN ROUND(v_credit, 4);
+  END IF;
+  RETURN CASE WHEN v_credit = 1 THEN 1 ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_quiz quizzes%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_finished_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_answers JSONB;
+  v_answer JSONB;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_credit NUMERIC;
+  v_points NUMERIC;
+  v_earned NUMERIC := 0;
+  v_max NUMERIC := 0;
+  v_is_late BOOLEAN;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = v_attempt.quiz_id;
+
+  v_deadline := attempt_deadline(v_attempt.id);
+
+  IF v_deadline IS NOT NULL AND v_finished_at > v_deadline + attempt_deadline_grace() THEN
+    -- Answers arriving after the deadline are discarded; grade what was
+    -- autosaved in time and cap the recorded duration at the deadline
+    v_answers := COALESCE(v_attempt.answers, '[]'::JSONB);
+    v_finished_at := v_deadline;
+  ELSE
+    -- Fall back to the last autosave when the client sends nothing
+    v_answers := COALESCE(p_answers, v_attempt.answers, '[]'::JSONB);
+    v_finished_at := LEAST(v_finished_at, COALESCE(v_deadline, v_finished_at));
+  END IF;
+
+  FOR v_question IN
+    SELECT q.*
+    FROM unnest(v_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+    INNER JOIN questions q ON q.id = o.question_id
+    ORDER BY o.position
+  LOOP
+    v_total := v_total + 1;
+    v_max := v_max + v_question.points;
+
+    SELECT answer INTO v_answer
+    FROM jsonb_array_elements(v_answers) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    v_credit := grade_question_answer(v_question, v_attempt.option_order, v_answer);
+    IF v_credit IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    IF v_credit = 1 THEN
+      v_score := v_score + 1;
+    END IF;
+
+    -- Wrong answers can cost a share of the question's points; skipped ones never do
+    v_points := CASE WHEN v_credit > 0
+      THEN v_credit * v_question.points
+      ELSE -v_quiz.negative_marking * v_question.points
+    END;
+    v_earned := v_earned + v_points;
+
+    -- Responses stay as displayed; options and the answer key are canonical
+    v_graded := v_graded || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'question_id', v_question.id,
+      'type', v_question.type,
+      'selected_answer', v_answer->'selected_answer',
+      'selected_answers', v_answer->'selected_answers',
+      'text_answer', v_answer->'text_answer',
+      'is_correct', v_credit = 1,
+      'credit', v_credit,
+      'points', ROUND(v_points, 2),
+      'max_points', v_question.points,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    )));
+  END LOOP;
+
+  v_is_late := v_quiz.end_time IS NOT NULL
+    AND v_quiz.late_policy <> 'block'
+    AND v_finished_at > v_quiz.end_time;
+
+  -- Negative marking never takes an attempt below zero
+  v_earned := GREATEST(v_earned, 0);
+
+  IF v_is_late AND v_quiz.late_policy = 'penalty' THEN
+    v_score := FLOOR(v_score * (100 - v_quiz.late_penalty_percent) / 100.0)::INTEGER;
+    v_earned := v_earned * (100 - v_quiz.late_penalty_percent) / 100.0;
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    status = 'completed',
+    score = v_score,
+    total_questions = v_total,
+    earned_points = ROUND(v_earned, 2),
+    max_points = v_max,
+    answers = v_graded,
+    is_late = v_is_late,
+    time_taken = GREATEST(EXTRACT(EPOCH FROM (v_finished_at - v_attempt.started_at))::INTEGER, 0),
+    completed_at = NOW()
+  WHERE id = v_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Ranks each user's best attempt by percentage of points. The return type
+-- changes, so the old function has to go first; column names are quoted so
+-- the camelCase keys reach the client as written.
+DROP FUNCTION IF EXISTS get_leaderboard(INTEGER);
+
+CREATE OR REPLACE FUNCTION get_leaderboard(limit_count INTEGER DEFAULT 50)
+RETURNS TABLE (
+  "userId" UUID,
+  username TEXT,
+  score NUMERIC,
+  "quizId" UUID,
+  "completedAt" TIMESTAMP WITH TIME ZONE,
+  "totalQuestions" INTEGER,
+  "timeSpent" INTEGER,
+  "earnedPoints" NUMERIC,
+  "maxPoints" NUMERIC
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH ranked_attempts AS (
+    SELECT
+      qa.user_id,
+      u.username,
+      qa.percentage,
+      qa.quiz_id,
+      qa.completed_at,
+      qa.total_questions,
+      qa.time_taken,
+      qa.earned_points,
+      qa.max_points,
+      ROW_NUMBER() OVER (PARTITION BY qa.user_id ORDER BY qa.percentage DESC, qa.completed_at DESC) AS rn
+    FROM quiz_attempts qa
+    INNER JOIN users u ON qa.user_id = u.id
+    WHERE qa.status = 'completed'
+      AND qa.percentage IS NOT NULL
+  )
+  SELECT
+    ra.user_id,
+    ra.username,
+    ra.percentage,
+    ra.quiz_id,
+    ra.completed_at,
+    COALESCE(ra.total_questions, 0),
+    COALESCE(ra.time_taken, 0),
+    ra.earned_points,
+    ra.max_points
+  FROM ranked_attempts ra
+  WHERE ra.rn = 1
+  ORDER BY ra.percentage DESC, ra.completed_at DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_leaderboard(INTEGER) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_percentage
+ON quiz_attempts(user_id, percentage DESC, completed_at DESC)
+WHERE status = 'completed';
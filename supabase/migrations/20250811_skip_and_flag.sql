@@ -0,0 +1,175 @@
+-- Skipping and flagging questions
+-- Autosaved answers keep one entry per question, including ones the student
+-- skipped, and a flagged marker for questions marked for review. Unanswered
+-- entries carry an explicit null selected_answer instead of being dropped.
+-- Submitted attempts record every question too; skipped ones are marked
+-- skipped with no credit and are never penalised by negative marking.
+
+CREATE OR REPLACE FUNCTION save_attempt_progress(
+  p_attempt_id UUID,
+  p_answers JSONB,
+  p_current_question INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_deadline TIMESTAMP WITH TIME ZONE := attempt_deadline(p_attempt_id);
+BEGIN
+  IF v_deadline IS NOT NULL AND NOW() > v_deadline + attempt_deadline_grace() THEN
+    RAISE EXCEPTION 'Time is up for this attempt.';
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    answers = COALESCE((
+      SELECT jsonb_agg(
+        jsonb_strip_nulls(jsonb_build_object(
+          'question_id', answer->>'question_id',
+          'selected_answers', CASE WHEN jsonb_typeof(answer->'selected_answers') = 'array'
+            THEN answer->'selected_answers' END,
+          'text_answer', left(answer->>'text_answer', 500),
+          'flagged', CASE WHEN (answer->>'flagged')::BOOLEAN THEN TRUE END
+        )) || jsonb_build_object('selected_answer', (answer->>'selected_answer')::INTEGER)
+        ORDER BY position
+      )
+      FROM jsonb_array_elements(COALESCE(p_answers, '[]'::JSONB)) WITH ORDINALITY AS entry(answer, position)
+      WHERE jsonb_typeof(answer) = 'object'
+    ), '[]'::JSONB),
+    current_question = GREATEST(COALESCE(p_current_question, 0), 0)
+  WHERE id = p_attempt_id
+    AND user_id = auth.uid()
+    AND status = 'in_progress';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This attempt is no longer in progress.';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_quiz quizzes%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_finished_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_answers JSONB;
+  v_answer JSONB;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_credit NUMERIC;
+  v_skipped BOOLEAN;
+  v_points NUMERIC;
+  v_earned NUMERIC := 0;
+  v_max NUMERIC := 0;
+  v_is_late BOOLEAN;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = v_attempt.quiz_id;
+
+  v_deadline := attempt_deadline(v_attempt.id);
+
+  IF v_deadline IS NOT NULL AND v_finished_at > v_deadline + attempt_deadline_grace() THEN
+    -- Answers arriving after the deadline are discarded; grade what was
+    -- autosaved in time and cap the recorded duration at the deadline
+    v_answers := COALESCE(v_attempt.answers, '[]'::JSONB);
+    v_finished_at := v_deadline;
+  ELSE
+    -- Fall back to the last autosave when the client sends nothing
+    v_answers := COALESCE(p_answers, v_attempt.answers, '[]'::JSONB);
+    v_finished_at := LEAST(v_finished_at, COALESCE(v_deadline, v_finished_at));
+  END IF;
+
+  FOR v_question IN
+    SELECT q.*
+    FROM unnest(v_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+    INNER JOIN questions q ON q.id = o.question_id
+    ORDER BY o.position
+  LOOP
+    v_total := v_total + 1;
+    v_max := v_max + v_question.points;
+
+    SELECT answer INTO v_answer
+    FROM jsonb_array_elements(v_answers) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    v_credit := grade_question_answer(v_question, v_attempt.option_order, v_answer);
+    v_skipped := v_credit IS NULL;
+
+    IF v_credit = 1 THEN
+      v_score := v_score + 1;
+    END IF;
+
+    -- Wrong answers can cost a share of the question's points; skipped ones never do
+    v_points := CASE
+      WHEN v_skipped THEN 0
+      WHEN v_credit > 0 THEN v_credit * v_question.points
+      ELSE -v_quiz.negative_marking * v_question.points
+    END;
+    v_earned := v_earned + v_points;
+
+    -- Responses stay as displayed; options and the answer key are canonical.
+    -- Every question gets an entry, with an explicit null response when skipped.
+    v_graded := v_graded || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'question_id', v_question.id,
+      'type', v_question.type,
+      'selected_answers', v_answer->'selected_answers',
+      'text_answer', v_answer->'text_answer',
+      'is_correct', COALESCE(v_credit = 1, FALSE),
+      'skipped', v_skipped,
+      'credit', COALESCE(v_credit, 0),
+      'points', ROUND(v_points, 2),
+      'max_points', v_question.points,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    )) || jsonb_build_object('selected_answer', CASE WHEN v_skipped THEN NULL ELSE v_answer->'selected_answer' END)));
+  END LOOP;
+
+  v_is_late := v_quiz.end_time IS NOT NULL
+    AND v_quiz.late_policy <> 'block'
+    AND v_finished_at > v_quiz.end_time;
+
+  -- Negative marking never takes an attempt below zero
+  v_earned := GREATEST(v_earned, 0);
+
+  IF v_is_late AND v_quiz.late_policy = 'penalty' THEN
+    v_score := FLOOR(v_score * (100 - v_quiz.late_penalty_percent) / 100.0)::INTEGER;
+    v_earned := v_earned * (100 - v_quiz.late_penalty_percent) / 100.0;
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    status = 'completed',
+    score = v_score,
+    total_questions = v_total,
+    earned_points = ROUND(v_earned, 2),
+    max_points = v_max,
+    answers = v_graded,
+    is_late = v_is_late,
+    time_taken = GREATEST(EXTRACT(EPOCH FROM (v_finished_at - v_attempt.started_at))::INTEGER, 0),
+    completed_at = NOW()
+  WHERE id = v_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,267 @@
+-- Practice mode
+-- Practice runs live in their own table so they never count toward
+-- max_attempts, leaderboards or analytics. Each answer is graded as soon as it
+-- is checked and the answer key and explanation for that question are
+-- revealed; the learner can keep retrying until they move on. Practice is
+-- untimed and has no negative marking, and is never offered while a graded
+-- attempt is open; on quizzes with limited attempts it waits until graded
+-- attempts can no longer change the result.
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS explanation TEXT;
+
+CREATE TABLE IF NOT EXISTS practice_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  shuffle_seed INTEGER NOT NULL,
+  question_order UUID[] NOT NULL,
+  option_order JSONB,
+  -- Latest checked answer per question, with its credit and number of tries
+  answers JSONB NOT NULL DEFAULT '[]'::JSONB,
+  correct_count INTEGER NOT NULL DEFAULT 0,
+  total_questions INTEGER NOT NULL DEFAULT 0,
+  earned_points NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  max_points NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_attempts_user_quiz
+ON practice_attempts(user_id, quiz_id, completed_at DESC);
+
+ALTER TABLE practice_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written only through the functions below
+DROP POLICY IF EXISTS "Users can view their own practice attempts" ON practice_attempts;
+CREATE POLICY "Users can view their own practice attempts" ON practice_attempts
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Answer key of one question, in canonical option indices
+CREATE OR REPLACE FUNCTION question_answer_key(p_question questions)
+RETURNS JSONB AS $$
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'correct_answer', CASE WHEN p_question.type IN ('single_choice', 'true_false')
+      THEN p_question.correct_answer END,
+    'correct_answers', p_question.correct_answers,
+    'accepted_answers', p_question.accepted_answers,
+    'case_sensitive', p_question.case_sensitive,
+    'numeric_answer', p_question.numeric_answer,
+    'numeric_tolerance', p_question.numeric_tolerance,
+    'correct_order', p_question.correct_order,
+    'correct_matches', p_question.correct_matches
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+REVOKE EXECUTE ON FUNCTION question_answer_key(questions) FROM PUBLIC;
+
+-- Practice reveals answers, so never while an attempt is open. With unlimited
+-- attempts a graded retake is always possible anyway; with limited attempts it
+-- waits until the quiz no longer accepts submissions or the user has used them
+-- all.
+CREATE OR REPLACE FUNCTION can_practice_quiz(p_quiz quizzes, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+      SELECT 1 FROM quiz_attempts
+      WHERE user_id = p_user_id AND quiz_id = p_quiz.id AND status = 'in_progress'
+    )
+    AND (
+      COALESCE(p_quiz.max_attempts, 0) = 0
+      OR (p_quiz.end_time IS NOT NULL AND NOW() >= p_quiz.end_time AND p_quiz.late_policy = 'block')
+      OR (
+        SELECT COUNT(*) FROM quiz_attempts
+        WHERE user_id = p_user_id AND quiz_id = p_quiz.id AND status = 'completed'
+      ) >= p_quiz.max_attempts
+    );
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION can_practice_quiz(quizzes, UUID) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION start_practice_attempt(p_quiz_id UUID)
+RETURNS practice_attempts AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_practice practice_attempts%ROWTYPE;
+  v_seed INTEGER;
+  v_question_order UUID[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to practice.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  IF NOT can_practice_quiz(v_quiz, v_user_id) THEN
+    RAISE EXCEPTION 'Practice is not available for this quiz right now.';
+  END IF;
+
+  v_seed := FLOOR(random() * 2147483647)::INTEGER;
+  v_question_order := build_attempt_question_order(p_quiz_id, v_seed);
+
+  IF v_question_order IS NULL THEN
+    RAISE EXCEPTION 'This quiz has no questions.';
+  END IF;
+
+  INSERT INTO practice_attempts (
+    user_id, quiz_id, shuffle_seed, question_order, option_order, total_questions
+  )
+  VALUES (
+    v_user_id, p_quiz_id, v_seed, v_question_order,
+    build_attempt_option_order(v_question_order, v_quiz.shuffle_options, v_seed),
+    array_length(v_question_order, 1)
+  )
+  RETURNING * INTO v_practice;
+
+  RETURN v_practice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION start_practice_attempt(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_practice_questions(p_practice_id UUID)
+RETURNS SETOF questions_public AS $$
+DECLARE
+  v_practice practice_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_practice
+  FROM practice_attempts
+  WHERE id = p_practice_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Practice run not found.';
+  END IF;
+
+  RETURN QUERY
+  SELECT qp.*
+  FROM unnest(v_practice.question_order) WITH ORDINALITY AS o(question_id, position)
+  INNER JOIN questions_public qp ON qp.id = o.question_id
+  ORDER BY o.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_practice_questions(UUID) TO authenticated;
+
+-- Grades one answer straight away and reveals that question's answer key and
+-- explanation. Checking again replaces the earlier answer and counts a retry.
+CREATE OR REPLACE FUNCTION check_practice_answer(
+  p_practice_id UUID,
+  p_question_id UUID,
+  p_answer JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_practice practice_attempts%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_credit NUMERIC;
+  v_tries INTEGER;
+BEGIN
+  SELECT * INTO v_practice
+  FROM practice_attempts
+  WHERE id = p_practice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Practice run not found.';
+  END IF;
+
+  IF v_practice.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This practice run has already finished.';
+  END IF;
+
+  -- The quiz may have been reopened since the run started
+  IF NOT can_practice_quiz((SELECT q FROM quizzes q WHERE q.id = v_practice.quiz_id), auth.uid()) THEN
+    RAISE EXCEPTION 'Practice is not available for this quiz right now.';
+  END IF;
+
+  IF NOT p_question_id = ANY(v_practice.question_order) THEN
+    RAISE EXCEPTION 'Question not found in this practice run.';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = p_question_id;
+
+  v_credit := grade_question_answer(v_question, v_practice.option_order, p_answer);
+  IF v_credit IS NULL THEN
+    RAISE EXCEPTION 'Answer the question before checking it.';
+  END IF;
+
+  SELECT COALESCE(MAX((answer->>'tries')::INTEGER), 0) + 1 INTO v_tries
+  FROM jsonb_array_elements(v_practice.answers) AS answer
+  WHERE answer->>'question_id' = p_question_id::TEXT;
+
+  UPDATE practice_attempts
+  SET answers = COALESCE((
+      SELECT jsonb_agg(answer)
+      FROM jsonb_array_elements(answers) AS answer
+      WHERE answer->>'question_id' <> p_question_id::TEXT
+    ), '[]'::JSONB) || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'question_id', p_question_id,
+      'selected_answer', p_answer->'selected_answer',
+      'selected_answers', p_answer->'selected_answers',
+      'text_answer', left(p_answer->>'text_answer', 500),
+      'credit', v_credit,
+      'is_correct', v_credit = 1,
+      'tries', v_tries
+    )))
+  WHERE id = v_practice.id;
+
+  RETURN jsonb_build_object(
+    'credit', v_credit,
+    'is_correct', v_credit = 1,
+    'tries', v_tries,
+    'answer_key', question_answer_key(v_question),
+    'explanation', v_question.explanation
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION check_practice_answer(UUID, UUID, JSONB) TO authenticated;
+
+-- Closes a practice run and totals its latest answers
+CREATE OR REPLACE FUNCTION finish_practice_attempt(p_practice_id UUID)
+RETURNS practice_attempts AS $$
+DECLARE
+  v_practice practice_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_practice
+  FROM practice_attempts
+  WHERE id = p_practice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Practice run not found.';
+  END IF;
+
+  IF v_practice.completed_at IS NOT NULL THEN
+    RETURN v_practice;
+  END IF;
+
+  UPDATE practice_attempts pa
+  SET
+    correct_count = (
+      SELECT COUNT(*)
+      FROM jsonb_array_elements(pa.answers) AS answer
+      WHERE (answer->>'is_correct')::BOOLEAN
+    ),
+    earned_points = COALESCE((
+      SELECT ROUND(SUM((answer->>'credit')::NUMERIC * q.points), 2)
+      FROM jsonb_array_elements(pa.answers) AS answer
+      INNER JOIN questions q ON q.id = (answer->>'question_id')::UUID
+    ), 0),
+    max_points = COALESCE((
+      SELECT SUM(q.points)
+      FROM questions q
+      WHERE q.id = ANY(pa.question_order)
+    ), 0),
+    completed_at = NOW()
+  WHERE pa.id = v_practice.id
+  RETURNING * INTO v_practice;
+
+  RETURN v_practice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION finish_practice_attempt(UUID) TO authenticated;
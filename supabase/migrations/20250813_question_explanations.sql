@@ -0,0 +1,89 @@
+-- Per-question explanations and reference links
+-- explanation (markdown, added with practice mode) says why the answer is
+-- right; reference_url optionally points at further reading. Both are part of
+-- the answer key, so they stay out of questions_public and are only released
+-- through get_attempt_answer_key and check_practice_answer.
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS reference_url TEXT;
+
+ALTER TABLE questions
+  DROP CONSTRAINT IF EXISTS questions_reference_url_check;
+ALTER TABLE questions
+  ADD CONSTRAINT questions_reference_url_check
+  CHECK (reference_url IS NULL OR reference_url ~* '^https?://');
+
+-- Same as before, now also revealing the reference link
+CREATE OR REPLACE FUNCTION check_practice_answer(
+  p_practice_id UUID,
+  p_question_id UUID,
+  p_answer JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_practice practice_attempts%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_credit NUMERIC;
+  v_tries INTEGER;
+BEGIN
+  SELECT * INTO v_practice
+  FROM practice_attempts
+  WHERE id = p_practice_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Practice run not found.';
+  END IF;
+
+  IF v_practice.completed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This practice run has already finished.';
+  END IF;
+
+  -- The quiz may have been reopened since the run started
+  IF NOT can_practice_quiz((SELECT q FROM quizzes q WHERE q.id = v_practice.quiz_id), auth.uid()) THEN
+    RAISE EXCEPTION 'Practice is not available for this quiz right now.';
+  END IF;
+
+  IF NOT p_question_id = ANY(v_practice.question_order) THEN
+    RAISE EXCEPTION 'Question not found in this practice run.';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = p_question_id;
+
+  v_credit := grade_question_answer(v_question, v_practice.option_order, p_answer);
+  IF v_credit IS NULL THEN
+    RAISE EXCEPTION 'Answer the question before checking it.';
+  END IF;
+
+  SELECT COALESCE(MAX((answer->>'tries')::INTEGER), 0) + 1 INTO v_tries
+  FROM jsonb_array_elements(v_practice.answers) AS answer
+  WHERE answer->>'question_id' = p_question_id::TEXT;
+
+  UPDATE practice_attempts
+  SET answers = COALESCE((
+      SELECT jsonb_agg(answer)
+      FROM jsonb_array_elements(answers) AS answer
+      WHERE answer->>'question_id' <> p_question_id::TEXT
+    ), '[]'::JSONB) || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'question_id', p_question_id,
+      'selected_answer', p_answer->'selected_answer',
+      'selected_answers', p_answer->'selected_answers',
+      'text_answer', left(p_answer->>'text_answer', 500),
+      'credit', v_credit,
+      'is_correct', v_credit = 1,
+      'tries', v_tries
+    )))
+  WHERE id = v_practice.id;
+
+  RETURN jsonb_build_object(
+    'credit', v_credit,
+    'is_correct', v_credit = 1,
+    'tries', v_tries,
+    'answer_key', question_answer_key(v_question),
+    'explanation', v_question.explanation,
+    'reference_url', v_question.reference_url
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION check_practice_answer(UUID, UUID, JSONB) TO authenticated;
@@ -0,0 +1,72 @@
+-- Images on questions
+-- A question stem can carry one image and each choice option can carry its
+-- own. Files live in the private question-media bucket under
+-- <quiz_id>/<file>, so only the quiz's author (or an admin) can add, replace
+-- or remove them; any signed-in user can read them through signed URLs.
+
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS image_path TEXT,
+  -- Parallel to options, NULL entries for options without an image
+  ADD COLUMN IF NOT EXISTS option_images TEXT[];
+
+CREATE OR REPLACE VIEW questions_public AS
+SELECT
+  id,
+  quiz_id,
+  question,
+  options,
+  category,
+  created_at,
+  type,
+  match_options,
+  image_path,
+  option_images
+FROM questions;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'question-media',
+  'question-media',
+  FALSE,
+  5242880,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Whether the current user may write to a question-media object; the first
+-- folder of the object name is the quiz it belongs to
+CREATE OR REPLACE FUNCTION can_manage_question_media(p_object_name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM quizzes
+    WHERE id::TEXT = split_part(p_object_name, '/', 1)
+      AND created_by = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION can_manage_question_media(TEXT) TO authenticated;
+
+DROP POLICY IF EXISTS "Signed-in users can view question media" ON storage.objects;
+CREATE POLICY "Signed-in users can view question media" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'question-media');
+
+DROP POLICY IF EXISTS "Quiz authors can upload question media" ON storage.objects;
+CREATE POLICY "Quiz authors can upload question media" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'question-media' AND can_manage_question_media(name));
+
+DROP POLICY IF EXISTS "Quiz authors can update question media" ON storage.objects;
+CREATE POLICY "Quiz authors can update question media" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (bucket_id = 'question-media' AND can_manage_question_media(name));
+
+DROP POLICY IF EXISTS "Quiz authors can delete question media" ON storage.objects;
+CREATE POLICY "Quiz authors can delete question media" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'question-media' AND can_manage_question_media(name));
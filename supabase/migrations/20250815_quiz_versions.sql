@@ -0,0 +1,495 @@
+-- Immutable quiz versions
+-- Every change to a quiz's questions or scoring settings produces a new
+-- numbered snapshot in quiz_versions. Attempts record the version they were
+-- started on, and grading, the questions served, the answer key shown in
+-- results and the attempt's deadline all read from that snapshot, so editing
+-- or deleting a question never changes how an old attempt is displayed, and
+-- editing the timing never moves the deadline of an attempt underway.
+--
+-- Versions are created by create_quiz_version after an author saves, and
+-- ensure_quiz_version runs again whenever an attempt starts so edits made any
+-- other way are still captured before anyone is graded on them.
+
+CREATE TABLE IF NOT EXISTS quiz_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  -- Full question rows, in authoring order
+  questions JSONB NOT NULL DEFAULT '[]'::JSONB,
+  -- Quiz content and scoring settings at the time of the snapshot
+  settings JSONB NOT NULL DEFAULT '{}'::JSONB,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (quiz_id, version_number)
+);
+
+ALTER TABLE quiz_attempts
+  ADD COLUMN IF NOT EXISTS quiz_version_id UUID REFERENCES quiz_versions(id);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_version ON quiz_attempts(quiz_version_id);
+
+ALTER TABLE quiz_versions ENABLE ROW LEVEL SECURITY;
+
+-- Snapshots are written only by the functions below and never updated
+DROP POLICY IF EXISTS "Quiz creators can view versions" ON quiz_versions;
+CREATE POLICY "Quiz creators can view versions" ON quiz_versions
+  FOR SELECT USING (
+    auth.uid() IN (SELECT created_by FROM quizzes WHERE id = quiz_versions.quiz_id)
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+CREATE OR REPLACE FUNCTION quiz_questions_snapshot(p_quiz_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(to_jsonb(q) ORDER BY q.created_at, q.id), '[]'::JSONB)
+  FROM questions q
+  WHERE q.quiz_id = p_quiz_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION quiz_settings_snapshot(p_quiz quizzes)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'title', p_quiz.title,
+    'description', p_quiz.description,
+    'category', p_quiz.category,
+    'time_limit', p_quiz.time_limit,
+    'end_time', p_quiz.end_time,
+    'late_policy', p_quiz.late_policy,
+    'late_penalty_percent', p_quiz.late_penalty_percent,
+    'max_attempts', p_quiz.max_attempts,
+    'negative_marking', p_quiz.negative_marking,
+    'pool_size', p_quiz.pool_size,
+    'pool_rules', p_quiz.pool_rules,
+    'shuffle_questions', p_quiz.shuffle_questions,
+    'shuffle_options', p_quiz.shuffle_options
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Returns the latest version of the quiz, creating a new one first when the
+-- questions or settings differ from it
+CREATE OR REPLACE FUNCTION ensure_quiz_version(p_quiz_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_quiz quizzes%ROWTYPE;
+  v_latest quiz_versions%ROWTYPE;
+  v_questions JSONB;
+  v_settings JSONB;
+  v_version_id UUID;
+BEGIN
+  -- Serializes version numbering per quiz
+  PERFORM pg_advisory_xact_lock(hashtext('quiz_version:' || p_quiz_id::TEXT));
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  v_questions := quiz_questions_snapshot(p_quiz_id);
+  v_settings := quiz_settings_snapshot(v_quiz);
+
+  SELECT * INTO v_latest
+  FROM quiz_versions
+  WHERE quiz_id = p_quiz_id
+  ORDER BY version_number DESC
+  LIMIT 1;
+
+  IF FOUND AND v_latest.questions = v_questions AND v_latest.settings = v_settings THEN
+    RETURN v_latest.id;
+  END IF;
+
+  INSERT INTO quiz_versions (quiz_id, version_number, questions, settings, created_by)
+  VALUES (
+    p_quiz_id,
+    COALESCE(v_latest.version_number, 0) + 1,
+    v_questions,
+    v_settings,
+    auth.uid()
+  )
+  RETURNING id INTO v_version_id;
+
+  RETURN v_version_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION ensure_quiz_version(UUID) FROM PUBLIC;
+
+-- Called by the authoring UI after a quiz is saved
+CREATE OR REPLACE FUNCTION create_quiz_version(p_quiz_id UUID)
+RETURNS quiz_versions AS $$
+DECLARE
+  v_version quiz_versions%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM quizzes WHERE id = p_quiz_id AND created_by = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  THEN
+    RAISE EXCEPTION 'You do not have access to this quiz.';
+  END IF;
+
+  SELECT * INTO v_version FROM quiz_versions WHERE id = ensure_quiz_version(p_quiz_id);
+  RETURN v_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_quiz_version(UUID) TO authenticated;
+
+-- Questions of the version an attempt was started on. Attempts from before
+-- versioning that could not be linked fall back to the live questions.
+CREATE OR REPLACE FUNCTION attempt_version_questions(p_attempt_id UUID)
+RETURNS SETOF questions AS $$
+  SELECT vq.*
+  FROM quiz_attempts a
+  INNER JOIN quiz_versions v ON v.id = a.quiz_version_id
+  CROSS JOIN LATERAL jsonb_populate_recordset(NULL::questions, v.questions) AS vq
+  WHERE a.id = p_attempt_id
+  UNION ALL
+  SELECT q.*
+  FROM quiz_attempts a
+  INNER JOIN questions q ON q.id = ANY(a.question_order)
+  WHERE a.id = p_attempt_id AND a.quiz_version_id IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION attempt_version_questions(UUID) FROM PUBLIC;
+
+-- The quiz row with the settings of the attempt's version laid over it.
+-- Settings a version predates keep their live value.
+CREATE OR REPLACE FUNCTION attempt_quiz_settings(p_attempt_id UUID)
+RETURNS quizzes AS $$
+  SELECT jsonb_populate_record(q, COALESCE(v.settings, '{}'::JSONB))
+  FROM quiz_attempts a
+  INNER JOIN quizzes q ON q.id = a.quiz_id
+  LEFT JOIN quiz_versions v ON v.id = a.quiz_version_id
+  WHERE a.id = p_attempt_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION attempt_quiz_settings(UUID) FROM PUBLIC;
+
+-- Time limit and end_time as of the attempt's version
+CREATE OR REPLACE FUNCTION attempt_deadline(p_attempt_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+  SELECT LEAST(
+    CASE WHEN COALESCE(q.time_limit, 0) > 0
+      THEN qa.started_at + make_interval(mins => q.time_limit)
+    END,
+    CASE WHEN q.late_policy = 'block' THEN q.end_time END
+  )
+  FROM quiz_attempts qa
+  CROSS JOIN LATERAL attempt_quiz_settings(qa.id) q
+  WHERE qa.id = p_attempt_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION attempt_deadline(UUID) FROM PUBLIC;
+
+-- Existing quizzes start at version 1 with their current content. Earlier
+-- attempts are linked to it; that is the closest record of what they saw.
+DO $$
+DECLARE
+  v_quiz_id UUID;
+BEGIN
+  FOR v_quiz_id IN SELECT id FROM quizzes LOOP
+    PERFORM ensure_quiz_version(v_quiz_id);
+  END LOOP;
+END;
+$$;
+
+UPDATE quiz_attempts a
+SET quiz_version_id = v.id
+FROM quiz_versions v
+WHERE a.quiz_version_id IS NULL
+  AND v.quiz_id = a.quiz_id
+  AND v.version_number = 1;
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id UUID)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_attempt_count INTEGER;
+  v_seed INTEGER;
+  v_question_order UUID[];
+  v_version_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to take a quiz.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT || ':' || p_quiz_id::TEXT));
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'in_progress';
+
+  IF FOUND THEN
+    RETURN v_attempt;
+  END IF;
+
+  IF v_quiz.start_time IS NOT NULL AND NOW() < v_quiz.start_time THEN
+    RAISE EXCEPTION 'This quiz has not opened yet.';
+  END IF;
+
+  IF v_quiz.end_time IS NOT NULL AND NOW() >= v_quiz.end_time AND v_quiz.late_policy = 'block' THEN
+    RAISE EXCEPTION 'This quiz has closed.';
+  END IF;
+
+  IF COALESCE(v_quiz.max_attempts, 0) > 0 THEN
+    SELECT COUNT(*) INTO v_attempt_count
+    FROM quiz_attempts
+    WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'completed';
+
+    IF v_attempt_count >= v_quiz.max_attempts THEN
+      RAISE EXCEPTION 'You have reached the maximum number of attempts for this quiz.';
+    END IF;
+  END IF;
+
+  -- Snapshot the content the attempt is taken on (a no-op when unchanged)
+  v_version_id := ensure_quiz_version(p_quiz_id);
+
+  v_seed := FLOOR(random() * 2147483647)::INTEGER;
+  v_question_order := build_attempt_question_order(p_quiz_id, v_seed);
+
+  IF v_question_order IS NULL THEN
+    RAISE EXCEPTION 'This quiz has no questions.';
+  END IF;
+
+  INSERT INTO quiz_attempts (
+    user_id, quiz_id, status, score, total_questions, answers,
+    time_taken, current_question, started_at, completed_at,
+    shuffle_seed, question_order, option_order, quiz_version_id
+  )
+  VALUES (
+    v_user_id, p_quiz_id, 'in_progress', 0, array_length(v_question_order, 1), '[]'::JSONB,
+    0, 0, NOW(), NULL,
+    v_seed, v_question_order,
+    build_attempt_option_order(v_question_order, v_quiz.shuffle_options, v_seed),
+    v_version_id
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Questions served for an attempt come from its version
+CREATE OR REPLACE FUNCTION get_attempt_questions(p_attempt_id UUID)
+RETURNS SETOF questions_public AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    q.quiz_id,
+    q.question,
+    q.options,
+    q.category,
+    q.created_at,
+    q.type,
+    q.match_options,
+    q.image_path,
+    q.option_images
+  FROM unnest(v_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+  INNER JOIN attempt_version_questions(v_attempt.id) q ON q.id = o.question_id
+  ORDER BY o.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Answer key for the questions drawn into the attempt, as they were in its version
+CREATE OR REPLACE FUNCTION get_attempt_answer_key(p_attempt_id UUID)
+RETURNS SETOF questions AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_is_manager BOOLEAN;
+BEGIN
+  SELECT * INTO v_attempt FROM quiz_attempts WHERE id = p_attempt_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  v_is_manager := EXISTS (SELECT 1 FROM quizzes WHERE id = v_attempt.quiz_id AND created_by = auth.uid())
+    OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+
+  IF NOT v_is_manager AND v_attempt.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You do not have access to this attempt.';
+  END IF;
+
+  -- Students only see the key once their attempt is submitted
+  IF NOT v_is_manager AND v_attempt.status <> 'completed' THEN
+    RAISE EXCEPTION 'The answer key is available once the attempt is submitted.';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.*
+  FROM unnest(v_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+  INNER JOIN attempt_version_questions(v_attempt.id) q ON q.id = o.question_id
+  ORDER BY o.position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The quiz as the attempt was taken and graded, for results and reports
+CREATE OR REPLACE FUNCTION get_attempt_quiz(p_attempt_id UUID)
+RETURNS quizzes AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_attempt FROM quiz_attempts WHERE id = p_attempt_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.user_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM quizzes WHERE id = v_attempt.quiz_id AND created_by = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  THEN
+    RAISE EXCEPTION 'You do not have access to this attempt.';
+  END IF;
+
+  RETURN attempt_quiz_settings(p_attempt_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_attempt_quiz(UUID) TO authenticated;
+
+-- Grades against the attempt's version rather than the live questions
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_quiz quizzes%ROWTYPE;
+  v_negative_marking NUMERIC;
+  v_question questions%ROWTYPE;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_finished_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_answers JSONB;
+  v_answer JSONB;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_credit NUMERIC;
+  v_skipped BOOLEAN;
+  v_points NUMERIC;
+  v_earned NUMERIC := 0;
+  v_max NUMERIC := 0;
+  v_is_late BOOLEAN;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted.';
+  END IF;
+
+  -- Scoring and lateness follow the version the attempt was started on
+  v_quiz := attempt_quiz_settings(v_attempt.id);
+  v_negative_marking := v_quiz.negative_marking;
+
+  v_deadline := attempt_deadline(v_attempt.id);
+
+  IF v_deadline IS NOT NULL AND v_finished_at > v_deadline + attempt_deadline_grace() THEN
+    -- Answers arriving after the deadline are discarded; grade what was
+    -- autosaved in time and cap the recorded duration at the deadline
+    v_answers := COALESCE(v_attempt.answers, '[]'::JSONB);
+    v_finished_at := v_deadline;
+  ELSE
+    -- Fall back to the last autosave when the client sends nothing
+    v_answers := COALESCE(p_answers, v_attempt.answers, '[]'::JSONB);
+    v_finished_at := LEAST(v_finished_at, COALESCE(v_deadline, v_finished_at));
+  END IF;
+
+  FOR v_question IN
+    SELECT q.*
+    FROM unnest(v_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+    INNER JOIN attempt_version_questions(v_attempt.id) q ON q.id = o.question_id
+    ORDER BY o.position
+  LOOP
+    v_total := v_total + 1;
+    v_max := v_max + v_question.points;
+
+    SELECT answer INTO v_answer
+    FROM jsonb_array_elements(v_answers) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    v_credit := grade_question_answer(v_question, v_attempt.option_order, v_answer);
+    v_skipped := v_credit IS NULL;
+
+    IF v_credit = 1 THEN
+      v_score := v_score + 1;
+    END IF;
+
+    -- Wrong answers can cost a share of the question's points; skipped ones never do
+    v_points := CASE
+      WHEN v_skipped THEN 0
+      WHEN v_credit > 0 THEN v_credit * v_question.points
+      ELSE -v_negative_marking * v_question.points
+    END;
+    v_earned := v_earned + v_points;
+
+    -- Responses stay as displayed; options and the answer key are canonical.
+    -- Every question gets an entry, with an explicit null response when skipped.
+    v_graded := v_graded || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'question_id', v_question.id,
+      'type', v_question.type,
+      'selected_answers', v_answer->'selected_answers',
+      'text_answer', v_answer->'text_answer',
+      'is_correct', COALESCE(v_credit = 1, FALSE),
+      'skipped', v_skipped,
+      'credit', COALESCE(v_credit, 0),
+      'points', ROUND(v_points, 2),
+      'max_points', v_question.points,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    )) || jsonb_build_object('selected_answer', CASE WHEN v_skipped THEN NULL ELSE v_answer->'selected_answer' END)));
+  END LOOP;
+
+  v_is_late := v_quiz.end_time IS NOT NULL
+    AND v_quiz.late_policy <> 'block'
+    AND v_finished_at > v_quiz.end_time;
+
+  -- Negative marking never takes an attempt below zero
+  v_earned := GREATEST(v_earned, 0);
+
+  IF v_is_late AND v_quiz.late_policy = 'penalty' THEN
+    v_score := FLOOR(v_score * (100 - v_quiz.late_penalty_percent) / 100.0)::INTEGER;
+    v_earned := v_earned * (100 - v_quiz.late_penalty_percent) / 100.0;
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    status = 'completed',
+    score = v_score,
+    total_questions = v_total,
+    earned_points = ROUND(v_earned, 2),
+    max_points = v_max,
+    answers = v_graded,
+    is_late = v_is_late,
+    time_taken = GREATEST(EXTRACT(EPOCH FROM (v_finished_at - v_attempt.started_at))::INTEGER, 0),
+    completed_at = NOW()
+  WHERE id = v_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,452 @@
+-- Regrading after an answer-key correction
+-- An admin fixes a question's key the usual way, then runs regrade_quiz for
+-- that question or the whole quiz. The corrected key is carried into every
+-- earlier version of the quiz (so results pages show the right answer), all
+-- completed attempts that include the question are graded again, and each
+-- score that moves is recorded in quiz_regrade_attempts. Affected students can
+-- optionally be told through user_notifications.
+
+CREATE TABLE IF NOT EXISTS quiz_regrades (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quiz_id UUID NOT NULL REFERENCES quizzes(id) ON DELETE CASCADE,
+  -- NULL when every question of the quiz was regraded
+  question_id UUID,
+  performed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  attempts_checked INTEGER NOT NULL DEFAULT 0,
+  attempts_changed INTEGER NOT NULL DEFAULT 0,
+  -- Questions whose options changed too much to carry the new key back
+  questions_skipped INTEGER NOT NULL DEFAULT 0,
+  notified BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS quiz_regrade_attempts (
+  regrade_id UUID NOT NULL REFERENCES quiz_regrades(id) ON DELETE CASCADE,
+  attempt_id UUID NOT NULL REFERENCES quiz_attempts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  old_score INTEGER NOT NULL,
+  new_score INTEGER NOT NULL,
+  old_earned_points NUMERIC(10, 2),
+  new_earned_points NUMERIC(10, 2),
+  old_percentage NUMERIC(5, 2),
+  new_percentage NUMERIC(5, 2),
+  PRIMARY KEY (regrade_id, attempt_id)
+);
+
+CREATE TABLE IF NOT EXISTS user_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  -- Attempt the notification is about, opened from the dashboard
+  attempt_id UUID REFERENCES quiz_attempts(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_regrades_quiz ON quiz_regrades(quiz_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_notifications_unread ON user_notifications(user_id, created_at DESC) WHERE read_at IS NULL;
+
+ALTER TABLE quiz_regrades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_regrade_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view regrades" ON quiz_regrades;
+CREATE POLICY "Admins can view regrades" ON quiz_regrades
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+DROP POLICY IF EXISTS "Admins can view regraded attempts" ON quiz_regrade_attempts;
+CREATE POLICY "Admins can view regraded attempts" ON quiz_regrade_attempts
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON user_notifications;
+CREATE POLICY "Users can view own notifications" ON user_notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Only read_at is meant to change; notifications are written by functions
+DROP POLICY IF EXISTS "Users can mark own notifications read" ON user_notifications;
+CREATE POLICY "Users can mark own notifications read" ON user_notifications
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Sorted copy of a text array, to compare option sets regardless of order
+CREATE OR REPLACE FUNCTION sorted_text_array(p_values TEXT[])
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(value ORDER BY value), '{}')
+  FROM unnest(p_values) AS value;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The snapshot question with the current question's answer key and points.
+-- Options can have moved since the snapshot (ordering items are scrambled
+-- again on every save), so keys are carried over by option text. Returns
+-- NULL when the type or the set of options no longer match.
+CREATE OR REPLACE FUNCTION corrected_question(p_snapshot questions, p_current questions)
+RETURNS questions AS $$
+DECLARE
+  v_result questions := p_snapshot;
+BEGIN
+  IF p_current.type IS DISTINCT FROM p_snapshot.type
+    OR sorted_text_array(p_current.options) IS DISTINCT FROM sorted_text_array(p_snapshot.options)
+    OR (p_current.type = 'matching'
+      AND sorted_text_array(p_current.match_options) IS DISTINCT FROM sorted_text_array(p_snapshot.match_options))
+  THEN
+    RETURN NULL;
+  END IF;
+
+  v_result.points := p_current.points;
+  v_result.partial_credit := p_current.partial_credit;
+
+  CASE p_current.type
+    WHEN 'multi_select' THEN
+      SELECT array_agg(position ORDER BY position)
+      INTO v_result.correct_answers
+      FROM (
+        SELECT array_position(p_snapshot.options, p_current.options[i + 1]) - 1 AS position
+        FROM unnest(p_current.correct_answers) AS i
+      ) AS picks;
+
+    WHEN 'ordering' THEN
+      SELECT array_agg(array_position(p_snapshot.options, p_current.options[i + 1]) - 1 ORDER BY position)
+      INTO v_result.correct_order
+      FROM unnest(p_current.correct_order) WITH ORDINALITY AS c(i, position);
+
+    WHEN 'matching' THEN
+      -- For each snapshot item, the snapshot position of its current match
+      SELECT array_agg(
+        array_position(
+          p_snapshot.match_options,
+          p_current.match_options[p_current.correct_matches[array_position(p_current.options, item)] + 1]
+        ) - 1
+        ORDER BY position
+      )
+      INTO v_result.correct_matches
+      FROM unnest(p_snapshot.options) WITH ORDINALITY AS s(item, position);
+
+    WHEN 'short_text' THEN
+      v_result.accepted_answers := p_current.accepted_answers;
+      v_result.case_sensitive := p_current.case_sensitive;
+
+    WHEN 'numeric' THEN
+      v_result.numeric_answer := p_current.numeric_answer;
+      v_result.numeric_tolerance := p_current.numeric_tolerance;
+
+    ELSE
+      v_result.correct_answer := array_position(p_snapshot.options, p_current.options[p_current.correct_answer + 1]) - 1;
+  END CASE;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Grades an attempt's answers against its quiz version. Returns score, total,
+-- earned and max points, and the graded answers; late penalties are left to
+-- the caller.
+CREATE OR REPLACE FUNCTION grade_attempt_answers(p_attempt quiz_attempts, p_answers JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_negative_marking NUMERIC;
+  v_question questions%ROWTYPE;
+  v_answer JSONB;
+  v_total INTEGER := 0;
+  v_score INTEGER := 0;
+  v_credit NUMERIC;
+  v_skipped BOOLEAN;
+  v_points NUMERIC;
+  v_earned NUMERIC := 0;
+  v_max NUMERIC := 0;
+  v_graded JSONB := '[]'::JSONB;
+BEGIN
+  -- Scoring follows the version the attempt was started on
+  v_negative_marking := (attempt_quiz_settings(p_attempt.id)).negative_marking;
+
+  FOR v_question IN
+    SELECT q.*
+    FROM unnest(p_attempt.question_order) WITH ORDINALITY AS o(question_id, position)
+    INNER JOIN attempt_version_questions(p_attempt.id) q ON q.id = o.question_id
+    ORDER BY o.position
+  LOOP
+    v_total := v_total + 1;
+    v_max := v_max + v_question.points;
+
+    SELECT answer INTO v_answer
+    FROM jsonb_array_elements(COALESCE(p_answers, '[]'::JSONB)) AS answer
+    WHERE answer->>'question_id' = v_question.id::TEXT
+    LIMIT 1;
+
+    v_credit := grade_question_answer(v_question, p_attempt.option_order, v_answer);
+    v_skipped := v_credit IS NULL;
+
+    IF v_credit = 1 THEN
+      v_score := v_score + 1;
+    END IF;
+
+    -- Wrong answers can cost a share of the question's points; skipped ones never do
+    v_points := CASE
+      WHEN v_skipped THEN 0
+      WHEN v_credit > 0 THEN v_credit * v_question.points
+      ELSE -COALESCE(v_negative_marking, 0) * v_question.points
+    END;
+    v_earned := v_earned + v_points;
+
+    -- Responses stay as displayed; options and the answer key are canonical.
+    -- Every question gets an entry, with an explicit null response when skipped.
+    v_graded := v_graded || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+      'question_id', v_question.id,
+      'type', v_question.type,
+      'selected_answers', v_answer->'selected_answers',
+      'text_answer', v_answer->'text_answer',
+      'is_correct', COALESCE(v_credit = 1, FALSE),
+      'skipped', v_skipped,
+      'credit', COALESCE(v_credit, 0),
+      'points', ROUND(v_points, 2),
+      'max_points', v_question.points,
+      'category', v_question.category,
+      'question', v_question.question,
+      'options', to_jsonb(v_question.options),
+      'correct_answer', v_question.correct_answer
+    )) || jsonb_build_object('selected_answer', CASE WHEN v_skipped THEN NULL ELSE v_answer->'selected_answer' END)));
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'total', v_total,
+    -- Negative marking never takes an attempt below zero
+    'earned', GREATEST(v_earned, 0),
+    'max', v_max,
+    'answers', v_graded
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION grade_attempt_answers(quiz_attempts, JSONB) FROM PUBLIC;
+
+-- Same behaviour as before, with grading moved into grade_attempt_answers
+CREATE OR REPLACE FUNCTION submit_quiz_attempt(
+  p_attempt_id UUID,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_attempt quiz_attempts%ROWTYPE;
+  v_quiz quizzes%ROWTYPE;
+  v_deadline TIMESTAMP WITH TIME ZONE;
+  v_finished_at TIMESTAMP WITH TIME ZONE := NOW();
+  v_answers JSONB;
+  v_result JSONB;
+  v_score INTEGER;
+  v_earned NUMERIC;
+  v_is_late BOOLEAN;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE id = p_attempt_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Attempt not found.';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'This attempt has already been submitted.';
+  END IF;
+
+  -- Lateness follows the version the attempt was started on
+  v_quiz := attempt_quiz_settings(v_attempt.id);
+
+  v_deadline := attempt_deadline(v_attempt.id);
+
+  IF v_deadline IS NOT NULL AND v_finished_at > v_deadline + attempt_deadline_grace() THEN
+    -- Answers arriving after the deadline are discarded; grade what was
+    -- autosaved in time and cap the recorded duration at the deadline
+    v_answers := COALESCE(v_attempt.answers, '[]'::JSONB);
+    v_finished_at := v_deadline;
+  ELSE
+    -- Fall back to the last autosave when the client sends nothing
+    v_answers := COALESCE(p_answers, v_attempt.answers, '[]'::JSONB);
+    v_finished_at := LEAST(v_finished_at, COALESCE(v_deadline, v_finished_at));
+  END IF;
+
+  v_result := grade_attempt_answers(v_attempt, v_answers);
+  v_score := (v_result->>'score')::INTEGER;
+  v_earned := (v_result->>'earned')::NUMERIC;
+
+  v_is_late := v_quiz.end_time IS NOT NULL
+    AND v_quiz.late_policy <> 'block'
+    AND v_finished_at > v_quiz.end_time;
+
+  IF v_is_late AND v_quiz.late_policy = 'penalty' THEN
+    v_score := FLOOR(v_score * (100 - v_quiz.late_penalty_percent) / 100.0)::INTEGER;
+    v_earned := v_earned * (100 - v_quiz.late_penalty_percent) / 100.0;
+  END IF;
+
+  UPDATE quiz_attempts
+  SET
+    status = 'completed',
+    score = v_score,
+    total_questions = (v_result->>'total')::INTEGER,
+    earned_points = ROUND(v_earned, 2),
+    max_points = (v_result->>'max')::NUMERIC,
+    answers = v_result->'answers',
+    is_late = v_is_late,
+    time_taken = GREATEST(EXTRACT(EPOCH FROM (v_finished_at - v_attempt.started_at))::INTEGER, 0),
+    completed_at = NOW()
+  WHERE id = v_attempt.id
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Applies the current answer key of one question (or every question) to all
+-- versions of the quiz and regrades its completed attempts
+CREATE OR REPLACE FUNCTION regrade_quiz(
+  p_quiz_id UUID,
+  p_question_id UUID DEFAULT NULL,
+  p_notify BOOLEAN DEFAULT FALSE
+)
+RETURNS quiz_regrades AS $$
+DECLARE
+  v_quiz quizzes%ROWTYPE;
+  v_regrade quiz_regrades%ROWTYPE;
+  v_version quiz_versions%ROWTYPE;
+  v_corrected JSONB;
+  v_skipped UUID[] := '{}';
+  v_attempt quiz_attempts%ROWTYPE;
+  v_settings quizzes%ROWTYPE;
+  v_updated quiz_attempts%ROWTYPE;
+  v_result JSONB;
+  v_score INTEGER;
+  v_earned NUMERIC;
+  v_checked INTEGER := 0;
+  v_changed INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can regrade attempts.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  IF p_question_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM questions WHERE id = p_question_id AND quiz_id = p_quiz_id)
+  THEN
+    RAISE EXCEPTION 'Question not found in this quiz.';
+  END IF;
+
+  -- Make sure the corrected key itself is captured as the latest version
+  PERFORM ensure_quiz_version(p_quiz_id);
+
+  FOR v_version IN
+    SELECT * FROM quiz_versions WHERE quiz_id = p_quiz_id FOR UPDATE
+  LOOP
+    SELECT
+      COALESCE(jsonb_agg(
+        CASE
+          WHEN q.id IS NULL THEN s.question
+          ELSE COALESCE(to_jsonb(corrected_question(jsonb_populate_record(NULL::questions, s.question), q)), s.question)
+        END
+        ORDER BY s.position
+      ), '[]'::JSONB),
+      v_skipped || COALESCE(array_agg(q.id) FILTER (
+        WHERE q.id IS NOT NULL
+          AND corrected_question(jsonb_populate_record(NULL::questions, s.question), q) IS NULL
+      ), '{}')
+    INTO v_corrected, v_skipped
+    FROM jsonb_array_elements(v_version.questions) WITH ORDINALITY AS s(question, position)
+    LEFT JOIN questions q
+      ON q.id = (s.question->>'id')::UUID
+      AND (p_question_id IS NULL OR q.id = p_question_id);
+
+    IF v_corrected IS DISTINCT FROM v_version.questions THEN
+      UPDATE quiz_versions SET questions = v_corrected WHERE id = v_version.id;
+    END IF;
+  END LOOP;
+
+  INSERT INTO quiz_regrades (quiz_id, question_id, performed_by, questions_skipped, notified)
+  VALUES (
+    p_quiz_id,
+    p_question_id,
+    auth.uid(),
+    (SELECT COUNT(DISTINCT id) FROM unnest(v_skipped) AS id),
+    p_notify
+  )
+  RETURNING * INTO v_regrade;
+
+  FOR v_attempt IN
+    SELECT *
+    FROM quiz_attempts
+    WHERE quiz_id = p_quiz_id
+      AND status = 'completed'
+      AND (p_question_id IS NULL OR p_question_id = ANY(question_order))
+    FOR UPDATE
+  LOOP
+    v_checked := v_checked + 1;
+
+    v_result := grade_attempt_answers(v_attempt, v_attempt.answers);
+    v_score := (v_result->>'score')::INTEGER;
+    v_earned := (v_result->>'earned')::NUMERIC;
+
+    -- The late penalty the attempt was graded under
+    v_settings := attempt_quiz_settings(v_attempt.id);
+    IF v_attempt.is_late AND v_settings.late_policy = 'penalty' THEN
+      v_score := FLOOR(v_score * (100 - v_settings.late_penalty_percent) / 100.0)::INTEGER;
+      v_earned := v_earned * (100 - v_settings.late_penalty_percent) / 100.0;
+    END IF;
+
+    UPDATE quiz_attempts
+    SET
+      score = v_score,
+      total_questions = (v_result->>'total')::INTEGER,
+      earned_points = ROUND(v_earned, 2),
+      max_points = (v_result->>'max')::NUMERIC,
+      answers = v_result->'answers'
+    WHERE id = v_attempt.id
+    RETURNING * INTO v_updated;
+
+    IF v_updated.score IS DISTINCT FROM v_attempt.score
+      OR v_updated.percentage IS DISTINCT FROM v_attempt.percentage
+    THEN
+      v_changed := v_changed + 1;
+
+      INSERT INTO quiz_regrade_attempts (
+        regrade_id, attempt_id, user_id,
+        old_score, new_score,
+        old_earned_points, new_earned_points,
+        old_percentage, new_percentage
+      )
+      VALUES (
+        v_regrade.id, v_attempt.id, v_attempt.user_id,
+        v_attempt.score, v_updated.score,
+        v_attempt.earned_points, v_updated.earned_points,
+        v_attempt.percentage, v_updated.percentage
+      );
+
+      IF p_notify THEN
+        INSERT INTO user_notifications (user_id, title, message, attempt_id)
+        VALUES (
+          v_attempt.user_id,
+          'Your result for "' || v_quiz.title || '" was updated',
+          'An answer key was corrected and your attempt was regraded: '
+            || COALESCE(ROUND(v_attempt.percentage)::TEXT, '0') || '% → '
+            || COALESCE(ROUND(v_updated.percentage)::TEXT, '0') || '%.',
+          v_attempt.id
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  UPDATE quiz_regrades
+  SET attempts_checked = v_checked, attempts_changed = v_changed
+  WHERE id = v_regrade.id
+  RETURNING * INTO v_regrade;
+
+  RETURN v_regrade;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION regrade_quiz(UUID, UUID, BOOLEAN) TO authenticated;
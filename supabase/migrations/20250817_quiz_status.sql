@@ -0,0 +1,179 @@
+-- Quiz lifecycle: draft, published, archived
+-- New quizzes start as drafts, visible only to their author and admins, and
+-- appear in the quiz browser once published. Archiving hides a quiz from
+-- browsing and stops new attempts, but the quiz row stays readable so its
+-- results and leaderboard history keep their titles.
+
+-- Quizzes that already exist are live, so they start out published
+ALTER TABLE quizzes
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'published'
+    CHECK (status IN ('draft', 'published', 'archived')),
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE quizzes SET published_at = created_at WHERE status = 'published' AND published_at IS NULL;
+
+ALTER TABLE quizzes ALTER COLUMN status SET DEFAULT 'draft';
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_status ON quizzes(status, created_at DESC);
+
+-- Admins keep full access through "Admins can view all quizzes"
+DROP POLICY IF EXISTS "Users can view all quizzes" ON quizzes;
+DROP POLICY IF EXISTS "Users can view published quizzes" ON quizzes;
+CREATE POLICY "Users can view published quizzes" ON quizzes
+  FOR SELECT USING (status <> 'draft' OR auth.uid() = created_by);
+
+-- questions_public runs with the owner's privileges and so skips the quizzes
+-- policy above; it applies the same rule itself. Attempts read their questions
+-- from the quiz version, so open attempts are unaffected.
+CREATE OR REPLACE VIEW questions_public AS
+SELECT
+  q.id,
+  q.quiz_id,
+  q.question,
+  q.options,
+  q.category,
+  q.created_at,
+  q.type,
+  q.match_options,
+  q.image_path,
+  q.option_images
+FROM questions q
+WHERE EXISTS (
+  SELECT 1 FROM quizzes z
+  WHERE z.id = q.quiz_id
+    AND (z.status <> 'draft'
+      OR z.created_by = auth.uid()
+      OR EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin'))
+);
+
+-- Superseded by get_attempt_questions; make sure no copy that ignores the
+-- quiz status is left behind
+DROP FUNCTION IF EXISTS get_quiz_questions_for_attempt(UUID);
+
+CREATE OR REPLACE FUNCTION start_quiz_attempt(p_quiz_id UUID)
+RETURNS quiz_attempts AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_attempt quiz_attempts%ROWTYPE;
+  v_attempt_count INTEGER;
+  v_seed INTEGER;
+  v_question_order UUID[];
+  v_version_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to take a quiz.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::TEXT || ':' || p_quiz_id::TEXT));
+
+  SELECT * INTO v_attempt
+  FROM quiz_attempts
+  WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'in_progress';
+
+  IF FOUND THEN
+    RETURN v_attempt;
+  END IF;
+
+  -- Open attempts can still be finished after a quiz is unpublished or archived
+  IF v_quiz.status <> 'published' THEN
+    RAISE EXCEPTION 'This quiz is not available.';
+  END IF;
+
+  IF v_quiz.start_time IS NOT NULL AND NOW() < v_quiz.start_time THEN
+    RAISE EXCEPTION 'This quiz has not opened yet.';
+  END IF;
+
+  IF v_quiz.end_time IS NOT NULL AND NOW() >= v_quiz.end_time AND v_quiz.late_policy = 'block' THEN
+    RAISE EXCEPTION 'This quiz has closed.';
+  END IF;
+
+  IF COALESCE(v_quiz.max_attempts, 0) > 0 THEN
+    SELECT COUNT(*) INTO v_attempt_count
+    FROM quiz_attempts
+    WHERE user_id = v_user_id AND quiz_id = p_quiz_id AND status = 'completed';
+
+    IF v_attempt_count >= v_quiz.max_attempts THEN
+      RAISE EXCEPTION 'You have reached the maximum number of attempts for this quiz.';
+    END IF;
+  END IF;
+
+  -- Snapshot the content the attempt is taken on (a no-op when unchanged)
+  v_version_id := ensure_quiz_version(p_quiz_id);
+
+  v_seed := FLOOR(random() * 2147483647)::INTEGER;
+  v_question_order := build_attempt_question_order(p_quiz_id, v_seed);
+
+  IF v_question_order IS NULL THEN
+    RAISE EXCEPTION 'This quiz has no questions.';
+  END IF;
+
+  INSERT INTO quiz_attempts (
+    user_id, quiz_id, status, score, total_questions, answers,
+    time_taken, current_question, started_at, completed_at,
+    shuffle_seed, question_order, option_order, quiz_version_id
+  )
+  VALUES (
+    v_user_id, p_quiz_id, 'in_progress', 0, array_length(v_question_order, 1), '[]'::JSONB,
+    0, 0, NOW(), NULL,
+    v_seed, v_question_order,
+    build_attempt_option_order(v_question_order, v_quiz.shuffle_options, v_seed),
+    v_version_id
+  )
+  RETURNING * INTO v_attempt;
+
+  RETURN v_attempt;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION start_practice_attempt(p_quiz_id UUID)
+RETURNS practice_attempts AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_quiz quizzes%ROWTYPE;
+  v_practice practice_attempts%ROWTYPE;
+  v_seed INTEGER;
+  v_question_order UUID[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to practice.';
+  END IF;
+
+  SELECT * INTO v_quiz FROM quizzes WHERE id = p_quiz_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quiz not found.';
+  END IF;
+
+  IF v_quiz.status <> 'published' THEN
+    RAISE EXCEPTION 'This quiz is not available.';
+  END IF;
+
+  IF NOT can_practice_quiz(v_quiz, v_user_id) THEN
+    RAISE EXCEPTION 'Practice is not available for this quiz right now.';
+  END IF;
+
+  v_seed := FLOOR(random() * 2147483647)::INTEGER;
+  v_question_order := build_attempt_question_order(p_quiz_id, v_seed);
+
+  IF v_question_order IS NULL THEN
+    RAISE EXCEPTION 'This quiz has no questions.';
+  END IF;
+
+  INSERT INTO practice_attempts (
+    user_id, quiz_id, shuffle_seed, question_order, option_order, total_questions
+  )
+  VALUES (
+    v_user_id, p_quiz_id, v_seed, v_question_order,
+    build_attempt_option_order(v_question_order, v_quiz.shuffle_options, v_seed),
+    array_length(v_question_order, 1)
+  )
+  RETURNING * INTO v_practice;
+
+  RETURN v_practice;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,160 @@
+-- Shared question bank
+-- Questions in question_bank belong to no quiz and carry tags. A quiz uses a
+-- bank question through a questions row linked by bank_question_id; the row
+-- keeps a copy of the content (so attempts, grading and versions work as
+-- before) and the copy is refreshed whenever the bank question is edited.
+-- ensure_quiz_version picks the change up the next time an attempt starts.
+--
+-- Answers are recorded against the questions row, so item statistics for a
+-- bank question are gathered from every quiz linked to it.
+
+CREATE TABLE IF NOT EXISTS question_bank (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question TEXT NOT NULL,
+  options TEXT[] NOT NULL DEFAULT '{}',
+  correct_answer INTEGER NOT NULL DEFAULT 0,
+  category TEXT NOT NULL DEFAULT 'General',
+  type TEXT NOT NULL DEFAULT 'single_choice' CHECK (type IN (
+    'single_choice', 'multi_select', 'true_false', 'short_text', 'numeric', 'ordering', 'matching'
+  )),
+  correct_answers INTEGER[],
+  accepted_answers TEXT[],
+  case_sensitive BOOLEAN NOT NULL DEFAULT FALSE,
+  numeric_answer NUMERIC,
+  numeric_tolerance NUMERIC NOT NULL DEFAULT 0 CHECK (numeric_tolerance >= 0),
+  correct_order INTEGER[],
+  match_options TEXT[],
+  correct_matches INTEGER[],
+  partial_credit BOOLEAN NOT NULL DEFAULT FALSE,
+  points NUMERIC(6, 2) NOT NULL DEFAULT 1 CHECK (points > 0),
+  explanation TEXT,
+  reference_url TEXT CHECK (reference_url IS NULL OR reference_url ~* '^https?://'),
+  image_path TEXT,
+  option_images TEXT[],
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_question_bank_category ON question_bank(category);
+CREATE INDEX IF NOT EXISTS idx_question_bank_tags ON question_bank USING GIN (tags);
+
+-- Deleting a bank question leaves the quiz copies in place, unlinked
+ALTER TABLE questions
+  ADD COLUMN IF NOT EXISTS bank_question_id UUID REFERENCES question_bank(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_questions_bank_question ON questions(bank_question_id);
+
+ALTER TABLE question_bank ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage the question bank" ON question_bank;
+CREATE POLICY "Admins can manage the question bank" ON question_bank
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+  );
+
+-- The link is bookkeeping, not content: linking or unlinking a question on its
+-- own does not produce a new quiz version
+CREATE OR REPLACE FUNCTION quiz_questions_snapshot(p_quiz_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(to_jsonb(q) - 'bank_question_id' ORDER BY q.created_at, q.id), '[]'::JSONB)
+  FROM questions q
+  WHERE q.quiz_id = p_quiz_id;
+$$ LANGUAGE sql STABLE;
+
+-- Copies an edited bank question into every quiz that uses it. Runs with the
+-- definer's rights because the editor need not own those quizzes.
+CREATE OR REPLACE FUNCTION sync_bank_question()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := NOW();
+
+  UPDATE questions
+  SET
+    question = NEW.question,
+    options = NEW.options,
+    correct_answer = NEW.correct_answer,
+    category = NEW.category,
+    type = NEW.type,
+    correct_answers = NEW.correct_answers,
+    accepted_answers = NEW.accepted_answers,
+    case_sensitive = NEW.case_sensitive,
+    numeric_answer = NEW.numeric_answer,
+    numeric_tolerance = NEW.numeric_tolerance,
+    correct_order = NEW.correct_order,
+    match_options = NEW.match_options,
+    correct_matches = NEW.correct_matches,
+    partial_credit = NEW.partial_credit,
+    points = NEW.points,
+    explanation = NEW.explanation,
+    reference_url = NEW.reference_url,
+    image_path = NEW.image_path,
+    option_images = NEW.option_images
+  WHERE bank_question_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sync_bank_question() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS sync_bank_question ON question_bank;
+CREATE TRIGGER sync_bank_question
+  BEFORE UPDATE ON question_bank
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_bank_question();
+
+-- Item statistics for each bank question across every quiz linked to it,
+-- counted from completed attempts. Skipped answers are counted on their own
+-- and left out of answer_count and average_credit.
+CREATE OR REPLACE FUNCTION get_question_bank_stats()
+RETURNS TABLE (
+  bank_question_id UUID,
+  quiz_count INTEGER,
+  answer_count INTEGER,
+  correct_count INTEGER,
+  skipped_count INTEGER,
+  average_credit NUMERIC
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view question bank statistics.';
+  END IF;
+
+  RETURN QUERY
+  WITH linked AS (
+    SELECT q.id, q.quiz_id, q.bank_question_id
+    FROM questions q
+    WHERE q.bank_question_id IS NOT NULL
+  ),
+  answered AS (
+    SELECT linked.bank_question_id, answer
+    FROM linked
+    JOIN quiz_attempts qa ON qa.quiz_id = linked.quiz_id AND qa.status = 'completed'
+    CROSS JOIN LATERAL jsonb_array_elements(
+      CASE WHEN jsonb_typeof(qa.answers) = 'array' THEN qa.answers ELSE '[]'::JSONB END
+    ) AS answer
+    WHERE answer->>'question_id' = linked.id::TEXT
+  )
+  SELECT
+    b.id,
+    (SELECT COUNT(DISTINCT linked.quiz_id) FROM linked WHERE linked.bank_question_id = b.id)::INTEGER,
+    COUNT(answered.answer) FILTER (WHERE NOT COALESCE((answered.answer->>'skipped')::BOOLEAN, FALSE))::INTEGER,
+    COUNT(*) FILTER (WHERE (answered.answer->>'is_correct')::BOOLEAN)::INTEGER,
+    COUNT(*) FILTER (WHERE (answered.answer->>'skipped')::BOOLEAN)::INTEGER,
+    ROUND(AVG(CASE WHEN answered.answer IS NOT NULL
+      AND NOT COALESCE((answered.answer->>'skipped')::BOOLEAN, FALSE) THEN COALESCE(
+      (answered.answer->>'credit')::NUMERIC,
+      CASE WHEN (answered.answer->>'is_correct')::BOOLEAN THEN 1 ELSE 0 END
+    ) END), 3)
+  FROM question_bank b
+  LEFT JOIN answered ON answered.bank_question_id = b.id
+  GROUP BY b.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_question_bank_stats() TO authenticated;
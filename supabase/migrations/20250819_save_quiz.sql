@@ -0,0 +1,130 @@
+-- Saving a quiz from the editor in one transaction
+-- The editor used to update the quiz, delete removed questions, update changed
+-- ones and insert new ones as separate requests, so a failure part way left
+-- the quiz half saved. save_quiz applies the whole edit and snapshots the new
+-- version, or changes nothing.
+--
+-- p_fields holds the quiz columns the editor sets; p_upserts holds question
+-- rows, updated when they carry an id and inserted otherwise, in the order they
+-- appear in the editor.
+
+CREATE OR REPLACE FUNCTION save_quiz(
+  p_quiz_id UUID,
+  p_fields JSONB,
+  p_upserts JSONB,
+  p_deletes UUID[]
+)
+RETURNS quizzes AS $$
+DECLARE
+  v_fields quizzes%ROWTYPE := jsonb_populate_record(NULL::quizzes, p_fields);
+  v_quiz quizzes%ROWTYPE;
+  v_row questions%ROWTYPE;
+  v_upsert JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to save a quiz.';
+  END IF;
+
+  IF p_quiz_id IS NULL THEN
+    INSERT INTO quizzes (
+      title, description, category, time_limit, max_attempts, start_time, end_time,
+      late_policy, late_penalty_percent, shuffle_questions, shuffle_options,
+      negative_marking, pool_size, pool_rules, created_by
+    )
+    VALUES (
+      v_fields.title, v_fields.description, v_fields.category, v_fields.time_limit, v_fields.max_attempts,
+      v_fields.start_time, v_fields.end_time, v_fields.late_policy, v_fields.late_penalty_percent,
+      v_fields.shuffle_questions, v_fields.shuffle_options, v_fields.negative_marking,
+      v_fields.pool_size, v_fields.pool_rules, auth.uid()
+    )
+    RETURNING * INTO v_quiz;
+  ELSE
+    IF NOT EXISTS (SELECT 1 FROM quizzes WHERE id = p_quiz_id AND created_by = auth.uid())
+      AND NOT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+    THEN
+      RAISE EXCEPTION 'You do not have access to this quiz.';
+    END IF;
+
+    UPDATE quizzes SET
+      title = v_fields.title,
+      description = v_fields.description,
+      category = v_fields.category,
+      time_limit = v_fields.time_limit,
+      max_attempts = v_fields.max_attempts,
+      start_time = v_fields.start_time,
+      end_time = v_fields.end_time,
+      late_policy = v_fields.late_policy,
+      late_penalty_percent = v_fields.late_penalty_percent,
+      shuffle_questions = v_fields.shuffle_questions,
+      shuffle_options = v_fields.shuffle_options,
+      negative_marking = v_fields.negative_marking,
+      pool_size = v_fields.pool_size,
+      pool_rules = v_fields.pool_rules
+    WHERE id = p_quiz_id
+    RETURNING * INTO v_quiz;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Quiz not found.';
+    END IF;
+  END IF;
+
+  DELETE FROM questions
+  WHERE quiz_id = v_quiz.id AND id = ANY(COALESCE(p_deletes, '{}'));
+
+  FOR v_upsert IN SELECT * FROM jsonb_array_elements(COALESCE(p_upserts, '[]'::JSONB))
+  LOOP
+    v_row := jsonb_populate_record(NULL::questions, v_upsert);
+
+    IF v_row.id IS NOT NULL THEN
+      UPDATE questions SET
+        question = v_row.question,
+        category = v_row.category,
+        type = v_row.type,
+        options = v_row.options,
+        correct_order = v_row.correct_order,
+        match_options = v_row.match_options,
+        correct_matches = v_row.correct_matches,
+        points = v_row.points,
+        explanation = v_row.explanation,
+        reference_url = v_row.reference_url,
+        image_path = v_row.image_path,
+        option_images = v_row.option_images,
+        partial_credit = v_row.partial_credit,
+        correct_answer = v_row.correct_answer,
+        correct_answers = v_row.correct_answers,
+        accepted_answers = v_row.accepted_answers,
+        case_sensitive = v_row.case_sensitive,
+        numeric_answer = v_row.numeric_answer,
+        numeric_tolerance = v_row.numeric_tolerance,
+        bank_question_id = v_row.bank_question_id
+      WHERE id = v_row.id AND quiz_id = v_quiz.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Question % is not part of this quiz.', v_row.id;
+      END IF;
+    ELSE
+      -- clock_timestamp keeps new questions in editor order, which is the
+      -- order questions are loaded and served in
+      INSERT INTO questions (
+        quiz_id, question, category, type, options, correct_order, match_options,
+        correct_matches, points, explanation, reference_url, image_path, option_images,
+        partial_credit, correct_answer, correct_answers, accepted_answers, case_sensitive,
+        numeric_answer, numeric_tolerance, bank_question_id, created_at
+      )
+      VALUES (
+        v_quiz.id, v_row.question, v_row.category, v_row.type, v_row.options, v_row.correct_order,
+        v_row.match_options, v_row.correct_matches, v_row.points, v_row.explanation,
+        v_row.reference_url, v_row.image_path, v_row.option_images, v_row.partial_credit,
+        v_row.correct_answer, v_row.correct_answers, v_row.accepted_answers, v_row.case_sensitive,
+        v_row.numeric_answer, v_row.numeric_tolerance, v_row.bank_question_id, clock_timestamp()
+      );
+    END IF;
+  END LOOP;
+
+  PERFORM ensure_quiz_version(v_quiz.id);
+
+  RETURN v_quiz;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION save_quiz(UUID, JSONB, JSONB, UUID[]) TO authenticated;